@@ -2,6 +2,15 @@ import { DataSource } from 'typeorm';
 import env from './env';
 import { Todo } from '../entities/Todo.entity';
 import { User } from '../entities/User.entity';
+import { Tag } from '../entities/Tag.entity';
+import { Project } from '../entities/Project.entity';
+import { ChecklistItem } from '../entities/ChecklistItem.entity';
+import { Reminder } from '../entities/Reminder.entity';
+import { Webhook } from '../entities/Webhook.entity';
+import { WebhookDelivery } from '../entities/WebhookDelivery.entity';
+import { PersonalAccessToken } from '../entities/PersonalAccessToken.entity';
+import { AddTodoStatus1760832000000 } from '../migrations/1760832000000-AddTodoStatus';
+import { AddTodoPosition1760918400000 } from '../migrations/1760918400000-AddTodoPosition';
 
 export const AppDataSource = new DataSource({
   type: 'mysql',
@@ -10,7 +19,10 @@ export const AppDataSource = new DataSource({
   username: env.username,
   password: env.password,
   database: env.database,
-  entities: [Todo, User],
+  entities: [Todo, User, Tag, Project, ChecklistItem, Reminder, Webhook, WebhookDelivery, PersonalAccessToken],
+  // Migrations run first and only cover data that synchronization alone would lose
+  migrations: [AddTodoStatus1760832000000, AddTodoPosition1760918400000],
+  migrationsRun: true,
   synchronize: true,
   logging: false,
 }); 
\ No newline at end of file
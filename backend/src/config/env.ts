@@ -1,6 +1,6 @@
 import dotenv from 'dotenv';
 import { plainToInstance } from 'class-transformer';
-import { IsString, IsNotEmpty, validateSync } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsNumberString, validateSync } from 'class-validator';
 
 dotenv.config();
 
@@ -72,6 +72,10 @@ class EnvConfig {
   @IsString()
   @IsNotEmpty()
   GOOGLE_CLIENT_SECRET!: string;
+
+  @IsOptional()
+  @IsNumberString()
+  TRASH_RETENTION_DAYS?: string;
 }
 
 const envConfig = plainToInstance(EnvConfig, process.env, { enableImplicitConversion: true });
@@ -100,4 +104,5 @@ export default {
   MAIL_FROM: envConfig.MAIL_FROM,
   googleClientId: envConfig.GOOGLE_CLIENT_ID,
   googleClientSecret: envConfig.GOOGLE_CLIENT_SECRET,
+  trashRetentionDays: parseInt(envConfig.TRASH_RETENTION_DAYS ?? '30', 10),
 }; 
\ No newline at end of file
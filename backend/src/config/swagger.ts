@@ -78,7 +78,7 @@ All errors follow a consistent format:
             type: 'http',
             scheme: 'bearer',
             bearerFormat: 'JWT',
-            description: 'JWT token obtained from login or register endpoint'
+            description: 'JWT token obtained from login or register endpoint, or a personal access token (`tdp_...`) for the /api/todos endpoints'
           }
         }
       },
@@ -91,6 +91,34 @@ All errors follow a consistent format:
           name: 'Todos',
           description: 'Todo management endpoints'
         },
+        {
+          name: 'Tags',
+          description: 'Tags for categorizing todos'
+        },
+        {
+          name: 'Projects',
+          description: 'Projects (lists) for grouping todos'
+        },
+        {
+          name: 'Checklist',
+          description: 'Checklist items (subtasks) inside a todo'
+        },
+        {
+          name: 'Digest',
+          description: 'Daily and weekly email digests'
+        },
+        {
+          name: 'Calendar',
+          description: 'iCalendar subscription feed of todos'
+        },
+        {
+          name: 'Webhooks',
+          description: 'Outgoing webhooks for todo events and their delivery log'
+        },
+        {
+          name: 'Access Tokens',
+          description: 'Personal access tokens for scripts and command-line tools'
+        },
         {
           name: 'Health',
           description: 'Health check and monitoring endpoints'
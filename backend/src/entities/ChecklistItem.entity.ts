@@ -0,0 +1,34 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { IsNotEmpty } from 'class-validator';
+import { Todo } from './Todo.entity';
+
+@Entity()
+@Index(['todoId', 'position'])
+export class ChecklistItem {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 200 })
+  @IsNotEmpty()
+  text!: string;
+
+  @Column({ type: 'boolean', default: false })
+  isDone!: boolean;
+
+  // 0-based order within the todo's checklist
+  @Column({ type: 'int', default: 0 })
+  position!: number;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  @Column({ type: 'uuid' })
+  todoId!: string;
+
+  @ManyToOne(() => Todo, todo => todo.checklistItems, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'todoId' })
+  todo!: Todo;
+}
@@ -0,0 +1,46 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { IsNotEmpty } from 'class-validator';
+import { User } from './User.entity';
+
+export const ACCESS_TOKEN_SCOPES = ['todos:read', 'todos:write'] as const;
+export type AccessTokenScope = (typeof ACCESS_TOKEN_SCOPES)[number];
+
+@Entity()
+export class PersonalAccessToken {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // Label chosen by the user, e.g. "Nightly backup script"
+  @Column({ type: 'varchar', length: 100 })
+  @IsNotEmpty()
+  name!: string;
+
+  // SHA-256 of the token; the token itself is only shown once, when it is created
+  @Column({ type: 'varchar', length: 64, unique: true, select: false })
+  tokenHash!: string;
+
+  // Start of the token (e.g. "tdp_3f9a1c"), so the user can tell tokens apart
+  @Column({ type: 'varchar', length: 16 })
+  prefix!: string;
+
+  @Column({ type: 'simple-json' })
+  scopes!: AccessTokenScope[];
+
+  // Null for tokens that never expire
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt!: Date | null;
+
+  // Updated at most once a minute
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt!: Date | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+}
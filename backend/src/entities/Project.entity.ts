@@ -0,0 +1,47 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, ManyToOne, OneToMany, JoinColumn } from 'typeorm';
+import { IsNotEmpty, Matches } from 'class-validator';
+import { User } from './User.entity';
+import { Todo } from './Todo.entity';
+
+@Entity()
+@Index(['userId', 'sortOrder'])
+export class Project {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  @IsNotEmpty()
+  name!: string;
+
+  // Hex color, e.g. #3b82f6
+  @Column({ type: 'varchar', length: 7, default: '#64748b' })
+  @Matches(/^#[0-9a-fA-F]{6}$/)
+  color!: string;
+
+  // Icon identifier chosen by the client, e.g. "briefcase"
+  @Column({ type: 'varchar', length: 32, default: 'folder' })
+  icon!: string;
+
+  // Archived projects are hidden from the sidebar but keep their todos
+  @Column({ type: 'boolean', default: false })
+  isArchived!: boolean;
+
+  @Column({ type: 'int', default: 0 })
+  sortOrder!: number;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, user => user.projects, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @OneToMany(() => Todo, todo => todo.project)
+  todos!: Todo[];
+}
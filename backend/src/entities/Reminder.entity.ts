@@ -0,0 +1,34 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { Min } from 'class-validator';
+import { Todo } from './Todo.entity';
+
+@Entity()
+@Index(['todoId', 'offsetMinutes'], { unique: true })
+@Index(['sentAt', 'remindAt'])
+export class Reminder {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // How long before the todo's dateTime the reminder goes out
+  @Column({ type: 'int' })
+  @Min(0)
+  offsetMinutes!: number;
+
+  // dateTime - offsetMinutes, stored so the scheduler can query due reminders directly
+  @Column({ type: 'timestamp' })
+  remindAt!: Date;
+
+  // Set when the scheduler claims the reminder, so it is sent at most once
+  @Column({ type: 'timestamp', nullable: true })
+  sentAt!: Date | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @Column({ type: 'uuid' })
+  todoId!: string;
+
+  @ManyToOne(() => Todo, todo => todo.reminders, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'todoId' })
+  todo!: Todo;
+}
@@ -0,0 +1,36 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, ManyToOne, ManyToMany, JoinColumn } from 'typeorm';
+import { IsNotEmpty, Matches } from 'class-validator';
+import { User } from './User.entity';
+import { Todo } from './Todo.entity';
+
+@Entity()
+@Index(['userId', 'name'], { unique: true })
+export class Tag {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  @IsNotEmpty()
+  name!: string;
+
+  // Hex color, e.g. #3b82f6
+  @Column({ type: 'varchar', length: 7, default: '#64748b' })
+  @Matches(/^#[0-9a-fA-F]{6}$/)
+  color!: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, user => user.tags, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @ManyToMany(() => Todo, todo => todo.tags)
+  todos!: Todo[];
+}
@@ -1,10 +1,47 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, DeleteDateColumn, VersionColumn, Index, ManyToOne, ManyToMany, OneToMany, JoinColumn, JoinTable } from 'typeorm';
 import { IsNotEmpty, IsDate } from 'class-validator';
 import { User } from './User.entity';
+import { Tag } from './Tag.entity';
+import { Project } from './Project.entity';
+import { ChecklistItem } from './ChecklistItem.entity';
+import { Reminder } from './Reminder.entity';
+
+// Declared from least to most urgent: MySQL sorts ENUM columns by this order
+export enum TodoPriority {
+  NONE = 'none',
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  URGENT = 'urgent',
+}
+
+export const TODO_PRIORITIES = Object.values(TodoPriority);
+
+// Where a todo stands, in board column order; only `done` counts as completed
+export enum TodoStatus {
+  BACKLOG = 'backlog',
+  TODO = 'todo',
+  IN_PROGRESS = 'in_progress',
+  BLOCKED = 'blocked',
+  DONE = 'done',
+}
+
+export const TODO_STATUSES = Object.values(TodoStatus);
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
 
 @Entity()
 @Index(['isDone', 'dateTime'])
+@Index(['userId', 'status'])
+@Index(['userId', 'position'])
+@Index(['deletedAt'])
 @Index(['name', 'shortDescription'], { fulltext: true })
+@Index(['userId', 'importUid'])
+// Delta sync reads a user's todos in updatedAt order
+@Index(['userId', 'updatedAt'])
 export class Todo {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
@@ -21,9 +58,32 @@ export class Todo {
   @IsDate()
   dateTime!: Date;
 
+  @Column({ type: 'enum', enum: TodoStatus, default: TodoStatus.TODO })
+  status!: TodoStatus;
+
+  // Derived from status for filters and older clients; change it through setTodoStatus() in routes/todos.ts
   @Column({ type: 'boolean', default: false })
   isDone!: boolean;
 
+  // When the todo was last marked done; null while it is open
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt!: Date | null;
+
+  @Column({ type: 'enum', enum: TodoPriority, default: TodoPriority.NONE })
+  priority!: TodoPriority;
+
+  // Rank in the user's manual order (see utils/rank.ts); binary collation so MySQL sorts it byte by byte
+  @Column({ type: 'varchar', length: 255, charset: 'ascii', collation: 'ascii_bin' })
+  position!: string;
+
+  // RFC 5545 RRULE without DTSTART (e.g. "FREQ=WEEKLY;BYDAY=MO"); dateTime is the current occurrence
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  recurrence!: string | null;
+
+  // UID of the iCalendar entry the todo was imported from, used to skip re-imports
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  importUid?: string | null;
+
   @CreateDateColumn()
   createdAt!: Date;
 
@@ -33,10 +93,42 @@ export class Todo {
   @DeleteDateColumn()
   deletedAt?: Date;
 
+  // Incremented on every save; exposed as the ETag for optimistic concurrency
+  @VersionColumn()
+  version!: number;
+
   @Column({ type: 'uuid' })
   userId!: string;
 
   @ManyToOne(() => User, user => user.todos, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'userId' })
   user!: User;
+
+  // Todos without a project live in the user's inbox
+  @Column({ type: 'uuid', nullable: true })
+  projectId!: string | null;
+
+  @ManyToOne(() => Project, project => project.todos, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'projectId' })
+  project?: Project | null;
+
+  @ManyToMany(() => Tag, tag => tag.todos)
+  @JoinTable({
+    name: 'todo_tags',
+    joinColumn: { name: 'todoId', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'tagId', referencedColumnName: 'id' },
+  })
+  tags!: Tag[];
+
+  @OneToMany(() => ChecklistItem, item => item.todo)
+  checklistItems!: ChecklistItem[];
+
+  @OneToMany(() => Reminder, reminder => reminder.todo)
+  reminders!: Reminder[];
+
+  // Not persisted: filled in by the todo routes so lists can show "3/5" without loading every item
+  checklistProgress?: ChecklistProgress;
+
+  // Not persisted: minutes-before offsets of the todo's reminders, ascending
+  reminderOffsets?: number[];
 } 
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, OneToMany } from 'typeorm';
 import { IsEmail, IsNotEmpty } from 'class-validator';
 import { Todo } from './Todo.entity';
+import { Tag } from './Tag.entity';
+import { Project } from './Project.entity';
 
 @Entity()
 export class User {
@@ -33,6 +35,37 @@ export class User {
   @Column({ type: 'boolean', default: false })
   isEmailVerified!: boolean;
 
+  // Morning email of today's, overdue and recently completed todos
+  @Column({ type: 'boolean', default: false })
+  dailyDigest!: boolean;
+
+  // Monday summary of the week ahead
+  @Column({ type: 'boolean', default: false })
+  weeklyDigest!: boolean;
+
+  // Local hour (0-23) digests go out at, in `timezone`
+  @Column({ type: 'tinyint', default: 8 })
+  digestHour!: number;
+
+  // IANA time zone, e.g. "Europe/Berlin"
+  @Column({ type: 'varchar', length: 64, default: 'UTC' })
+  timezone!: string;
+
+  // Secret for the login-free unsubscribe link in digest emails
+  @Column({ type: 'varchar', length: 64, nullable: true, unique: true })
+  digestToken?: string | null;
+
+  // Local dates (YYYY-MM-DD) of the last digests, so each goes out once per day
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  lastDailyDigestOn?: string | null;
+
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  lastWeeklyDigestOn?: string | null;
+
+  // Secret in the iCalendar feed URL; null until the user creates a feed
+  @Column({ type: 'varchar', length: 64, nullable: true, unique: true })
+  calendarToken?: string | null;
+
   @CreateDateColumn()
   createdAt!: Date;
 
@@ -41,4 +74,10 @@ export class User {
 
   @OneToMany(() => Todo, todo => todo.user)
   todos!: Todo[];
+
+  @OneToMany(() => Tag, tag => tag.user)
+  tags!: Tag[];
+
+  @OneToMany(() => Project, project => project.user)
+  projects!: Project[];
 } 
\ No newline at end of file
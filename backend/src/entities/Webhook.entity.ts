@@ -0,0 +1,45 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, OneToMany, JoinColumn } from 'typeorm';
+import { IsUrl } from 'class-validator';
+import { User } from './User.entity';
+import { WebhookDelivery } from './WebhookDelivery.entity';
+
+export const WEBHOOK_EVENTS = ['todo.created', 'todo.updated', 'todo.completed', 'todo.deleted'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+@Entity()
+export class Webhook {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  url!: string;
+
+  // Key deliveries are signed with (HMAC-SHA256), so receivers can tell they came from us
+  @Column({ type: 'varchar', length: 64 })
+  secret!: string;
+
+  // Events this endpoint is subscribed to
+  @Column({ type: 'simple-json' })
+  events!: WebhookEvent[];
+
+  // Inactive webhooks keep their settings and log but receive nothing
+  @Column({ type: 'boolean', default: true })
+  isActive!: boolean;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @OneToMany(() => WebhookDelivery, delivery => delivery.webhook)
+  deliveries!: WebhookDelivery[];
+}
@@ -0,0 +1,61 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { Webhook } from './Webhook.entity';
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+@Entity()
+@Index(['status', 'nextAttemptAt'])
+@Index(['webhookId', 'createdAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // A WebhookEvent, or "ping" for test deliveries
+  @Column({ type: 'varchar', length: 32 })
+  event!: string;
+
+  // JSON body, fixed when the event happens so every retry sends the same payload
+  @Column({ type: 'mediumtext' })
+  payload!: string;
+
+  @Column({ type: 'enum', enum: WebhookDeliveryStatus, default: WebhookDeliveryStatus.PENDING })
+  status!: WebhookDeliveryStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts!: number;
+
+  // When the next attempt is due; while an attempt runs it is pushed ahead as a lease. Null once finished.
+  @Column({ type: 'timestamp', nullable: true })
+  nextAttemptAt!: Date | null;
+
+  // Outcome of the latest attempt
+  @Column({ type: 'int', nullable: true })
+  responseStatus!: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  responseBody!: string | null;
+
+  // Network error or timeout, when no response came back
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  error!: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  durationMs!: number | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt!: Date | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @Column({ type: 'uuid' })
+  webhookId!: string;
+
+  @ManyToOne(() => Webhook, webhook => webhook.deliveries, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'webhookId' })
+  webhook!: Webhook;
+}
@@ -8,12 +8,24 @@ import { json, urlencoded } from 'express';
 import { AppDataSource } from './config/db';
 import env from './config/env';
 import todosRouter from './routes/todos';
+import tagsRouter from './routes/tags';
+import projectsRouter from './routes/projects';
+import checklistRouter from './routes/checklist';
+import webhooksRouter from './routes/webhooks';
+import accessTokensRouter from './routes/accessTokens';
+import digestRouter from './routes/digest';
+import calendarRouter from './routes/calendar';
+import importExportRouter from './routes/importExport';
 import errorHandler from './middleware/errorHandler';
 import { setupSwagger } from './config/swagger';
 
 import { setupMetrics } from './config/metrics';
 import authRouter from './routes/auth';
 import { authenticate } from './middleware/auth';
+import { startTrashPurgeJob } from './jobs/purgeTrash';
+import { startReminderJob } from './jobs/sendReminders';
+import { startDigestJob } from './jobs/sendDigests';
+import { startWebhookJob } from './jobs/deliverWebhooks';
 import type { RequestHandler } from 'express';
 
 async function startServer() {
@@ -26,25 +38,44 @@ async function startServer() {
     app.use(rateLimit({ windowMs: 15 * 60 * 1000, max: 100 }));
     app.use(cors({ 
       origin: ['http://localhost:5173', 'http://localhost:3000'], 
-      credentials: false 
+      credentials: false,
+      exposedHeaders: ['X-Total-Count', 'ETag']
     }));
     app.use(cookieParser());
-    app.use(json());
+    app.use(json({ type: ['application/json', 'application/merge-patch+json'] }));
     app.use(urlencoded({ extended: true }));
 
     // Metrics endpoint
     setupMetrics(app);
     // Auth routes (register, login, refresh, logout)
     app.use('/api/auth', authRouter);
+    // Digest settings (authenticated per route) and the login-free unsubscribe link
+    app.use('/api/digest', digestRouter);
+    // Calendar clients cannot send a Bearer token, so the .ics feed authenticates by its URL token
+    app.use('/api/calendar', calendarRouter);
     // Swagger docs
     setupSwagger(app);
 
-    // Protected API routes
-    app.use('/api', authenticate, todosRouter);
+    // Protected API routes; authenticated once here rather than again at every router a request falls through
+    app.use('/api', authenticate);
+    // Before todosRouter so /todos/export is not taken for a todo ID
+    app.use('/api', importExportRouter);
+    app.use('/api', todosRouter);
+    app.use('/api', tagsRouter);
+    app.use('/api', projectsRouter);
+    app.use('/api', checklistRouter);
+    app.use('/api', webhooksRouter);
+    app.use('/api', accessTokensRouter);
 
     // Global error handler
     app.use(errorHandler);
 
+    // Background jobs
+    startTrashPurgeJob();
+    startReminderJob();
+    startDigestJob();
+    startWebhookJob();
+
     const port = process.env.PORT || 3000;
     app.listen(port, () => console.log(`Server listening on port ${port}`));
   } catch (err) {
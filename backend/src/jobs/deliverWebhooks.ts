@@ -0,0 +1,189 @@
+import { randomUUID } from 'crypto';
+import { LessThan, Not } from 'typeorm';
+import { AppDataSource } from '../config/db';
+import logger from '../config/logger';
+import { Webhook, WebhookEvent } from '../entities/Webhook.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../entities/WebhookDelivery.entity';
+import { signWebhookPayload } from '../utils/webhooks';
+
+const WEBHOOK_INTERVAL_MS = 10 * 1000; // every 10 seconds
+const BATCH_SIZE = 50;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Attempts before a delivery is given up on; retries wait 30s, 1m, 2m, 4m, 8m
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 30 * 1000;
+// How long an attempt holds its claim, so a delivery cut off by a crash is retried after this
+const LEASE_MS = 60 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+const DELIVERY_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+const deliveryRepo = () => AppDataSource.getRepository(WebhookDelivery);
+
+function newDelivery(webhookId: string, event: string, data: unknown): WebhookDelivery {
+  const id = randomUUID();
+  const now = new Date();
+  return deliveryRepo().create({
+    id,
+    webhookId,
+    event,
+    payload: JSON.stringify({ id, event, createdAt: now, data }),
+    nextAttemptAt: now,
+  });
+}
+
+/**
+ * Records a delivery for each of the user's active webhooks subscribed to `event`
+ * and wakes the sender. Errors are logged rather than thrown, so a webhook problem
+ * never fails the request that triggered the event.
+ */
+export async function queueWebhookEvent(userId: string, event: WebhookEvent, data: unknown): Promise<void> {
+  try {
+    const webhooks = await AppDataSource.getRepository(Webhook).find({ where: { userId, isActive: true } });
+    const subscribed = webhooks.filter(webhook => webhook.events.includes(event));
+    if (subscribed.length === 0) return;
+    await deliveryRepo().save(subscribed.map(webhook => newDelivery(webhook.id, event, data)));
+    deliverWebhooksSoon();
+  } catch (err) {
+    logger.error('Webhook event could not be queued', { userId, event, error: (err as Error).message });
+  }
+}
+
+// Queue a "ping" delivery for a webhook, whether or not it is active
+export async function queueTestDelivery(webhook: Webhook): Promise<WebhookDelivery> {
+  const delivery = await deliveryRepo().save(
+    newDelivery(webhook.id, 'ping', { webhookId: webhook.id, message: 'This is a test event' }),
+  );
+  deliverWebhooksSoon();
+  return delivery;
+}
+
+// The start of a response body for the delivery log; the rest is never downloaded
+async function readBodyStart(response: Response): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let body = '';
+  try {
+    while (body.length < MAX_RESPONSE_BODY_LENGTH) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      body += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    await reader.cancel();
+  }
+  return body.slice(0, MAX_RESPONSE_BODY_LENGTH);
+}
+
+async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDeliveryStatus> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(delivery.webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TodoApp-Webhooks/1.0',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signWebhookPayload(delivery.webhook.secret, timestamp, delivery.payload)}`,
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = await readBodyStart(response);
+  } catch (err) {
+    error = (err as Error).message.slice(0, 500);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const status = succeeded
+    ? WebhookDeliveryStatus.SUCCEEDED
+    : attempts >= MAX_ATTEMPTS ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING;
+  await deliveryRepo().update(delivery.id, {
+    attempts,
+    status,
+    responseStatus,
+    responseBody,
+    error,
+    durationMs: Date.now() - started,
+    deliveredAt: succeeded ? new Date() : null,
+    nextAttemptAt: status === WebhookDeliveryStatus.PENDING ? new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)) : null,
+  });
+  return status;
+}
+
+/**
+ * Sends every pending delivery whose attempt is due. Each one is claimed first by
+ * pushing `nextAttemptAt` ahead by a lease, so two instances never send the same
+ * attempt; non-2xx responses and network errors are retried with exponential
+ * backoff until MAX_ATTEMPTS.
+ */
+export async function deliverDueWebhooks(): Promise<number> {
+  const repo = deliveryRepo();
+  const now = new Date();
+  const due = await repo
+    .createQueryBuilder('delivery')
+    .innerJoinAndSelect('delivery.webhook', 'webhook')
+    .where('delivery.status = :pending', { pending: WebhookDeliveryStatus.PENDING })
+    .andWhere('delivery.nextAttemptAt <= :now', { now })
+    .orderBy('delivery.nextAttemptAt', 'ASC')
+    .take(BATCH_SIZE)
+    .getMany();
+
+  let delivered = 0;
+  for (const delivery of due) {
+    const claim = await repo
+      .createQueryBuilder()
+      .update()
+      .set({ nextAttemptAt: new Date(Date.now() + LEASE_MS) })
+      .where('id = :id', { id: delivery.id })
+      .andWhere('status = :pending', { pending: WebhookDeliveryStatus.PENDING })
+      .andWhere('nextAttemptAt <= :now', { now })
+      .execute();
+    if (claim.affected !== 1) continue;
+    const status = await attemptDelivery(delivery);
+    if (status === WebhookDeliveryStatus.SUCCEEDED) delivered += 1;
+    else logger.warn('Webhook delivery attempt failed', { deliveryId: delivery.id, webhookId: delivery.webhookId, attempt: delivery.attempts + 1, status });
+  }
+  if (delivered > 0) logger.info('Webhooks delivered', { delivered });
+  return delivered;
+}
+
+// Drop finished deliveries from the log once they are older than the retention period, at most hourly
+let lastPurgeAt = 0;
+async function purgeOldDeliveries(): Promise<void> {
+  if (Date.now() - lastPurgeAt < PURGE_INTERVAL_MS) return;
+  lastPurgeAt = Date.now();
+  const cutoff = new Date(Date.now() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  await deliveryRepo().delete({ status: Not(WebhookDeliveryStatus.PENDING), createdAt: LessThan(cutoff) });
+}
+
+// Skip a tick while the previous batch is still sending
+let running = false;
+function run() {
+  if (running) return;
+  running = true;
+  deliverDueWebhooks()
+    .then(purgeOldDeliveries)
+    .catch(err => logger.error('Webhook job failed', { error: err.message }))
+    .finally(() => { running = false; });
+}
+
+// Send newly queued deliveries now rather than on the next tick
+function deliverWebhooksSoon() {
+  setImmediate(run);
+}
+
+export function startWebhookJob() {
+  run();
+  return setInterval(run, WEBHOOK_INTERVAL_MS);
+}
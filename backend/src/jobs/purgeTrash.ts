@@ -0,0 +1,26 @@
+import { AppDataSource } from '../config/db';
+import env from '../config/env';
+import logger from '../config/logger';
+import { Todo } from '../entities/Todo.entity';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+// Hard-delete todos that have been in the trash longer than the retention period
+export async function purgeTrash(): Promise<number> {
+  const cutoff = new Date(Date.now() - env.trashRetentionDays * 24 * 60 * 60 * 1000);
+  const result = await AppDataSource.getRepository(Todo)
+    .createQueryBuilder()
+    .delete()
+    .where('deletedAt IS NOT NULL')
+    .andWhere('deletedAt < :cutoff', { cutoff })
+    .execute();
+  const purged = result.affected ?? 0;
+  if (purged > 0) logger.info('Trash purged', { purged, retentionDays: env.trashRetentionDays });
+  return purged;
+}
+
+export function startTrashPurgeJob() {
+  const run = () => purgeTrash().catch(err => logger.error('Trash purge failed', { error: err.message }));
+  run();
+  return setInterval(run, PURGE_INTERVAL_MS);
+}
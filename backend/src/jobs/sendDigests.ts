@@ -0,0 +1,165 @@
+import { AppDataSource } from '../config/db';
+import env from '../config/env';
+import logger from '../config/logger';
+import transporter from '../config/mailer';
+import { Todo } from '../entities/Todo.entity';
+import { User } from '../entities/User.entity';
+import { zonedDayStart, zonedParts } from '../utils/timezone';
+import { generateToken } from '../utils/tokens';
+
+const DIGEST_INTERVAL_MS = 5 * 60 * 1000; // every five minutes
+// Longest list a digest section shows
+const SECTION_LIMIT = 50;
+const MONDAY = 1;
+
+type DigestKind = 'daily' | 'weekly';
+
+interface DigestSection {
+  title: string;
+  todos: Todo[];
+}
+
+/**
+ * Gathers what a digest reports for `user` as of their local `today`: open todos due
+ * today (or over the next seven days for the weekly digest), open todos already
+ * overdue, and todos completed yesterday (or over the past seven days).
+ */
+async function buildDigest(user: User, kind: DigestKind, today: string): Promise<DigestSection[]> {
+  const days = kind === 'daily' ? 1 : 7;
+  const dayStart = zonedDayStart(today, user.timezone);
+  const horizon = zonedDayStart(today, user.timezone, days);
+  const since = zonedDayStart(today, user.timezone, -days);
+  const query = () =>
+    AppDataSource.getRepository(Todo)
+      .createQueryBuilder('todo')
+      .where('todo.userId = :userId', { userId: user.id })
+      .take(SECTION_LIMIT);
+
+  const [due, overdue, completed] = await Promise.all([
+    query()
+      .andWhere('todo.isDone = false')
+      .andWhere('todo.dateTime >= :dayStart AND todo.dateTime < :horizon', { dayStart, horizon })
+      .orderBy('todo.dateTime', 'ASC')
+      .getMany(),
+    query()
+      .andWhere('todo.isDone = false')
+      .andWhere('todo.dateTime < :dayStart', { dayStart })
+      .orderBy('todo.dateTime', 'ASC')
+      .getMany(),
+    query()
+      .andWhere('todo.isDone = true')
+      .andWhere('todo.completedAt >= :since AND todo.completedAt < :dayStart', { since, dayStart })
+      .orderBy('todo.completedAt', 'ASC')
+      .getMany(),
+  ]);
+  return [
+    { title: kind === 'daily' ? 'Due today' : 'Due this week', todos: due },
+    { title: 'Overdue', todos: overdue },
+    { title: kind === 'daily' ? 'Completed yesterday' : 'Completed last week', todos: completed },
+  ];
+}
+
+function renderDigest(user: User, kind: DigestKind, sections: DigestSection[]) {
+  const formatDue = (date: Date) =>
+    date.toLocaleString('en-US', { timeZone: user.timezone, weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  const unsubscribeUrl = `${env.FRONTEND_URL}/unsubscribe?token=${user.digestToken}`;
+  const filled = sections.filter(section => section.todos.length > 0);
+
+  const text = [
+    ...filled.map(({ title, todos }) => `${title} (${todos.length})\n${todos.map(todo => `- ${todo.name} (${formatDue(todo.dateTime)})`).join('\n')}`),
+    `Open your tasks: ${env.FRONTEND_URL}`,
+    `Unsubscribe: ${unsubscribeUrl}`,
+  ].join('\n\n');
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">Your ${kind} digest</h2>
+      ${filled
+        .map(
+          ({ title, todos }) => `
+        <h3 style="color: #333; margin-bottom: 4px;">${title} (${todos.length})</h3>
+        <ul style="padding-left: 20px; color: #555;">
+          ${todos.map(todo => `<li>${todo.name} <span style="color: #888;">${formatDue(todo.dateTime)}</span></li>`).join('')}
+        </ul>`,
+        )
+        .join('')}
+      <p><a href="${env.FRONTEND_URL}">Open your tasks</a></p>
+      <p style="color: #888; font-size: 12px;">You get this email because digests are turned on in your profile. <a href="${unsubscribeUrl}">Unsubscribe</a></p>
+    </div>
+  `;
+  return { text, html, unsubscribeUrl };
+}
+
+/**
+ * Records today's digest as sent, returning false when it already was. Stamping before
+ * sending means a restart or a second instance can never email the same digest twice.
+ */
+async function claimDigest(user: User, kind: DigestKind, today: string): Promise<boolean> {
+  const column = kind === 'daily' ? 'lastDailyDigestOn' : 'lastWeeklyDigestOn';
+  const result = await AppDataSource.getRepository(User)
+    .createQueryBuilder()
+    .update()
+    .set({ [column]: today })
+    .where('id = :id', { id: user.id })
+    .andWhere(`(${column} IS NULL OR ${column} <> :today)`, { today })
+    .execute();
+  return result.affected === 1;
+}
+
+async function sendDigest(user: User, kind: DigestKind, today: string): Promise<boolean> {
+  if (!(await claimDigest(user, kind, today))) return false;
+  const sections = await buildDigest(user, kind, today);
+  // Nothing to report is not worth an email
+  if (sections.every(section => section.todos.length === 0)) return false;
+  const { text, html, unsubscribeUrl } = renderDigest(user, kind, sections);
+  await transporter.sendMail({
+    from: env.MAIL_FROM,
+    to: user.email,
+    subject: kind === 'daily' ? 'Your tasks for today - TodoApp' : 'Your week ahead - TodoApp',
+    text,
+    html,
+    headers: { 'List-Unsubscribe': `<${unsubscribeUrl}>` },
+  });
+  return true;
+}
+
+// Sends every daily and weekly digest whose local send hour has been reached today
+export async function sendDueDigests(): Promise<number> {
+  const users = await AppDataSource.getRepository(User).find({ where: [{ dailyDigest: true }, { weeklyDigest: true }] });
+  const now = new Date();
+  let sent = 0;
+  for (const user of users) {
+    const { date: today, hour, weekday } = zonedParts(now, user.timezone);
+    if (hour < user.digestHour) continue;
+    if (!user.digestToken) {
+      user.digestToken = generateToken();
+      await AppDataSource.getRepository(User).update(user.id, { digestToken: user.digestToken });
+    }
+    const kinds: DigestKind[] = [];
+    if (user.dailyDigest && user.lastDailyDigestOn !== today) kinds.push('daily');
+    if (user.weeklyDigest && weekday === MONDAY && user.lastWeeklyDigestOn !== today) kinds.push('weekly');
+    for (const kind of kinds) {
+      try {
+        if (await sendDigest(user, kind, today)) sent += 1;
+      } catch (err) {
+        logger.error('Digest email failed', { userId: user.id, kind, error: (err as Error).message });
+      }
+    }
+  }
+  if (sent > 0) logger.info('Digests sent', { sent });
+  return sent;
+}
+
+export function startDigestJob() {
+  // Skip a tick while the previous run is still sending
+  let running = false;
+  const run = () => {
+    if (running) return;
+    running = true;
+    sendDueDigests()
+      .catch(err => logger.error('Digest job failed', { error: err.message }))
+      .finally(() => { running = false; });
+  };
+  run();
+  return setInterval(run, DIGEST_INTERVAL_MS);
+}
@@ -0,0 +1,92 @@
+import { AppDataSource } from '../config/db';
+import env from '../config/env';
+import logger from '../config/logger';
+import transporter from '../config/mailer';
+import { Reminder } from '../entities/Reminder.entity';
+
+const REMINDER_INTERVAL_MS = 60 * 1000; // every minute
+const BATCH_SIZE = 100;
+
+// "15 minutes", "1 hour", "2 days"
+function formatOffset(minutes: number): string {
+  const units: [string, number][] = [['week', 7 * 24 * 60], ['day', 24 * 60], ['hour', 60], ['minute', 1]];
+  const [unit, size] = units.find(([, size]) => minutes >= size && minutes % size === 0) ?? ['minute', 1];
+  const count = minutes / size;
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+async function sendReminder(reminder: Reminder): Promise<void> {
+  const { todo } = reminder;
+  const when = reminder.offsetMinutes === 0 ? 'now' : `in ${formatOffset(reminder.offsetMinutes)}`;
+  await transporter.sendMail({
+    from: env.MAIL_FROM,
+    to: todo.user.email,
+    subject: `Reminder: ${todo.name} is due ${when}`,
+    text: `"${todo.name}" is due ${todo.dateTime.toUTCString()}.\n\n${todo.shortDescription}\n\nOpen your tasks: ${env.FRONTEND_URL}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">${todo.name}</h2>
+        <p>This task is due <strong>${todo.dateTime.toUTCString()}</strong>.</p>
+        <p style="color: #555;">${todo.shortDescription}</p>
+        <p><a href="${env.FRONTEND_URL}">Open your tasks</a></p>
+      </div>
+    `,
+  });
+}
+
+/**
+ * Emails every reminder whose time has come for a todo that is still open and not
+ * yet due. Each reminder is claimed by stamping `sentAt` before the email goes out,
+ * so a restart or a second instance can never send it twice; a failed send is
+ * logged rather than retried.
+ */
+export async function sendDueReminders(): Promise<number> {
+  const repo = AppDataSource.getRepository(Reminder);
+  const now = new Date();
+  const due = await repo
+    .createQueryBuilder('reminder')
+    .innerJoinAndSelect('reminder.todo', 'todo')
+    .innerJoinAndSelect('todo.user', 'user')
+    .where('reminder.sentAt IS NULL')
+    .andWhere('reminder.remindAt <= :now', { now })
+    .andWhere('todo.isDone = false')
+    .andWhere('todo.deletedAt IS NULL')
+    .andWhere('todo.dateTime > :now', { now })
+    .orderBy('reminder.remindAt', 'ASC')
+    .take(BATCH_SIZE)
+    .getMany();
+
+  let sent = 0;
+  for (const reminder of due) {
+    const claim = await repo
+      .createQueryBuilder()
+      .update()
+      .set({ sentAt: now })
+      .where('id = :id', { id: reminder.id })
+      .andWhere('sentAt IS NULL')
+      .execute();
+    if (claim.affected !== 1) continue;
+    try {
+      await sendReminder(reminder);
+      sent += 1;
+    } catch (err) {
+      logger.error('Reminder email failed', { reminderId: reminder.id, todoId: reminder.todoId, error: (err as Error).message });
+    }
+  }
+  if (sent > 0) logger.info('Reminders sent', { sent });
+  return sent;
+}
+
+export function startReminderJob() {
+  // Skip a tick while the previous batch is still sending
+  let running = false;
+  const run = () => {
+    if (running) return;
+    running = true;
+    sendDueReminders()
+      .catch(err => logger.error('Reminder job failed', { error: err.message }))
+      .finally(() => { running = false; });
+  };
+  run();
+  return setInterval(run, REMINDER_INTERVAL_MS);
+}
@@ -3,16 +3,67 @@ import jwt from 'jsonwebtoken';
 import env from '../config/env';
 import { AppDataSource } from '../config/db';
 import { User } from '../entities/User.entity';
+import { PersonalAccessToken, type AccessTokenScope } from '../entities/PersonalAccessToken.entity';
+import { ACCESS_TOKEN_PREFIX, hashToken } from '../utils/tokens';
+import logger from '../config/logger';
 import type { RequestHandler } from 'express';
 
 declare global {
   namespace Express {
     interface Request {
       user?: User;
+      // Set when the request authenticated with a personal access token rather than a login JWT
+      accessToken?: PersonalAccessToken;
     }
   }
 }
 
+// How stale lastUsedAt may get before a request refreshes it, so busy scripts do not write on every call
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Scope a personal access token needs for this request, or null when tokens may not call it at all
+function requiredScope(req: Request): AccessTokenScope | null {
+  const path = `${req.baseUrl}${req.path}`;
+  if (path !== '/api/todos' && !path.startsWith('/api/todos/')) return null;
+  return req.method === 'GET' || req.method === 'HEAD' ? 'todos:read' : 'todos:write';
+}
+
+/**
+ * Authenticates a personal access token. Tokens only reach the /api/todos
+ * endpoints (checklists, import and export included), and only with the scope
+ * the method needs: `todos:read` for GET, `todos:write` for everything else.
+ */
+async function authenticateAccessToken(req: Request, res: Response, next: NextFunction, token: string): Promise<void> {
+  const tokenRepo = AppDataSource.getRepository(PersonalAccessToken);
+  const accessToken = await tokenRepo.findOne({ where: { tokenHash: hashToken(token) }, relations: { user: true } });
+  if (!accessToken || (accessToken.expiresAt && accessToken.expiresAt <= new Date())) {
+    console.log('❌ Unknown or expired personal access token');
+    res.status(401).json({ error: 'Invalid token' });
+    return;
+  }
+  const scope = requiredScope(req);
+  if (!scope) {
+    res.status(403).json({ error: 'Personal access tokens can only be used with /api/todos endpoints' });
+    return;
+  }
+  if (!accessToken.scopes.includes(scope)) {
+    res.status(403).json({ error: `This token is missing the ${scope} scope` });
+    return;
+  }
+
+  const now = new Date();
+  if (!accessToken.lastUsedAt || now.getTime() - accessToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    accessToken.lastUsedAt = now;
+    tokenRepo
+      .update(accessToken.id, { lastUsedAt: now })
+      .catch(err => logger.error('Failed to record token use', { tokenId: accessToken.id, error: err.message }));
+  }
+  console.log('✅ User authenticated with personal access token:', accessToken.user.email);
+  req.user = accessToken.user;
+  req.accessToken = accessToken;
+  next();
+}
+
 export const authenticate: RequestHandler = async (req, res, next) => {
   try {
     console.log('🔐 Authentication middleware triggered');
@@ -28,6 +79,11 @@ export const authenticate: RequestHandler = async (req, res, next) => {
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
     console.log('🔍 Token extracted from header, length:', token.length);
     
+    if (token.startsWith(ACCESS_TOKEN_PREFIX)) {
+      await authenticateAccessToken(req, res, next, token);
+      return;
+    }
+    
     const payload = jwt.verify(token, env.jwtSecret) as { sub: string };
     console.log('✅ Token verified for user ID:', payload.sub);
     
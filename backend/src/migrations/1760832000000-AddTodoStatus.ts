@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Adds `todo.status` and fills it in from `isDone`, so completed todos start
+ * out `done` and the rest `todo`. Migrations run before schema synchronization,
+ * which would otherwise add the column with every row defaulting to `todo`.
+ */
+export class AddTodoStatus1760832000000 implements MigrationInterface {
+  name = 'AddTodoStatus1760832000000';
+
+  async up(queryRunner: QueryRunner): Promise<void> {
+    // A new database gets the column from synchronization, with nothing to backfill
+    if (!(await queryRunner.hasTable('todo')) || (await queryRunner.hasColumn('todo', 'status'))) return;
+    await queryRunner.query(
+      "ALTER TABLE `todo` ADD `status` enum ('backlog', 'todo', 'in_progress', 'blocked', 'done') NOT NULL DEFAULT 'todo'",
+    );
+    await queryRunner.query("UPDATE `todo` SET `status` = 'done' WHERE `isDone` = 1");
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE `todo` DROP COLUMN `status`');
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { rankBetween } from '../utils/rank';
+
+/**
+ * Adds `todo.position` for manual ordering and ranks each user's existing
+ * todos by due date, so the manual order starts out like the default one.
+ */
+export class AddTodoPosition1760918400000 implements MigrationInterface {
+  name = 'AddTodoPosition1760918400000';
+
+  async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('todo')) || (await queryRunner.hasColumn('todo', 'position'))) return;
+    await queryRunner.query('ALTER TABLE `todo` ADD `position` varchar(255) CHARACTER SET ascii COLLATE ascii_bin NOT NULL');
+    const rows: { id: string; userId: string }[] = await queryRunner.query(
+      'SELECT `id`, `userId` FROM `todo` ORDER BY `userId`, `dateTime`, `id`',
+    );
+    let userId: string | null = null;
+    let position: string | null = null;
+    for (const row of rows) {
+      if (row.userId !== userId) {
+        userId = row.userId;
+        position = null;
+      }
+      position = rankBetween(position, null);
+      await queryRunner.query('UPDATE `todo` SET `position` = ? WHERE `id` = ?', [position, row.id]);
+    }
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE `todo` DROP COLUMN `position`');
+  }
+}
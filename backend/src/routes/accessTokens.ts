@@ -0,0 +1,239 @@
+import { Router, Request, Response, NextFunction, type RequestHandler } from 'express';
+import { isUUID, ArrayNotEmpty, ArrayUnique, IsArray, IsDateString, IsIn, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import sanitizeHtml from 'sanitize-html';
+import { AppDataSource } from '../config/db';
+import logger from '../config/logger';
+import { User } from '../entities/User.entity';
+import { ACCESS_TOKEN_SCOPES, PersonalAccessToken, type AccessTokenScope } from '../entities/PersonalAccessToken.entity';
+import { generateAccessToken, hashToken } from '../utils/tokens';
+import { formatValidationErrors } from '../utils/validation';
+
+const router = Router();
+const tokenRepo = AppDataSource.getRepository(PersonalAccessToken);
+
+const MAX_TOKENS_PER_USER = 20;
+// Characters of the token kept in `prefix`: "tdp_" plus the first 8 random ones
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// DTO for creating a personal access token
+class CreateAccessTokenDTO {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name!: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(ACCESS_TOKEN_SCOPES, { each: true })
+  scopes!: AccessTokenScope[];
+
+  // Omit for a token that never expires
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+/**
+ * @swagger
+ * /api/tokens:
+ *   get:
+ *     summary: List personal access tokens
+ *     description: |
+ *       Retrieves the user's personal access tokens, newest first. The tokens themselves are never returned again after creation; `prefix` identifies them.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header. Personal access tokens cannot manage tokens.
+ *     tags: [Access Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tokens retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PersonalAccessToken'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.get('/tokens', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user as User;
+    const tokens = await tokenRepo.find({ where: { userId: user.id }, order: { createdAt: 'DESC' } });
+    res.json(tokens);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/tokens:
+ *   post:
+ *     summary: Create a personal access token
+ *     description: |
+ *       Creates a named token for scripts and command-line tools. Send it as `Authorization: Bearer tdp_...` to the `/api/todos` endpoints; other endpoints reject it.
+ *       
+ *       **Scopes:**
+ *       - `todos:read` - `GET` requests
+ *       - `todos:write` - everything else (create, update, delete, import)
+ *       
+ *       The `token` is only included in this response; only its hash is stored. At most 20 tokens per user.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Access Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: "Nightly backup script"
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [todos:read, todos:write]
+ *                 example: ["todos:read"]
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Omit for a token that never expires
+ *                 example: "2025-01-15T00:00:00Z"
+ *     responses:
+ *       201:
+ *         description: Token created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/PersonalAccessToken'
+ *                 - type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                       description: The token itself, shown only this once
+ *                       example: "tdp_3f9a1c0e5b7d4a2f8c6e1b9d0a3f5c7e2b4d6f8a0c1e3b5d7f9a2c4e6b8d0f1a3c"
+ *       400:
+ *         description: Validation error, expiry in the past or token limit reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.post('/tokens', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const dto = plainToInstance(CreateAccessTokenDTO, req.body);
+    const errors = await validate(dto);
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt <= new Date()) return res.status(400).json({ error: 'expiresAt must be in the future' });
+    const user = req.user as User;
+    const count = await tokenRepo.countBy({ userId: user.id });
+    if (count >= MAX_TOKENS_PER_USER) {
+      return res.status(400).json({ error: `You can have at most ${MAX_TOKENS_PER_USER} access tokens` });
+    }
+
+    const token = generateAccessToken();
+    const accessToken = tokenRepo.create({
+      name: sanitizeHtml(dto.name.trim()),
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: ACCESS_TOKEN_SCOPES.filter(scope => dto.scopes.includes(scope)),
+      expiresAt,
+      lastUsedAt: null,
+      userId: user.id,
+    });
+    await tokenRepo.save(accessToken);
+    logger.info('Personal access token created', { tokenId: accessToken.id, scopes: accessToken.scopes, performedBy: user.id });
+    const { tokenHash: _tokenHash, ...visible } = accessToken;
+    res.status(201).json({ ...visible, token });
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/tokens/{id}:
+ *   delete:
+ *     summary: Revoke a personal access token
+ *     description: |
+ *       Deletes the token; requests made with it are rejected from now on.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Access Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Token revoked
+ *       400:
+ *         description: Invalid ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid ID"
+ *       404:
+ *         description: Token not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Token not found"
+ */
+router.delete('/tokens/:id', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    const result = await tokenRepo.delete({ id, userId: user.id });
+    if (!result.affected) return res.status(404).json({ error: 'Token not found' });
+    logger.info('Personal access token revoked', { tokenId: id, performedBy: user.id });
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+export default router;
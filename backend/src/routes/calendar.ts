@@ -0,0 +1,223 @@
+import { Router, Request, Response, NextFunction, type RequestHandler } from 'express';
+import { AppDataSource } from '../config/db';
+import logger from '../config/logger';
+import { Todo } from '../entities/Todo.entity';
+import { User } from '../entities/User.entity';
+import { authenticate } from '../middleware/auth';
+import { renderCalendar, type CalendarComponent } from '../utils/ical';
+import { generateToken } from '../utils/tokens';
+
+const router = Router();
+const userRepo = AppDataSource.getRepository(User);
+
+// Most recent todos a feed carries; calendar clients poll it, so it stays bounded
+const MAX_FEED_TODOS = 1000;
+const FEED_TYPES: Record<string, CalendarComponent> = { event: 'VEVENT', todo: 'VTODO' };
+
+// Absolute feed URL for a token, based on the host the request came in on
+const feedUrl = (req: Request, token: string) => `${req.protocol}://${req.get('host')}${req.baseUrl}/${token}.ics`;
+
+const feedInfo = (req: Request, token?: string | null) => ({ token: token ?? null, url: token ? feedUrl(req, token) : null });
+
+/**
+ * @swagger
+ * /api/calendar/feed:
+ *   get:
+ *     summary: Get the calendar feed URL
+ *     description: |
+ *       Returns the user's secret iCalendar feed URL, or nulls when no feed has been created yet.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Feed details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CalendarFeed'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.get('/feed', authenticate, (req: Request, res: Response) => {
+  res.json(feedInfo(req, (req.user as User).calendarToken));
+});
+
+/**
+ * @swagger
+ * /api/calendar/feed:
+ *   post:
+ *     summary: Create or regenerate the calendar feed URL
+ *     description: |
+ *       Issues a new secret token for the user's iCalendar feed. Any previous feed URL stops working immediately, so use this if the URL has leaked.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: New feed URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CalendarFeed'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.post('/feed', authenticate, (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user as User;
+    const token = generateToken();
+    await userRepo.update(user.id, { calendarToken: token });
+    logger.info('Calendar feed token issued', { userId: user.id, regenerated: Boolean(user.calendarToken) });
+    res.status(201).json(feedInfo(req, token));
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/calendar/feed:
+ *   delete:
+ *     summary: Turn off the calendar feed
+ *     description: |
+ *       Revokes the feed token so the feed URL stops working.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Feed turned off
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.delete('/feed', authenticate, (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user as User;
+    await userRepo.update(user.id, { calendarToken: null });
+    logger.info('Calendar feed turned off', { userId: user.id });
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/calendar/{token}.ics:
+ *   get:
+ *     summary: iCalendar feed of a user's todos
+ *     description: |
+ *       Renders the user's todos as an iCalendar (RFC 5545) document that calendar apps can subscribe to. The secret token in the URL identifies the user, so no Authorization header is needed.
+ *       
+ *       - `type=event` (default) emits a 30-minute VEVENT at each todo's `dateTime`; `type=todo` emits VTODO entries with a due date and completion status
+ *       - `status` narrows the feed the same way as `GET /api/todos`
+ *       - Open recurring todos carry their RRULE so upcoming occurrences show up too
+ *       - Trashed todos are left out
+ *     tags: [Calendar]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Feed token from `POST /api/calendar/feed`
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ALL, COMPLETED, UPCOMING]
+ *           default: ALL
+ *         description: Only completed or only open todos
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [event, todo]
+ *           default: event
+ *         description: Calendar component each todo is rendered as
+ *     responses:
+ *       200:
+ *         description: iCalendar document
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *             example: "BEGIN:VCALENDAR\r\nVERSION:2.0\r\n...\r\nEND:VCALENDAR\r\n"
+ *       400:
+ *         description: Unknown feed type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid feed type"
+ *       404:
+ *         description: No feed with this token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Calendar feed not found"
+ */
+router.get('/:token.ics', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token } = req.params;
+    const component = FEED_TYPES[String(req.query.type ?? 'event')];
+    if (!component) return res.status(400).json({ error: 'Invalid feed type' });
+    const user = await userRepo.findOneBy({ calendarToken: token });
+    if (!user) return res.status(404).json({ error: 'Calendar feed not found' });
+
+    const qb = AppDataSource.getRepository(Todo)
+      .createQueryBuilder('todo')
+      .where('todo.userId = :userId', { userId: user.id })
+      .orderBy('todo.dateTime', 'DESC')
+      .take(MAX_FEED_TODOS);
+    if (req.query.status === 'COMPLETED') {
+      qb.andWhere('todo.isDone = :done', { done: true });
+    } else if (req.query.status === 'UPCOMING') {
+      qb.andWhere('todo.isDone = :done', { done: false });
+    }
+    const todos = await qb.getMany();
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="todos.ics"',
+      'Cache-Control': 'private, max-age=300',
+    });
+    res.send(renderCalendar(todos, component, 'TodoApp'));
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+export default router;
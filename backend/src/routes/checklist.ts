@@ -0,0 +1,529 @@
+import { Router, Request, Response, NextFunction, type RequestHandler } from 'express';
+import { isUUID, ArrayMaxSize, IsArray, IsBoolean, IsNotEmpty, IsString, IsUUID, MaxLength, ValidateIf } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import sanitizeHtml from 'sanitize-html';
+import { ChecklistItem } from '../entities/ChecklistItem.entity';
+import { Todo } from '../entities/Todo.entity';
+import { AppDataSource } from '../config/db';
+import { User } from '../entities/User.entity';
+import { formatValidationErrors, isJsonObject } from '../utils/validation';
+import { announceUpdatedTodo } from './todos';
+
+const router = Router();
+const itemRepo = AppDataSource.getRepository(ChecklistItem);
+const todoRepo = AppDataSource.getRepository(Todo);
+
+const MAX_CHECKLIST_ITEMS = 100;
+
+// DTO for adding a checklist item
+class CreateChecklistItemDTO {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(200)
+  text!: string;
+}
+
+// DTO for partially updating a checklist item
+class UpdateChecklistItemDTO {
+  @ValidateIf((_, value) => value !== undefined)
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(200)
+  text?: string;
+
+  @ValidateIf((_, value) => value !== undefined)
+  @IsBoolean()
+  isDone?: boolean;
+}
+
+// DTO for reordering a checklist: every item ID, in the new order
+class ReorderChecklistDTO {
+  @IsArray()
+  @ArrayMaxSize(MAX_CHECKLIST_ITEMS)
+  @IsUUID('all', { each: true })
+  itemIds!: string[];
+}
+
+// Checklists belong to live todos only; trashed todos are read-only until restored
+function ownsTodo(todoId: string, userId: string): Promise<boolean> {
+  return todoRepo.existsBy({ id: todoId, userId });
+}
+
+// A checklist edit changes its todo too, so bump the todo's version (and updatedAt) for ETags to notice
+async function touchTodo(todoId: string, manager = AppDataSource.manager): Promise<void> {
+  await manager.increment(Todo, { id: todoId }, 'version', 1);
+}
+
+/**
+ * @swagger
+ * /api/todos/{id}/checklist:
+ *   get:
+ *     summary: List a todo's checklist items
+ *     description: |
+ *       Retrieves the checklist of one of the authenticated user's todos, in checklist order.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Checklist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the todo
+ *     responses:
+ *       200:
+ *         description: Checklist retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ChecklistItem'
+ *             example:
+ *               - id: "0d3b7a52-1c8e-4f6a-9b2d-5e4f3a2b1c0d"
+ *                 text: "Gather usage examples"
+ *                 isDone: true
+ *                 position: 0
+ *                 todoId: "123e4567-e89b-12d3-a456-426614174001"
+ *                 createdAt: "2024-01-15T10:30:00Z"
+ *                 updatedAt: "2024-01-15T11:00:00Z"
+ *       400:
+ *         description: Invalid todo ID format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid ID"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Todo not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Todo not found"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to retrieve checklist"
+ */
+router.get('/todos/:id/checklist', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    if (!(await ownsTodo(id, user.id))) return res.status(404).json({ error: 'Todo not found' });
+    const items = await itemRepo.find({ where: { todoId: id }, order: { position: 'ASC', createdAt: 'ASC' } });
+    res.json(items);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/{id}/checklist:
+ *   post:
+ *     summary: Add a checklist item
+ *     description: |
+ *       Appends an item to the end of a todo's checklist. A checklist holds at most 100 items.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Checklist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the todo
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateChecklistItemRequest'
+ *           example:
+ *             text: "Draft the introduction"
+ *     responses:
+ *       201:
+ *         description: Checklist item created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChecklistItem'
+ *       400:
+ *         description: Invalid todo ID, validation error or full checklist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/ValidationError'
+ *                 - $ref: '#/components/schemas/Error'
+ *             examples:
+ *               checklist_full:
+ *                 summary: Checklist already has 100 items
+ *                 value:
+ *                   error: "Checklist is full"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Todo not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Todo not found"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to create checklist item"
+ */
+router.post('/todos/:id/checklist', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    const dto = plainToInstance(CreateChecklistItemDTO, req.body);
+    const errors = await validate(dto);
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    if (!(await ownsTodo(id, user.id))) return res.status(404).json({ error: 'Todo not found' });
+    const { count, last } = await itemRepo
+      .createQueryBuilder('item')
+      .select('COUNT(*)', 'count')
+      .addSelect('MAX(item.position)', 'last')
+      .where('item.todoId = :todoId', { todoId: id })
+      .getRawOne();
+    if (Number(count) >= MAX_CHECKLIST_ITEMS) return res.status(400).json({ error: 'Checklist is full' });
+    const item = itemRepo.create({
+      text: sanitizeHtml(dto.text.trim()),
+      position: last === null ? 0 : Number(last) + 1,
+      todoId: id,
+    });
+    await itemRepo.save(item);
+    await touchTodo(id);
+    await announceUpdatedTodo(id);
+    res.status(201).json(item);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/{id}/checklist/order:
+ *   put:
+ *     summary: Reorder a todo's checklist
+ *     description: |
+ *       Sets the checklist order. `itemIds` must list every item of the checklist exactly once, in the new order.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Checklist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the todo
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReorderChecklistRequest'
+ *           example:
+ *             itemIds: ["5a7c2e1f-8b3d-4f6a-9c0e-1d2b3a4c5e6f", "0d3b7a52-1c8e-4f6a-9b2d-5e4f3a2b1c0d"]
+ *     responses:
+ *       200:
+ *         description: Checklist reordered; returns the items in their new order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ChecklistItem'
+ *       400:
+ *         description: Invalid todo ID, validation error, or `itemIds` does not match the checklist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/ValidationError'
+ *                 - $ref: '#/components/schemas/Error'
+ *             examples:
+ *               mismatch:
+ *                 summary: Missing, unknown or repeated item IDs
+ *                 value:
+ *                   error: "itemIds must list every checklist item exactly once"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Todo not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Todo not found"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to reorder checklist"
+ */
+router.put('/todos/:id/checklist/order', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    const dto = plainToInstance(ReorderChecklistDTO, req.body);
+    const errors = await validate(dto);
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    if (!(await ownsTodo(id, user.id))) return res.status(404).json({ error: 'Todo not found' });
+    const items = await AppDataSource.transaction(async manager => {
+      const current = await manager.find(ChecklistItem, { where: { todoId: id }, lock: { mode: 'pessimistic_write' } });
+      const byId = new Map(current.map(item => [item.id, item]));
+      const complete = dto.itemIds.length === current.length && new Set(dto.itemIds).size === current.length;
+      if (!complete || !dto.itemIds.every(itemId => byId.has(itemId))) return null;
+      const ordered = dto.itemIds.map((itemId, position) => Object.assign(byId.get(itemId)!, { position }));
+      await manager.save(ordered);
+      await touchTodo(id, manager);
+      return ordered;
+    });
+    if (!items) return res.status(400).json({ error: 'itemIds must list every checklist item exactly once' });
+    await announceUpdatedTodo(id);
+    res.json(items);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/{id}/checklist/{itemId}:
+ *   patch:
+ *     summary: Update a checklist item
+ *     description: |
+ *       Edits the text of a checklist item and/or ticks it off. Omitted fields are left unchanged.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Checklist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the todo
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the checklist item
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateChecklistItemRequest'
+ *           example:
+ *             isDone: true
+ *     responses:
+ *       200:
+ *         description: Checklist item updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChecklistItem'
+ *       400:
+ *         description: Invalid ID format or validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/ValidationError'
+ *                 - $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Todo or checklist item not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Checklist item not found"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to update checklist item"
+ */
+router.patch('/todos/:id/checklist/:itemId', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, itemId } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id) || !isUUID(itemId)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    if (!isJsonObject(req.body)) return res.status(400).json({ error: 'Request body must be a JSON object' });
+    const dto = plainToInstance(UpdateChecklistItemDTO, req.body);
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    if (!(await ownsTodo(id, user.id))) return res.status(404).json({ error: 'Todo not found' });
+    const item = await itemRepo.findOneBy({ id: itemId, todoId: id });
+    if (!item) return res.status(404).json({ error: 'Checklist item not found' });
+    if (dto.text !== undefined) item.text = sanitizeHtml(dto.text.trim());
+    if (dto.isDone !== undefined) item.isDone = dto.isDone;
+    await itemRepo.save(item);
+    await touchTodo(id);
+    await announceUpdatedTodo(id);
+    res.json(item);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/{id}/checklist/{itemId}:
+ *   delete:
+ *     summary: Delete a checklist item
+ *     description: |
+ *       Permanently removes an item from a todo's checklist.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Checklist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the todo
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the checklist item
+ *     responses:
+ *       204:
+ *         description: Checklist item deleted successfully (no content returned)
+ *       400:
+ *         description: Invalid ID format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid ID"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Todo or checklist item not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Checklist item not found"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to delete checklist item"
+ */
+router.delete('/todos/:id/checklist/:itemId', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, itemId } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id) || !isUUID(itemId)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    if (!(await ownsTodo(id, user.id))) return res.status(404).json({ error: 'Todo not found' });
+    const item = await itemRepo.findOneBy({ id: itemId, todoId: id });
+    if (!item) return res.status(404).json({ error: 'Checklist item not found' });
+    await itemRepo.remove(item);
+    await touchTodo(id);
+    await announceUpdatedTodo(id);
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+export default router;
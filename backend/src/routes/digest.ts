@@ -0,0 +1,211 @@
+import { Router, Request, Response, NextFunction, type RequestHandler } from 'express';
+import { IsBoolean, IsInt, IsNotEmpty, IsString, Max, Min, ValidateIf } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { AppDataSource } from '../config/db';
+import logger from '../config/logger';
+import { User } from '../entities/User.entity';
+import { authenticate } from '../middleware/auth';
+import { formatValidationErrors, isJsonObject } from '../utils/validation';
+import { IsTimeZone } from '../utils/timezone';
+import { generateToken } from '../utils/tokens';
+
+const router = Router();
+const userRepo = AppDataSource.getRepository(User);
+
+const IsPresent = () => ValidateIf((_, value) => value !== undefined);
+
+// DTO for partially updating digest settings
+class UpdateDigestSettingsDTO {
+  @IsPresent()
+  @IsBoolean()
+  dailyDigest?: boolean;
+
+  @IsPresent()
+  @IsBoolean()
+  weeklyDigest?: boolean;
+
+  @IsPresent()
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  digestHour?: number;
+
+  @IsPresent()
+  @IsTimeZone()
+  timezone?: string;
+}
+
+class UnsubscribeDTO {
+  @IsNotEmpty()
+  @IsString()
+  token!: string;
+}
+
+const digestSettings = ({ dailyDigest, weeklyDigest, digestHour, timezone }: User) => ({ dailyDigest, weeklyDigest, digestHour, timezone });
+
+/**
+ * @swagger
+ * /api/digest/settings:
+ *   get:
+ *     summary: Get email digest settings
+ *     description: |
+ *       Returns whether the daily and weekly digest emails are enabled and the local hour and time zone they are sent at.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Digest]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current digest settings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DigestSettings'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.get('/settings', authenticate, (req: Request, res: Response) => {
+  res.json(digestSettings(req.user as User));
+});
+
+/**
+ * @swagger
+ * /api/digest/settings:
+ *   patch:
+ *     summary: Update email digest settings
+ *     description: |
+ *       Turns the daily and weekly digests on or off and sets when they are sent. Only the fields present in the body are changed.
+ *       
+ *       - The daily digest lists todos due today, overdue todos and todos completed yesterday
+ *       - The weekly digest goes out on Mondays and covers the coming week and the one just finished
+ *       - `digestHour` is the local hour (0-23) in `timezone` (an IANA name such as `Europe/Berlin`)
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Digest]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateDigestSettingsRequest'
+ *           example:
+ *             dailyDigest: true
+ *             digestHour: 7
+ *             timezone: "Asia/Kathmandu"
+ *     responses:
+ *       200:
+ *         description: Settings updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DigestSettings'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/ValidationError'
+ *                 - $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.patch('/settings', authenticate, (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!isJsonObject(req.body)) return res.status(400).json({ error: 'Request body must be a JSON object' });
+    const dto = plainToInstance(UpdateDigestSettingsDTO, req.body);
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    const user = req.user as User;
+    if (dto.dailyDigest !== undefined) user.dailyDigest = dto.dailyDigest;
+    if (dto.weeklyDigest !== undefined) user.weeklyDigest = dto.weeklyDigest;
+    if (dto.digestHour !== undefined) user.digestHour = dto.digestHour;
+    if (dto.timezone !== undefined) user.timezone = dto.timezone;
+    // The unsubscribe link's token is created the first time a digest is switched on
+    if ((user.dailyDigest || user.weeklyDigest) && !user.digestToken) user.digestToken = generateToken();
+    await userRepo.save(user);
+    logger.info('Digest settings updated', { userId: user.id, ...digestSettings(user) });
+    res.json(digestSettings(user));
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/digest/unsubscribe:
+ *   post:
+ *     summary: Unsubscribe from digest emails
+ *     description: |
+ *       Turns off both the daily and weekly digest for the account the token belongs to. The token comes from the unsubscribe link in every digest email, so no login is needed.
+ *     tags: [Digest]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the unsubscribe link
+ *     responses:
+ *       200:
+ *         description: Unsubscribed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MessageResponse'
+ *             example:
+ *               message: "You have been unsubscribed from digest emails"
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The link is invalid
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid unsubscribe link"
+ */
+router.post('/unsubscribe', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const dto = plainToInstance(UnsubscribeDTO, req.body ?? {});
+    const errors = await validate(dto);
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    const user = await userRepo.findOneBy({ digestToken: dto.token });
+    if (!user) return res.status(404).json({ error: 'Invalid unsubscribe link' });
+    await userRepo.update(user.id, { dailyDigest: false, weeklyDigest: false });
+    logger.info('Unsubscribed from digests', { userId: user.id });
+    res.json({ message: 'You have been unsubscribed from digest emails' });
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+export default router;
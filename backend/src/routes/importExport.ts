@@ -0,0 +1,618 @@
+import { Router, Request, Response, NextFunction, text, type RequestHandler } from 'express';
+import { isUUID, IsBoolean, IsOptional, IsString, MaxLength, validate } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import sanitizeHtml from 'sanitize-html';
+import { In } from 'typeorm';
+import { AppDataSource } from '../config/db';
+import logger from '../config/logger';
+import { Todo, TodoStatus } from '../entities/Todo.entity';
+import { User } from '../entities/User.entity';
+import { announceCreatedTodo, attachReminderOffsets, attachTags, createTodo, CreateTodoDTO } from './todos';
+import { csvRow, InvalidCsvError, parseCsv } from '../utils/csv';
+import { InvalidCalendarError, parseCalendar, parseCalendarDate, unescapeText, type ParsedComponent } from '../utils/ical';
+import { normalizeRecurrence } from '../utils/recurrence';
+import { formatValidationErrors, isJsonObject } from '../utils/validation';
+
+const router = Router();
+
+const MAX_IMPORT_ROWS = 500;
+const MAX_IMPORT_BYTES = '2mb';
+const MAX_DATA_IMPORT_ROWS = 5000;
+const MAX_DATA_IMPORT_BYTES = '5mb';
+const EXPORT_BATCH_SIZE = 500;
+// Length of the Todo.importUid column
+const MAX_UID_LENGTH = 255;
+// UIDs our own feed gives todos (see utils/ical.ts), so re-importing an exported feed is recognised
+const OWN_UID = /^([0-9a-f-]{36})@todoapp$/i;
+
+type ImportRowStatus = 'created' | 'would_create' | 'duplicate' | 'error';
+
+interface ImportRow {
+  // 0-based position of the entry in the file
+  index: number;
+  // Line a CSV row starts on
+  line?: number;
+  // iCalendar UID, for .ics imports
+  uid?: string | null;
+  status: ImportRowStatus;
+  name?: string;
+  dateTime?: Date;
+  isDone?: boolean;
+  todoId?: string;
+  errors?: string[];
+}
+
+function sendImportReport(res: Response, dryRun: boolean, rows: ImportRow[]) {
+  const count = (status: ImportRowStatus) => rows.filter(row => row.status === status).length;
+  res.status(dryRun ? 200 : 201).json({
+    dryRun,
+    total: rows.length,
+    created: dryRun ? 0 : count('created'),
+    wouldCreate: count('would_create'),
+    duplicates: count('duplicate'),
+    failed: count('error'),
+    rows,
+  });
+}
+
+/**
+ * Maps one VEVENT/VTODO onto the fields POST /api/todos takes, collecting every
+ * problem instead of stopping at the first. Text is held to the same limits once
+ * sanitized, as createTodo will store it.
+ */
+function componentToTodo(component: ParsedComponent, user: User): { todo?: CreateTodoDTO; errors: string[] } {
+  const { properties } = component;
+  const errors: string[] = [];
+  const name = unescapeText(properties.SUMMARY?.value ?? '').trim();
+  const sanitizedName = sanitizeHtml(name);
+  if (!sanitizedName) errors.push('SUMMARY is required');
+  else if (sanitizedName.length > 100) errors.push('SUMMARY must be 100 characters or fewer');
+  const shortDescription = unescapeText(properties.DESCRIPTION?.value ?? '').trim();
+  if (sanitizeHtml(shortDescription).length > 500) errors.push('DESCRIPTION must be 500 characters or fewer');
+
+  const dateProperty = component.type === 'VTODO' ? properties.DUE ?? properties.DTSTART : properties.DTSTART;
+  const dateTime = dateProperty ? parseCalendarDate(dateProperty, user.timezone) : null;
+  if (!dateProperty) errors.push(component.type === 'VTODO' ? 'DUE or DTSTART is required' : 'DTSTART is required');
+  else if (!dateTime) errors.push(`Unreadable date: ${dateProperty.value}`);
+
+  const icalStatus = properties.STATUS?.value.trim().toUpperCase();
+  const isDone = icalStatus === 'COMPLETED' || Boolean(properties.COMPLETED);
+  const status = isDone ? TodoStatus.DONE : icalStatus === 'IN-PROCESS' ? TodoStatus.IN_PROGRESS : TodoStatus.TODO;
+  let recurrence: string | undefined;
+  if (properties.RRULE && !isDone) {
+    try {
+      recurrence = normalizeRecurrence(properties.RRULE.value);
+    } catch {
+      errors.push('RRULE is not a supported recurrence rule');
+    }
+  }
+  if (errors.length > 0 || !dateTime) return { errors };
+  return { todo: { name, shortDescription, dateTime, status, recurrence }, errors };
+}
+
+// UIDs from `uids` the user already has a todo for, trashed todos included
+async function findImportedUids(userId: string, uids: string[]): Promise<Set<string>> {
+  if (uids.length === 0) return new Set();
+  const todoRepo = AppDataSource.getRepository(Todo);
+  const imported = await todoRepo
+    .createQueryBuilder('todo')
+    .withDeleted()
+    .select('todo.importUid', 'importUid')
+    .where('todo.userId = :userId', { userId })
+    .andWhere('todo.importUid IN (:...uids)', { uids })
+    .getRawMany<{ importUid: string }>();
+  const found = new Set(imported.map(row => row.importUid));
+  const ownIds = uids.map(uid => OWN_UID.exec(uid)?.[1]).filter((id): id is string => Boolean(id && isUUID(id)));
+  if (ownIds.length > 0) {
+    const own = await todoRepo.find({ select: { id: true }, where: { id: In(ownIds), userId }, withDeleted: true });
+    for (const { id } of own) found.add(`${id}@todoapp`);
+  }
+  return new Set(uids.filter(uid => found.has(uid) || found.has(uid.toLowerCase())));
+}
+
+/**
+ * @swagger
+ * /api/todos/import/ics:
+ *   post:
+ *     summary: Import todos from an iCalendar file
+ *     description: |
+ *       Creates a todo for every VEVENT and VTODO in an uploaded .ics file. Send the file as the raw request body with `Content-Type: text/calendar`.
+ *       
+ *       **Mapping:**
+ *       - `SUMMARY` → `name`, `DESCRIPTION` → `shortDescription` (both sanitized and length-checked like `POST /api/todos`)
+ *       - `DTSTART` (VEVENT) or `DUE`, falling back to `DTSTART` (VTODO) → `dateTime`; floating times and all-day dates use the user's digest time zone
+ *       - `STATUS:COMPLETED` → `status: done`, `STATUS:IN-PROCESS` → `status: in_progress`
+ *       - `RRULE` on an open entry → `recurrence`
+ *       
+ *       **Behaviour:**
+ *       - `dryRun=true` reports what would happen without creating anything
+ *       - Entries whose `UID` was imported before (or that came from this app's own calendar feed) are reported as `duplicate` and skipped
+ *       - Invalid entries are reported with their errors; the valid ones are still imported
+ *       - At most 500 entries per file
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Preview the import without creating todos
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/calendar:
+ *           schema:
+ *             type: string
+ *           example: "BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nUID:42@example.com\r\nSUMMARY:File taxes\r\nDUE:20240415T170000Z\r\nEND:VTODO\r\nEND:VCALENDAR\r\n"
+ *     responses:
+ *       200:
+ *         description: Dry-run preview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportReport'
+ *       201:
+ *         description: Import finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportReport'
+ *       400:
+ *         description: Missing, unreadable or oversized calendar
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid iCalendar file"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.post(
+  '/todos/import/ics',
+  text({ type: ['text/calendar', 'text/plain', 'application/octet-stream'], limit: MAX_IMPORT_BYTES }),
+  (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user as User;
+      const dryRun = req.query.dryRun === 'true';
+      if (typeof req.body !== 'string' || !req.body.trim()) {
+        return res.status(400).json({ error: 'Send the .ics file as the request body with Content-Type text/calendar' });
+      }
+      const components = parseCalendar(req.body);
+      if (components.length > MAX_IMPORT_ROWS) throw new InvalidCalendarError(`A calendar can import at most ${MAX_IMPORT_ROWS} entries`);
+
+      const uids = components.map(component => component.properties.UID?.value.trim() || null);
+      const imported = await findImportedUids(user.id, uids.filter((uid): uid is string => Boolean(uid)));
+      const seen = new Set<string>();
+      const rows: ImportRow[] = [];
+      const pending: { row: ImportRow; todo: CreateTodoDTO }[] = [];
+      components.forEach((component, index) => {
+        const uid = uids[index];
+        if (uid && (imported.has(uid) || seen.has(uid))) {
+          rows.push({ index, uid, status: 'duplicate' });
+          return;
+        }
+        if (uid && uid.length > MAX_UID_LENGTH) {
+          rows.push({ index, uid, status: 'error', errors: [`UID must be ${MAX_UID_LENGTH} characters or fewer`] });
+          return;
+        }
+        if (uid) seen.add(uid);
+        const { todo, errors } = componentToTodo(component, user);
+        if (!todo) {
+          rows.push({ index, uid, status: 'error', errors });
+          return;
+        }
+        const row: ImportRow = { index, uid, status: dryRun ? 'would_create' : 'created', name: sanitizeHtml(todo.name), dateTime: todo.dateTime, isDone: todo.status === TodoStatus.DONE };
+        rows.push(row);
+        pending.push({ row, todo });
+      });
+
+      if (!dryRun && pending.length > 0) {
+        const created = await AppDataSource.transaction(async manager => {
+          const todos: Todo[] = [];
+          for (const { row, todo } of pending) {
+            const saved = await createTodo(manager, user, todo, todo.status, row.uid);
+            row.todoId = saved.id;
+            todos.push(saved);
+          }
+          return todos;
+        });
+        logger.info('Todos imported from iCalendar', { userId: user.id, created: pending.length });
+        for (const todo of created) await announceCreatedTodo(todo);
+      }
+
+      sendImportReport(res, dryRun, rows);
+    } catch (err) {
+      next(err);
+    }
+  }) as RequestHandler,
+);
+
+type DataFormat = 'csv' | 'json';
+
+// Columns of a CSV export, in order; JSON exports use the same keys
+const EXPORT_COLUMNS = [
+  'id',
+  'name',
+  'shortDescription',
+  'dateTime',
+  'status',
+  'isDone',
+  'completedAt',
+  'priority',
+  'recurrence',
+  'reminderOffsets',
+  'projectId',
+  'tagIds',
+  'tags',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+] as const;
+
+type ExportedTodo = Record<(typeof EXPORT_COLUMNS)[number], unknown>;
+
+class InvalidImportError extends Error {
+  status = 400;
+}
+
+// DTO for one row of POST /todos/import: a new todo that may arrive already completed
+class ImportTodoDTO extends CreateTodoDTO {
+  // A todo whose description was cleared exports it blank, which a CSV file leaves out altogether
+  @IsString()
+  @MaxLength(500)
+  shortDescription = '';
+
+  // Files from before statuses only say whether a todo is done; `status` wins when both are given
+  @IsOptional()
+  @IsBoolean()
+  isDone?: boolean;
+}
+
+function parseDataFormat(raw: unknown, fallback: DataFormat): DataFormat | null {
+  if (raw === undefined) return fallback;
+  return raw === 'csv' || raw === 'json' ? raw : null;
+}
+
+function toExportedTodo(todo: Todo): ExportedTodo {
+  return {
+    id: todo.id,
+    name: todo.name,
+    shortDescription: todo.shortDescription,
+    dateTime: todo.dateTime,
+    status: todo.status,
+    isDone: todo.isDone,
+    completedAt: todo.completedAt,
+    priority: todo.priority,
+    recurrence: todo.recurrence,
+    reminderOffsets: todo.reminderOffsets ?? [],
+    projectId: todo.projectId,
+    tagIds: todo.tags.map(tag => tag.id),
+    tags: todo.tags.map(tag => tag.name),
+    createdAt: todo.createdAt,
+    updatedAt: todo.updatedAt,
+    deletedAt: todo.deletedAt ?? null,
+  };
+}
+
+// Yields the user's todos in id order, a batch at a time, so an export never holds every todo in memory
+async function* exportBatches(userId: string, includeDeleted: boolean): AsyncGenerator<ExportedTodo[]> {
+  const todoRepo = AppDataSource.getRepository(Todo);
+  let lastId: string | null = null;
+  for (;;) {
+    const qb = todoRepo
+      .createQueryBuilder('todo')
+      .where('todo.userId = :userId', { userId })
+      .orderBy('todo.id', 'ASC')
+      .take(EXPORT_BATCH_SIZE);
+    if (includeDeleted) qb.withDeleted();
+    if (lastId) qb.andWhere('todo.id > :lastId', { lastId });
+    const todos = await qb.getMany();
+    if (todos.length === 0) return;
+    await Promise.all([attachTags(todos), attachReminderOffsets(todos)]);
+    yield todos.map(toExportedTodo);
+    if (todos.length < EXPORT_BATCH_SIZE) return;
+    lastId = todos[todos.length - 1].id;
+  }
+}
+
+// Write a chunk, waiting for the socket to drain when it is full. Resolves false once the client has gone.
+function writeChunk(res: Response, chunk: string): Promise<boolean> {
+  if (res.write(chunk)) return Promise.resolve(true);
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve(!res.destroyed);
+    };
+    res.once('drain', done);
+    res.once('close', done);
+  });
+}
+
+// Lists are joined with ";" so they fit in one cell
+const csvValue = (value: unknown) => (Array.isArray(value) ? value.join(';') : value);
+
+// Turns a CSV record's strings into the types ImportTodoDTO expects; blank cells count as absent
+function csvRecordToPlain(values: Record<string, string>): Record<string, unknown> {
+  const plain: Record<string, unknown> = {};
+  for (const [column, raw] of Object.entries(values)) {
+    const value = raw.trim();
+    if (!value) continue;
+    if (column === 'isDone') plain.isDone = value.toLowerCase() === 'true' ? true : value.toLowerCase() === 'false' ? false : value;
+    else if (column === 'tagIds') plain.tagIds = value.split(';').map(id => id.trim()).filter(Boolean);
+    else if (column === 'reminderOffsets') plain.reminderOffsets = value.split(';').map(offset => Number(offset.trim()));
+    else plain[column] = raw;
+  }
+  return plain;
+}
+
+// The rows of an uploaded file, each with the CSV line it starts on
+function readImportRows(body: unknown, format: DataFormat): { line?: number; plain: unknown }[] {
+  if (format === 'csv') {
+    if (typeof body !== 'string' || !body.trim()) throw new InvalidCsvError('Send the CSV file as the request body with Content-Type text/csv');
+    return parseCsv(body).map(({ line, values }) => ({ line, plain: csvRecordToPlain(values) }));
+  }
+  let data = body;
+  if (typeof body === 'string') {
+    try {
+      data = JSON.parse(body);
+    } catch {
+      throw new InvalidImportError('Invalid JSON file');
+    }
+  }
+  if (!Array.isArray(data)) throw new InvalidImportError('A JSON import must be an array of todos');
+  return data.map(plain => ({ plain }));
+}
+
+/**
+ * @swagger
+ * /api/todos/export:
+ *   get:
+ *     summary: Export all todos
+ *     description: |
+ *       Downloads every todo the user owns, completed ones included, as a CSV or JSON file. The file is streamed, so large accounts export without timing out.
+ *       
+ *       **Columns:** `id`, `name`, `shortDescription`, `dateTime`, `status`, `isDone`, `completedAt`, `priority`, `recurrence`, `reminderOffsets`, `projectId`, `tagIds`, `tags`, `createdAt`, `updatedAt`, `deletedAt`. In CSV, lists are joined with `;` and cells starting with `=`, `+`, `-` or `@` are prefixed with `'` so spreadsheets do not run them as formulas.
+ *       
+ *       The file can be imported again with `POST /api/todos/import`.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, json]
+ *           default: csv
+ *       - in: query
+ *         name: includeDeleted
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Also export todos in the trash
+ *     responses:
+ *       200:
+ *         description: Export file, sent as an attachment
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *             example: "id,name,shortDescription,dateTime,status,isDone,completedAt,priority,recurrence,reminderOffsets,projectId,tagIds,tags,createdAt,updatedAt,deletedAt\r\n"
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TodoExport'
+ *       400:
+ *         description: Unknown format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "format must be csv or json"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.get('/todos/export', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user as User;
+    const format = parseDataFormat(req.query.format, 'csv');
+    if (!format) {
+      return res.status(400).json({ error: 'format must be csv or json' });
+    }
+    const includeDeleted = req.query.includeDeleted === 'true';
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="todos-${new Date().toISOString().slice(0, 10)}.${format}"`);
+    let exported = 0;
+    if (!(await writeChunk(res, format === 'csv' ? csvRow([...EXPORT_COLUMNS]) : '['))) return;
+    for await (const batch of exportBatches(user.id, includeDeleted)) {
+      const chunk = format === 'csv'
+        ? batch.map(todo => csvRow(EXPORT_COLUMNS.map(column => csvValue(todo[column])))).join('')
+        : batch.map((todo, i) => `${exported + i === 0 ? '' : ','}\n${JSON.stringify(todo)}`).join('');
+      exported += batch.length;
+      if (!(await writeChunk(res, chunk))) return;
+    }
+    res.end(format === 'csv' ? '' : '\n]\n');
+    logger.info('Todos exported', { userId: user.id, format, exported });
+  } catch (err) {
+    // Once the file has started there is no way to send an error response, so cut the download short
+    if (!res.headersSent) return next(err);
+    logger.error('Todo export failed', { error: err instanceof Error ? err.message : err });
+    res.destroy(err as Error);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/import:
+ *   post:
+ *     summary: Import todos from a CSV or JSON file
+ *     description: |
+ *       Creates a todo for every row of a file in the format `GET /api/todos/export` produces. Send the file as the raw request body: `text/csv` for CSV, or `application/octet-stream` with `format=json` for JSON (small JSON arrays may also be sent as `application/json`).
+ *       
+ *       **Rows:**
+ *       - Each row is validated like `POST /api/todos`, including `status`, except that `shortDescription` may be empty or left out; files from before statuses may send `isDone` instead
+ *       - `id`, timestamps, `tags` and other unknown columns are ignored; `tagIds` and `projectId` must belong to the user
+ *       - In CSV, blank cells are treated as absent and `tagIds` / `reminderOffsets` are `;`-separated
+ *       
+ *       **Behaviour:**
+ *       - `dryRun=true` reports what would happen without creating anything
+ *       - Invalid rows are reported with their line number and errors; the valid ones are still imported
+ *       - At most 5000 rows per file
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, json]
+ *         description: File format; defaults to csv for `text/csv` bodies and json otherwise
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Preview the import without creating todos
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *           example: "name,shortDescription,dateTime,priority,isDone\r\nFile taxes,Before the deadline,2024-04-15T17:00:00.000Z,high,false\r\n"
+ *         application/json:
+ *           schema:
+ *             type: array
+ *             items:
+ *               $ref: '#/components/schemas/TodoExport'
+ *     responses:
+ *       200:
+ *         description: Dry-run preview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportReport'
+ *       201:
+ *         description: Import finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportReport'
+ *       400:
+ *         description: Missing, unreadable or oversized file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "A JSON import must be an array of todos"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.post(
+  '/todos/import',
+  text({ type: ['text/csv', 'text/plain', 'application/octet-stream'], limit: MAX_DATA_IMPORT_BYTES }),
+  (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = req.user as User;
+      const dryRun = req.query.dryRun === 'true';
+      const format = parseDataFormat(req.query.format, req.is('text/csv') ? 'csv' : 'json');
+      if (!format) {
+        return res.status(400).json({ error: 'format must be csv or json' });
+      }
+      const records = readImportRows(req.body, format);
+      if (records.length > MAX_DATA_IMPORT_ROWS) throw new InvalidImportError(`A file can import at most ${MAX_DATA_IMPORT_ROWS} todos`);
+
+      // A dry run creates the todos too, so unknown tags and projects are caught, then rolls them back
+      const rows: ImportRow[] = [];
+      const created: Todo[] = [];
+      const runner = AppDataSource.createQueryRunner();
+      await runner.connect();
+      await runner.startTransaction();
+      try {
+        for (const [index, { line, plain }] of records.entries()) {
+          if (!isJsonObject(plain)) {
+            rows.push({ index, line, status: 'error', errors: ['Row must be a JSON object'] });
+            continue;
+          }
+          const dto = plainToInstance(ImportTodoDTO, plain);
+          const errors = await validate(dto, { whitelist: true });
+          if (errors.length > 0) {
+            const messages = formatValidationErrors(errors).flatMap(error => Object.values(error.constraints));
+            rows.push({ index, line, status: 'error', name: typeof dto.name === 'string' ? dto.name : undefined, errors: messages });
+            continue;
+          }
+          try {
+            const todo = await createTodo(runner.manager, user, dto, dto.status ?? (dto.isDone ? TodoStatus.DONE : TodoStatus.TODO));
+            created.push(todo);
+            rows.push({
+              index,
+              line,
+              status: dryRun ? 'would_create' : 'created',
+              name: todo.name,
+              dateTime: todo.dateTime,
+              isDone: todo.isDone,
+              todoId: dryRun ? undefined : todo.id,
+            });
+          } catch (err) {
+            // Unknown tags or projects fail just this row; anything else aborts the import
+            if ((err as { status?: number }).status !== 400) throw err;
+            rows.push({ index, line, status: 'error', name: dto.name, errors: [(err as Error).message] });
+          }
+        }
+        if (dryRun) await runner.rollbackTransaction();
+        else await runner.commitTransaction();
+      } catch (err) {
+        if (runner.isTransactionActive) await runner.rollbackTransaction();
+        throw err;
+      } finally {
+        await runner.release();
+      }
+      if (!dryRun) {
+        logger.info('Todos imported', { userId: user.id, format, created: created.length });
+        // Only once committed, so streams and webhooks never hear of todos a failed import rolled back
+        for (const todo of created) await announceCreatedTodo(todo);
+      }
+      sendImportReport(res, dryRun, rows);
+    } catch (err) {
+      next(err);
+    }
+  }) as RequestHandler,
+);
+
+export default router;
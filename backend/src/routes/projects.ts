@@ -0,0 +1,381 @@
+import { Router, Request, Response, NextFunction, type RequestHandler } from 'express';
+import { isUUID, IsBoolean, IsInt, IsNotEmpty, IsOptional, IsString, Matches, MaxLength, Min, ValidateIf } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { Project } from '../entities/Project.entity';
+import { AppDataSource } from '../config/db';
+import logger from '../config/logger';
+import { User } from '../entities/User.entity';
+import { formatValidationErrors, isJsonObject, SanitizedText } from '../utils/validation';
+
+const router = Router();
+const projectRepo = AppDataSource.getRepository(Project);
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const ICON_NAME = /^[a-z0-9-]{1,32}$/;
+
+// DTO for creating a project
+class CreateProjectDTO {
+  @SanitizedText()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name!: string;
+
+  @IsOptional()
+  @Matches(HEX_COLOR, { message: 'color must be a hex color such as #3b82f6' })
+  color?: string;
+
+  @IsOptional()
+  @Matches(ICON_NAME, { message: 'icon must be a lowercase icon name such as briefcase' })
+  icon?: string;
+}
+
+// DTO for partially updating a project
+class UpdateProjectDTO {
+  @SanitizedText()
+  @ValidateIf((_, value) => value !== undefined)
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ValidateIf((_, value) => value !== undefined)
+  @Matches(HEX_COLOR, { message: 'color must be a hex color such as #3b82f6' })
+  color?: string;
+
+  @ValidateIf((_, value) => value !== undefined)
+  @Matches(ICON_NAME, { message: 'icon must be a lowercase icon name such as briefcase' })
+  icon?: string;
+
+  @ValidateIf((_, value) => value !== undefined)
+  @IsBoolean()
+  isArchived?: boolean;
+
+  @ValidateIf((_, value) => value !== undefined)
+  @IsInt()
+  @Min(0)
+  sortOrder?: number;
+}
+
+/**
+ * @swagger
+ * /api/projects:
+ *   get:
+ *     summary: List the user's projects with todo counts
+ *     description: |
+ *       Retrieves the authenticated user's projects in sidebar order (`sortOrder`, then creation time). Each project includes `todoCount` (all todos outside the trash) and `openCount` (those not yet done). Archived projects are left out unless `includeArchived=true`.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         required: false
+ *         description: Also return archived projects
+ *     responses:
+ *       200:
+ *         description: Projects retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ProjectWithCounts'
+ *             example:
+ *               - id: "5f1c2d3e-4b5a-4c6d-8e7f-9a0b1c2d3e4f"
+ *                 name: "Home renovation"
+ *                 color: "#f59e0b"
+ *                 icon: "home"
+ *                 isArchived: false
+ *                 sortOrder: 0
+ *                 todoCount: 12
+ *                 openCount: 5
+ *                 userId: "123e4567-e89b-12d3-a456-426614174000"
+ *                 createdAt: "2024-01-15T10:30:00Z"
+ *                 updatedAt: "2024-01-15T10:30:00Z"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to retrieve projects"
+ */
+router.get('/projects', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user as User;
+    const qb = projectRepo
+      .createQueryBuilder('project')
+      .where('project.userId = :userId', { userId: user.id })
+      .loadRelationCountAndMap('project.todoCount', 'project.todos', 'todo', sub => sub.andWhere('todo.deletedAt IS NULL'))
+      .loadRelationCountAndMap('project.openCount', 'project.todos', 'openTodo', sub =>
+        sub.andWhere('openTodo.deletedAt IS NULL').andWhere('openTodo.isDone = :done', { done: false }),
+      )
+      .orderBy('project.sortOrder', 'ASC')
+      .addOrderBy('project.createdAt', 'ASC');
+    if (req.query.includeArchived !== 'true') qb.andWhere('project.isArchived = :archived', { archived: false });
+    res.json(await qb.getMany());
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/projects:
+ *   post:
+ *     summary: Create a project
+ *     description: |
+ *       Creates a project for the authenticated user. New projects are placed at the end of the sidebar.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateProjectRequest'
+ *           example:
+ *             name: "Home renovation"
+ *             color: "#f59e0b"
+ *             icon: "home"
+ *     responses:
+ *       201:
+ *         description: Project created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: Validation error - missing or invalid fields
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to create project"
+ */
+router.post('/projects', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const dto = plainToInstance(CreateProjectDTO, req.body);
+    const errors = await validate(dto);
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    const user = req.user as User;
+    const { last } = await projectRepo
+      .createQueryBuilder('project')
+      .select('MAX(project.sortOrder)', 'last')
+      .where('project.userId = :userId', { userId: user.id })
+      .getRawOne();
+    const project = projectRepo.create({
+      name: dto.name,
+      color: dto.color?.toLowerCase(),
+      icon: dto.icon,
+      sortOrder: last === null ? 0 : Number(last) + 1,
+      userId: user.id,
+    });
+    await projectRepo.save(project);
+    res.status(201).json(project);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/projects/{id}:
+ *   patch:
+ *     summary: Update a project
+ *     description: |
+ *       Renames, restyles, archives or reorders a project. Omitted fields are left unchanged.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the project
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateProjectRequest'
+ *           example:
+ *             isArchived: true
+ *     responses:
+ *       200:
+ *         description: Project updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Project'
+ *       400:
+ *         description: Invalid project ID format or validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/ValidationError'
+ *                 - $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Project not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Project not found"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to update project"
+ */
+router.patch('/projects/:id', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    if (!isJsonObject(req.body)) return res.status(400).json({ error: 'Request body must be a JSON object' });
+    const dto = plainToInstance(UpdateProjectDTO, req.body);
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    const project = await projectRepo.findOneBy({ id, userId: user.id });
+    if (!project) return res.status(404).json({ error: 'Project not found' });
+    if (dto.name !== undefined) project.name = dto.name;
+    if (dto.color !== undefined) project.color = dto.color.toLowerCase();
+    if (dto.icon !== undefined) project.icon = dto.icon;
+    if (dto.isArchived !== undefined) project.isArchived = dto.isArchived;
+    if (dto.sortOrder !== undefined) project.sortOrder = dto.sortOrder;
+    await projectRepo.save(project);
+    res.json(project);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/projects/{id}:
+ *   delete:
+ *     summary: Delete a project
+ *     description: |
+ *       Permanently deletes a project. Its todos are kept and moved back to the inbox (`projectId` becomes null).
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Projects]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the project
+ *     responses:
+ *       204:
+ *         description: Project deleted successfully (no content returned)
+ *       400:
+ *         description: Invalid project ID format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid ID"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Project not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Project not found"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to delete project"
+ */
+router.delete('/projects/:id', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    const project = await projectRepo.findOneBy({ id, userId: user.id });
+    if (!project) return res.status(404).json({ error: 'Project not found' });
+    await projectRepo.remove(project);
+    logger.info('Project deleted', { projectId: id, performedBy: user.id });
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+export default router;
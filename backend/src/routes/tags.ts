@@ -0,0 +1,361 @@
+import { Router, Request, Response, NextFunction, type RequestHandler } from 'express';
+import { isUUID, IsNotEmpty, IsString, IsOptional, Matches, MaxLength, ValidateIf } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { Tag } from '../entities/Tag.entity';
+import { AppDataSource } from '../config/db';
+import logger from '../config/logger';
+import { User } from '../entities/User.entity';
+import { formatValidationErrors, isDuplicateKeyError, isJsonObject, SanitizedText } from '../utils/validation';
+
+const router = Router();
+const tagRepo = AppDataSource.getRepository(Tag);
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// DTO for creating a tag
+class CreateTagDTO {
+  @SanitizedText()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  name!: string;
+
+  @IsOptional()
+  @Matches(HEX_COLOR, { message: 'color must be a hex color such as #3b82f6' })
+  color?: string;
+}
+
+// DTO for partially updating a tag
+class UpdateTagDTO {
+  @SanitizedText()
+  @ValidateIf((_, value) => value !== undefined)
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  name?: string;
+
+  @ValidateIf((_, value) => value !== undefined)
+  @Matches(HEX_COLOR, { message: 'color must be a hex color such as #3b82f6' })
+  color?: string;
+}
+
+// Tag names are unique per user (case-insensitive under the default collation)
+async function nameTaken(userId: string, name: string, exceptId?: string): Promise<boolean> {
+  const existing = await tagRepo.findOneBy({ userId, name });
+  return Boolean(existing && existing.id !== exceptId);
+}
+
+/**
+ * @swagger
+ * /api/tags:
+ *   get:
+ *     summary: List the user's tags
+ *     description: |
+ *       Retrieves all tags owned by the authenticated user, ordered by name. Each tag includes `todoCount`, the number of (non-deleted) todos it is attached to.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tags retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TagWithCount'
+ *             example:
+ *               - id: "7c9e6679-7425-40de-944b-e07fc1f90ae7"
+ *                 name: "work"
+ *                 color: "#3b82f6"
+ *                 todoCount: 4
+ *                 userId: "123e4567-e89b-12d3-a456-426614174000"
+ *                 createdAt: "2024-01-15T10:30:00Z"
+ *                 updatedAt: "2024-01-15T10:30:00Z"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to retrieve tags"
+ */
+router.get('/tags', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user as User;
+    const tags = await tagRepo
+      .createQueryBuilder('tag')
+      .where('tag.userId = :userId', { userId: user.id })
+      .loadRelationCountAndMap('tag.todoCount', 'tag.todos', 'todo', qb => qb.andWhere('todo.deletedAt IS NULL'))
+      .orderBy('tag.name', 'ASC')
+      .getMany();
+    res.json(tags);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/tags:
+ *   post:
+ *     summary: Create a tag
+ *     description: |
+ *       Creates a tag for the authenticated user. Tag names are unique per user. When `color` is omitted a neutral slate color is used.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateTagRequest'
+ *           example:
+ *             name: "errands"
+ *             color: "#22c55e"
+ *     responses:
+ *       201:
+ *         description: Tag created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Tag'
+ *       400:
+ *         description: Validation error - missing or invalid fields
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       409:
+ *         description: A tag with this name already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Tag already exists"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to create tag"
+ */
+router.post('/tags', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const dto = plainToInstance(CreateTagDTO, req.body);
+    const errors = await validate(dto);
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    const user = req.user as User;
+    if (await nameTaken(user.id, dto.name)) return res.status(409).json({ error: 'Tag already exists' });
+    const tag = tagRepo.create({ name: dto.name, color: dto.color?.toLowerCase(), userId: user.id });
+    await tagRepo.save(tag);
+    res.status(201).json(tag);
+  } catch (err) {
+    // Lost a race with a concurrent create of the same name
+    if (isDuplicateKeyError(err)) return res.status(409).json({ error: 'Tag already exists' });
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/tags/{id}:
+ *   patch:
+ *     summary: Update a tag
+ *     description: |
+ *       Renames and/or recolors a tag. Omitted fields are left unchanged.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the tag
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateTagRequest'
+ *           example:
+ *             color: "#ef4444"
+ *     responses:
+ *       200:
+ *         description: Tag updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Tag'
+ *       400:
+ *         description: Invalid tag ID format or validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/ValidationError'
+ *                 - $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Tag not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Tag not found"
+ *       409:
+ *         description: A tag with this name already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Tag already exists"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to update tag"
+ */
+router.patch('/tags/:id', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    if (!isJsonObject(req.body)) return res.status(400).json({ error: 'Request body must be a JSON object' });
+    const dto = plainToInstance(UpdateTagDTO, req.body);
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    const tag = await tagRepo.findOneBy({ id, userId: user.id });
+    if (!tag) return res.status(404).json({ error: 'Tag not found' });
+    if (dto.name !== undefined) {
+      if (await nameTaken(user.id, dto.name, tag.id)) return res.status(409).json({ error: 'Tag already exists' });
+      tag.name = dto.name;
+    }
+    if (dto.color !== undefined) tag.color = dto.color.toLowerCase();
+    await tagRepo.save(tag);
+    res.json(tag);
+  } catch (err) {
+    if (isDuplicateKeyError(err)) return res.status(409).json({ error: 'Tag already exists' });
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/tags/{id}:
+ *   delete:
+ *     summary: Delete a tag
+ *     description: |
+ *       Permanently deletes a tag and detaches it from every todo. The todos themselves are not affected.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the tag
+ *     responses:
+ *       204:
+ *         description: Tag deleted successfully (no content returned)
+ *       400:
+ *         description: Invalid tag ID format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid ID"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Tag not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Tag not found"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to delete tag"
+ */
+router.delete('/tags/:id', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    const tag = await tagRepo.findOneBy({ id, userId: user.id });
+    if (!tag) return res.status(404).json({ error: 'Tag not found' });
+    await tagRepo.remove(tag);
+    logger.info('Tag deleted', { tagId: id, performedBy: user.id });
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+export default router;
@@ -1,18 +1,457 @@
 import { Router, Request, Response, NextFunction, type RequestHandler } from 'express';
-import { isUUID, IsNotEmpty, IsString, IsDateString, MaxLength } from 'class-validator';
+import { isUUID, ArrayMaxSize, ArrayUnique, IsArray, IsInt, IsNotEmpty, IsString, IsDateString, IsBoolean, IsEnum, IsOptional, IsUUID, Max, MaxLength, Min, ValidateIf } from 'class-validator';
 import { plainToInstance } from 'class-transformer';
 import { validate } from 'class-validator';
 import sanitizeHtml from 'sanitize-html';
-import { Todo } from '../entities/Todo.entity';
+import { EntityManager, In, IsNull, Not, SelectQueryBuilder } from 'typeorm';
+import { Todo, TodoPriority, TodoStatus, TODO_PRIORITIES, TODO_STATUSES } from '../entities/Todo.entity';
+import { Tag } from '../entities/Tag.entity';
+import { Project } from '../entities/Project.entity';
+import { ChecklistItem } from '../entities/ChecklistItem.entity';
+import { Reminder } from '../entities/Reminder.entity';
 import { AppDataSource } from '../config/db';
+import env from '../config/env';
 import logger from '../config/logger';
 import { User } from '../entities/User.entity';
+import { paginate, parseLimit, type SortKey } from '../utils/pagination';
+import { highlight, parseSearchQuery } from '../utils/search';
+import { formatValidationErrors, isJsonObject } from '../utils/validation';
+import { ifMatchSatisfied, versionETag } from '../utils/etag';
+import { IsRecurrenceRule, MAX_OCCURRENCES, nextOccurrence, normalizeRecurrence, upcomingOccurrences } from '../utils/recurrence';
+import { webhookTodo } from '../utils/webhooks';
+import { queueWebhookEvent } from '../jobs/deliverWebhooks';
+import { encodeSyncToken, parseSince } from '../utils/syncToken';
+import { latestEventId, eventsSince, publishTodoEvent, subscribeTodoEvents, type TodoEvent } from '../utils/todoEvents';
+import { rankBetween } from '../utils/rank';
 
 const router = Router();
 const todoRepo = AppDataSource.getRepository(Todo);
 
+// Sortable fields for GET /api/todos in their natural order; the id tiebreaker is added by paginate()
+const TODO_SORT_FIELDS: Record<string, SortKey> = {
+  dateTime: { column: 'todo.dateTime', key: 'dateTime', order: 'ASC', type: 'date' },
+  // `priority + 0` is the ENUM index, so this sorts (and pages) by urgency, most urgent first
+  priority: {
+    column: 'todo.priority + 0',
+    key: 'priority',
+    order: 'DESC',
+    type: 'number',
+    cursorValue: row => TODO_PRIORITIES.indexOf(row.priority) + 1,
+  },
+  // The user's manual order, as arranged with POST /api/todos/{id}/move
+  position: { column: 'todo.position', key: 'position', order: 'ASC', type: 'string' },
+};
+const DEFAULT_TODO_SORT = 'dateTime';
+
+const MAX_REMINDERS_PER_TODO = 5;
+// Reminders can go out up to four weeks ahead of the due date
+const MAX_REMINDER_OFFSET_MINUTES = 4 * 7 * 24 * 60;
+// How long EventSource clients wait before reconnecting, and how often open streams get a keep-alive comment
+const EVENT_STREAM_RETRY_MS = 5000;
+const EVENT_STREAM_HEARTBEAT_MS = 25 * 1000;
+// Rows per GET /todos/sync response; clients keep calling while `hasMore` is set
+const SYNC_PAGE_SIZE = 500;
+// How far before its token a sync looks, to catch rows whose transaction committed after the previous sync read
+const SYNC_OVERLAP_MS = 30 * 1000;
+// Length of the Todo.position column
+const MAX_POSITION_LENGTH = 255;
+
+class InvalidSortError extends Error {
+  status = 400;
+  constructor(field: string) {
+    super(`Invalid sort field: ${field}`);
+  }
+}
+
+/**
+ * Parses `sort=priority,dateTime` into sort keys. Each field sorts in its
+ * natural order (due date: earliest first, priority: most urgent first);
+ * a leading `-` reverses it.
+ */
+function parseTodoSort(raw?: string): SortKey[] {
+  const fields = (raw || DEFAULT_TODO_SORT).split(',').map(field => field.trim()).filter(Boolean);
+  const seen = new Set<string>();
+  return fields.map(field => {
+    const reverse = field.startsWith('-');
+    const name = reverse ? field.slice(1) : field;
+    const sortKey = TODO_SORT_FIELDS[name];
+    if (!sortKey || seen.has(name)) throw new InvalidSortError(field);
+    seen.add(name);
+    if (!reverse) return sortKey;
+    return { ...sortKey, order: sortKey.order === 'ASC' ? 'DESC' : 'ASC' };
+  });
+}
+// The trash lists the most recently deleted todos first
+const TRASH_SORT_KEYS: SortKey[] = [{ column: 'todo.deletedAt', key: 'deletedAt', order: 'DESC', type: 'date' }];
+
+class InvalidStatusError extends Error {
+  status = 400;
+}
+
+const isTodoStatus = (value: string): value is TodoStatus => (TODO_STATUSES as string[]).includes(value);
+
+/**
+ * Narrow a todo query to the `status` query param: comma-separated statuses
+ * (`in_progress,blocked`), or COMPLETED / UPCOMING for done / not done.
+ */
+function applyStatusFilter(qb: SelectQueryBuilder<Todo>, status?: string) {
+  if (!status || status === 'ALL') return;
+  if (status === 'COMPLETED') {
+    qb.andWhere('todo.isDone = :done', { done: true });
+  } else if (status === 'UPCOMING') {
+    qb.andWhere('todo.isDone = :done', { done: false });
+  } else {
+    const statuses = [...new Set(status.split(',').map(value => value.trim()).filter(Boolean))];
+    if (statuses.length === 0 || !statuses.every(isTodoStatus)) throw new InvalidStatusError(`Invalid status: ${status}`);
+    qb.andWhere('todo.status IN (:...statuses)', { statuses });
+  }
+}
+
+// Move a todo to `status`, keeping the derived isDone and completedAt in step
+export function setTodoStatus(todo: Todo, status: TodoStatus) {
+  const wasDone = todo.isDone;
+  todo.status = status;
+  todo.isDone = status === TodoStatus.DONE;
+  if (todo.isDone !== wasDone) todo.completedAt = todo.isDone ? new Date() : null;
+}
+
+// The status an `isDone` from an older client means: reopening a done todo puts it back to `todo`, other statuses stay
+const statusForIsDone = (current: TodoStatus, isDone: boolean) =>
+  isDone ? TodoStatus.DONE : current === TodoStatus.DONE ? TodoStatus.TODO : current;
+
+class InvalidTagError extends Error {
+  status = 400;
+}
+
+const MAX_TAGS_PER_TODO = 20;
+
+/**
+ * Narrow a todo query to the `tags` query param (comma-separated tag IDs).
+ * `tagMatch=any` (default) keeps todos with at least one of the tags, `all` only todos carrying every one.
+ */
+function applyTagFilter(qb: SelectQueryBuilder<Todo>, rawTags?: string, rawMatch?: string) {
+  if (!rawTags) return;
+  const tagIds = [...new Set(rawTags.split(',').map(id => id.trim()).filter(Boolean))];
+  if (tagIds.length === 0 || !tagIds.every(id => isUUID(id))) throw new InvalidTagError('Invalid tag ID');
+  const match = rawMatch || 'any';
+  if (match !== 'any' && match !== 'all') throw new InvalidTagError('tagMatch must be "any" or "all"');
+  const matching = 'SELECT COUNT(*) FROM todo_tags tt WHERE tt.todoId = todo.id AND tt.tagId IN (:...tagIds)';
+  qb.andWhere(`(${matching}) ${match === 'all' ? '= :tagCount' : '> 0'}`, { tagIds, tagCount: tagIds.length });
+}
+
+// Load the user's tags for `tagIds`, rejecting any ID the user does not own
+async function resolveTags(manager: EntityManager, userId: string, tagIds: string[]): Promise<Tag[]> {
+  const ids = [...new Set(tagIds)];
+  if (ids.length === 0) return [];
+  const tags = await manager.find(Tag, { where: { id: In(ids), userId }, order: { name: 'ASC' } });
+  if (tags.length !== ids.length) throw new InvalidTagError('Unknown tag');
+  return tags;
+}
+
+// Fill in `tags` on already-loaded todos with one extra query, keeping list queries free of joins
+export async function attachTags(todos: Todo[]): Promise<void> {
+  if (todos.length === 0) return;
+  const withTags = await todoRepo.find({
+    where: { id: In(todos.map(todo => todo.id)) },
+    relations: { tags: true },
+    order: { tags: { name: 'ASC' } },
+    withDeleted: true,
+  });
+  const tagsById = new Map(withTags.map(todo => [todo.id, todo.tags]));
+  for (const todo of todos) todo.tags = tagsById.get(todo.id) ?? [];
+}
+
+class InvalidProjectError extends Error {
+  status = 400;
+}
+
+// Narrow a todo query to the `projectId` query param: a project's UUID, or `none` for the inbox
+function applyProjectFilter(qb: SelectQueryBuilder<Todo>, projectId?: string) {
+  if (!projectId) return;
+  if (projectId === 'none') {
+    qb.andWhere('todo.projectId IS NULL');
+  } else if (isUUID(projectId)) {
+    qb.andWhere('todo.projectId = :projectId', { projectId });
+  } else {
+    throw new InvalidProjectError('Invalid project ID');
+  }
+}
+
+class InvalidDateRangeError extends Error {
+  status = 400;
+}
+
+// Narrow a todo query to todos due in [from, to), e.g. the weeks a calendar shows
+function applyDueRangeFilter(qb: SelectQueryBuilder<Todo>, rawFrom?: string, rawTo?: string) {
+  const parse = (raw: string | undefined, name: string) => {
+    if (!raw) return undefined;
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) throw new InvalidDateRangeError(`${name} must be an ISO 8601 date`);
+    return date;
+  };
+  const from = parse(rawFrom, 'from');
+  const to = parse(rawTo, 'to');
+  if (from && to && from >= to) throw new InvalidDateRangeError('from must be before to');
+  if (from) qb.andWhere('todo.dateTime >= :dueFrom', { dueFrom: from });
+  if (to) qb.andWhere('todo.dateTime < :dueTo', { dueTo: to });
+}
+
+class InvalidMoveError extends Error {
+  status = 400;
+}
+
+// The rank after the user's last todo; trashed todos count too, so restoring one cannot tie with a newer todo
+async function nextPosition(manager: EntityManager, userId: string): Promise<string> {
+  const row = await manager
+    .createQueryBuilder(Todo, 'todo')
+    .withDeleted()
+    .select('MAX(todo.position)', 'last')
+    .where('todo.userId = :userId', { userId })
+    .getRawOne<{ last: string | null }>();
+  return rankBetween(row?.last ?? null, null);
+}
+
+// The position of the user's todo right before or after `position`, leaving out the todo being moved
+async function adjacentPosition(manager: EntityManager, todo: Todo, position: string, side: 'before' | 'after'): Promise<string | null> {
+  const row = await manager
+    .createQueryBuilder(Todo, 'todo')
+    .withDeleted()
+    .select(side === 'before' ? 'MAX(todo.position)' : 'MIN(todo.position)', 'position')
+    .where('todo.userId = :userId AND todo.id != :id', { userId: todo.userId, id: todo.id })
+    .andWhere(side === 'before' ? 'todo.position < :position' : 'todo.position > :position', { position })
+    .getRawOne<{ position: string | null }>();
+  return row?.position ?? null;
+}
+
+async function neighbourPosition(manager: EntityManager, todo: Todo, id: string): Promise<string> {
+  if (id === todo.id) throw new InvalidMoveError('A todo cannot be moved next to itself');
+  const neighbour = await manager.findOne(Todo, { where: { id, userId: todo.userId } });
+  if (!neighbour) throw new InvalidMoveError('Unknown todo');
+  return neighbour.position;
+}
+
+/**
+ * Re-ranks all of the user's todos evenly, keeping their order. Needed once
+ * repeated moves into the same gap have grown a rank to the column length.
+ * Versions are left alone: nothing a client could conflict on has changed,
+ * and its cached copies still sort the same.
+ */
+async function rebalancePositions(manager: EntityManager, userId: string): Promise<void> {
+  const todos = await manager.find(Todo, {
+    select: { id: true },
+    where: { userId },
+    order: { position: 'ASC', id: 'ASC' },
+    withDeleted: true,
+  });
+  let position: string | null = null;
+  for (const { id } of todos) {
+    position = rankBetween(position, null);
+    await manager.query('UPDATE `todo` SET `position` = ? WHERE `id` = ?', [position, id]);
+  }
+  logger.info('Todo positions rebalanced', { userId, count: todos.length });
+}
+
+/**
+ * Works out the new position of a todo placed between `before` and `after`.
+ * With only one of them given, the other side is whatever todo currently
+ * follows (or precedes) it.
+ */
+async function movedPosition(manager: EntityManager, todo: Todo, dto: MoveTodoDTO): Promise<string> {
+  for (let rebalanced = false; ; rebalanced = true) {
+    const lower = dto.before ? await neighbourPosition(manager, todo, dto.before) : null;
+    const upper = dto.after ? await neighbourPosition(manager, todo, dto.after) : null;
+    const from = lower ?? (upper !== null ? await adjacentPosition(manager, todo, upper, 'before') : null);
+    const to = upper ?? (lower !== null ? await adjacentPosition(manager, todo, lower, 'after') : null);
+    if (from !== null && to !== null && from > to) throw new InvalidMoveError('`before` must come before `after`');
+    // Todos created at the same moment can share a rank, leaving no room between them until a rebalance
+    const position = from !== null && from === to ? null : rankBetween(from, to);
+    if (position !== null && position.length <= MAX_POSITION_LENGTH) return position;
+    if (rebalanced) throw new Error('Could not find room for the moved todo');
+    await rebalancePositions(manager, todo.userId);
+  }
+}
+
+// Make sure `projectId` (when given) names one of the user's projects
+async function resolveProjectId(manager: EntityManager, userId: string, projectId?: string | null): Promise<string | null> {
+  if (!projectId) return null;
+  const exists = await manager.existsBy(Project, { id: projectId, userId });
+  if (!exists) throw new InvalidProjectError('Unknown project');
+  return projectId;
+}
+
+// Fill in `checklistProgress` on already-loaded todos with one grouped query
+async function attachChecklistProgress(todos: Todo[]): Promise<void> {
+  if (todos.length === 0) return;
+  const rows = await AppDataSource.getRepository(ChecklistItem)
+    .createQueryBuilder('item')
+    .select('item.todoId', 'todoId')
+    .addSelect('COUNT(*)', 'total')
+    .addSelect('SUM(item.isDone)', 'done')
+    .where('item.todoId IN (:...todoIds)', { todoIds: todos.map(todo => todo.id) })
+    .groupBy('item.todoId')
+    .getRawMany<{ todoId: string; total: string; done: string | null }>();
+  const progressById = new Map(rows.map(row => [row.todoId, { done: Number(row.done ?? 0), total: Number(row.total) }]));
+  for (const todo of todos) todo.checklistProgress = progressById.get(todo.id) ?? { done: 0, total: 0 };
+}
+
+// Fill in `reminderOffsets` on already-loaded todos with one extra query
+export async function attachReminderOffsets(todos: Todo[]): Promise<void> {
+  if (todos.length === 0) return;
+  const reminders = await AppDataSource.getRepository(Reminder).find({
+    select: { todoId: true, offsetMinutes: true },
+    where: { todoId: In(todos.map(todo => todo.id)) },
+    order: { offsetMinutes: 'ASC' },
+  });
+  for (const todo of todos) {
+    todo.reminderOffsets = reminders.filter(reminder => reminder.todoId === todo.id).map(reminder => reminder.offsetMinutes);
+  }
+}
+
+// Everything a todo response carries beyond its own columns
+async function attachTodoDetails(todos: Todo[]): Promise<void> {
+  await Promise.all([attachTags(todos), attachChecklistProgress(todos), attachReminderOffsets(todos)]);
+}
+
+/**
+ * Brings a todo's reminders in line with `offsets` (its current offsets when omitted)
+ * and its dateTime. A reminder whose send time moves is re-armed so it goes out again
+ * for the new date. Returns whether the set of offsets changed.
+ */
+async function syncReminders(manager: EntityManager, todo: Todo, offsets?: number[]): Promise<boolean> {
+  const existing = await manager.find(Reminder, { where: { todoId: todo.id } });
+  const target = offsets ? [...new Set(offsets)].sort((a, b) => a - b) : existing.map(reminder => reminder.offsetMinutes).sort((a, b) => a - b);
+  const stale = existing.filter(reminder => !target.includes(reminder.offsetMinutes));
+  if (stale.length > 0) await manager.delete(Reminder, stale.map(reminder => reminder.id));
+  const changed: Reminder[] = [];
+  for (const offsetMinutes of target) {
+    const remindAt = new Date(todo.dateTime.getTime() - offsetMinutes * 60 * 1000);
+    const reminder = existing.find(r => r.offsetMinutes === offsetMinutes) ?? manager.create(Reminder, { todoId: todo.id, offsetMinutes });
+    if (reminder.remindAt?.getTime() === remindAt.getTime()) continue;
+    reminder.remindAt = remindAt;
+    reminder.sentAt = null;
+    changed.push(reminder);
+  }
+  if (changed.length > 0) await manager.save(changed);
+  todo.reminderOffsets = target;
+  return stale.length > 0 || target.length > existing.length - stale.length;
+}
+
+/**
+ * Creates the next occurrence of a recurring todo that has just been completed.
+ * The copy keeps the todo's details, tags and (unticked) checklist, and takes over
+ * the rule so completing the old todo again cannot spawn a second copy.
+ */
+async function scheduleNextOccurrence(manager: EntityManager, todo: Todo): Promise<Todo | null> {
+  if (!todo.recurrence) return null;
+  const next = nextOccurrence(todo.recurrence, todo.dateTime);
+  todo.recurrence = null;
+  if (!next) return null;
+  const occurrence = manager.create(Todo, {
+    name: todo.name,
+    shortDescription: todo.shortDescription,
+    dateTime: next.dateTime,
+    priority: todo.priority,
+    recurrence: next.recurrence,
+    projectId: todo.projectId,
+    userId: todo.userId,
+    position: await nextPosition(manager, todo.userId),
+    tags: todo.tags,
+  });
+  await manager.save(occurrence);
+  const reminders = await manager.find(Reminder, { where: { todoId: todo.id } });
+  await syncReminders(manager, occurrence, todo.reminderOffsets ?? reminders.map(reminder => reminder.offsetMinutes));
+  const checklist = await manager.find(ChecklistItem, { where: { todoId: todo.id }, order: { position: 'ASC' } });
+  if (checklist.length > 0) {
+    await manager.save(checklist.map(({ text, position }) => manager.create(ChecklistItem, { text, position, todoId: occurrence.id })));
+  }
+  occurrence.checklistProgress = { done: 0, total: checklist.length };
+  logger.info('Recurring todo rescheduled', { todoId: todo.id, nextTodoId: occurrence.id, performedBy: todo.userId });
+  return occurrence;
+}
+
+// A todo as event streams send it: the API representation, without the owner relation
+function streamTodo(todo: Todo): Omit<Todo, 'user'> {
+  const { user: _user, ...rest } = todo;
+  return rest;
+}
+
+// Let open event streams and webhooks know about a new todo
+export async function announceCreatedTodo(todo: Todo): Promise<void> {
+  publishTodoEvent(todo.userId, 'created', streamTodo(todo));
+  await queueWebhookEvent(todo.userId, 'todo.created', { todo: webhookTodo(todo) });
+}
+
+// Let open event streams know a todo changed through something other than its own routes, such as its checklist
+export async function announceUpdatedTodo(id: string): Promise<void> {
+  const todo = await todoRepo.findOneBy({ id });
+  if (!todo) return;
+  await attachTodoDetails([todo]);
+  publishTodoEvent(todo.userId, 'updated', streamTodo(todo));
+}
+
+const tagKey = (tags: Tag[]) => tags.map(tag => tag.id).sort().join(',');
+
+type TodoUpdateResult =
+  | { status: 200; todo: Todo }
+  | { status: 404 }
+  | { status: 412; todo: Todo };
+
+/**
+ * Loads the user's todo under a row lock, checks the If-Match precondition
+ * against its version and saves whatever `apply` changes, all in one transaction
+ * so two concurrent writers cannot both pass the check. Webhooks hear about the
+ * change once it has committed.
+ */
+async function updateOwnedTodo(
+  id: string,
+  userId: string,
+  ifMatch: string | undefined,
+  apply: (todo: Todo, manager: EntityManager) => void | Promise<void>,
+): Promise<TodoUpdateResult> {
+  let completed = false;
+  let occurrence: Todo | null = null;
+  const result = await AppDataSource.transaction(async (manager): Promise<TodoUpdateResult> => {
+    const todo = await manager.findOne(Todo, { where: { id, userId }, lock: { mode: 'pessimistic_write' } });
+    if (!todo) return { status: 404 };
+    todo.tags = await manager.createQueryBuilder().relation(Todo, 'tags').of(todo).loadMany<Tag>();
+    todo.tags.sort((a, b) => a.name.localeCompare(b.name));
+    if (!ifMatchSatisfied(ifMatch, versionETag(todo.version))) return { status: 412, todo };
+    const { version, isDone: wasDone } = todo;
+    const tagsBefore = tagKey(todo.tags);
+    await apply(todo, manager);
+    completed = !wasDone && todo.isDone;
+    if (completed) occurrence = await scheduleNextOccurrence(manager, todo);
+    await manager.save(todo);
+    const remindersChanged = await syncReminders(manager, todo, todo.reminderOffsets);
+    // Tag and reminder changes only touch other tables, so bump the version by hand to keep the ETag honest
+    if (todo.version === version && (tagKey(todo.tags) !== tagsBefore || remindersChanged)) {
+      await manager.increment(Todo, { id: todo.id }, 'version', 1);
+      todo.version += 1;
+    }
+    await attachChecklistProgress([todo]);
+    return { status: 200, todo };
+  });
+  if (result.status === 200) {
+    publishTodoEvent(userId, 'updated', streamTodo(result.todo));
+    await queueWebhookEvent(userId, 'todo.updated', { todo: webhookTodo(result.todo) });
+    if (completed) await queueWebhookEvent(userId, 'todo.completed', { todo: webhookTodo(result.todo) });
+    if (occurrence) await announceCreatedTodo(occurrence);
+  }
+  return result;
+}
+
+// Send the outcome of updateOwnedTodo() with the todo's ETag
+function sendTodoUpdate(res: Response, result: TodoUpdateResult) {
+  if (result.status === 404) return res.status(404).json({ error: 'Todo not found' });
+  res.set('ETag', versionETag(result.todo.version));
+  if (result.status === 412) {
+    return res.status(412).json({ error: 'Todo has been modified since it was last fetched', todo: result.todo });
+  }
+  return res.json(result.todo);
+}
+
 // DTO for creating a todo
-class CreateTodoDTO {
+export class CreateTodoDTO {
   @IsNotEmpty()
   @IsString()
   @MaxLength(100)
@@ -26,6 +465,193 @@ class CreateTodoDTO {
   @IsNotEmpty()
   @IsDateString()
   dateTime!: Date;
+
+  @IsOptional()
+  @IsEnum(TodoPriority)
+  priority?: TodoPriority;
+
+  // Defaults to `todo`
+  @IsOptional()
+  @IsEnum(TodoStatus)
+  status?: TodoStatus;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_TAGS_PER_TODO)
+  @IsUUID('all', { each: true })
+  tagIds?: string[];
+
+  // Omit for the inbox
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+
+  // RFC 5545 RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO,WE"
+  @IsOptional()
+  @IsRecurrenceRule()
+  recurrence?: string;
+
+  // Minutes before dateTime to send an email reminder, e.g. [15, 1440]
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_REMINDERS_PER_TODO)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(MAX_REMINDER_OFFSET_MINUTES, { each: true })
+  reminderOffsets?: number[];
+}
+
+// Skip validation only when a field is absent, so an explicit null is still rejected
+const IsPresent = () => ValidateIf((_, value) => value !== undefined);
+
+// DTO for partially updating a todo (PATCH, JSON Merge Patch semantics)
+class UpdateTodoDTO {
+  @IsPresent()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  // null or "" clears the description
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  shortDescription?: string | null;
+
+  @IsPresent()
+  @IsDateString()
+  dateTime?: string;
+
+  @IsPresent()
+  @IsEnum(TodoStatus)
+  status?: TodoStatus;
+
+  // For older clients; ignored when `status` is sent
+  @IsPresent()
+  @IsBoolean()
+  isDone?: boolean;
+
+  @IsPresent()
+  @IsEnum(TodoPriority)
+  priority?: TodoPriority;
+
+  // Replaces the todo's tags; [] removes them all
+  @IsPresent()
+  @IsArray()
+  @ArrayMaxSize(MAX_TAGS_PER_TODO)
+  @IsUUID('all', { each: true })
+  tagIds?: string[];
+
+  // null moves the todo back to the inbox
+  @IsOptional()
+  @IsUUID()
+  projectId?: string | null;
+
+  // null stops the todo from recurring
+  @IsOptional()
+  @IsRecurrenceRule()
+  recurrence?: string | null;
+
+  // Replaces the todo's reminders; [] removes them all
+  @IsPresent()
+  @IsArray()
+  @ArrayMaxSize(MAX_REMINDERS_PER_TODO)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(MAX_REMINDER_OFFSET_MINUTES, { each: true })
+  reminderOffsets?: number[];
+}
+
+// DTO for replacing a todo (PUT): every field must be sent
+class ReplaceTodoDTO {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name!: string;
+
+  @IsString()
+  @MaxLength(500)
+  shortDescription!: string;
+
+  @IsNotEmpty()
+  @IsDateString()
+  dateTime!: string;
+
+  @IsOptional()
+  @IsEnum(TodoStatus)
+  status?: TodoStatus;
+
+  // Older clients send this instead of `status`, so one of the two is required
+  @ValidateIf((dto: ReplaceTodoDTO) => dto.status === undefined)
+  @IsBoolean()
+  isDone?: boolean;
+
+  // Optional fields fall back to their defaults when omitted, as with a new todo
+  @IsOptional()
+  @IsEnum(TodoPriority)
+  priority?: TodoPriority;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_TAGS_PER_TODO)
+  @IsUUID('all', { each: true })
+  tagIds?: string[];
+
+  @IsOptional()
+  @IsUUID()
+  projectId?: string | null;
+
+  @IsOptional()
+  @IsRecurrenceRule()
+  recurrence?: string | null;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_REMINDERS_PER_TODO)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(MAX_REMINDER_OFFSET_MINUTES, { each: true })
+  reminderOffsets?: number[];
+}
+
+// DTO for moving a todo in the manual order: the todos it should end up between
+class MoveTodoDTO {
+  @IsOptional()
+  @IsUUID()
+  before?: string | null;
+
+  @IsOptional()
+  @IsUUID()
+  after?: string | null;
+}
+
+/**
+ * Saves a new todo from a validated CreateTodoDTO: text is sanitized, the rule is
+ * normalized and tags and project must belong to `user`. Shared by POST /todos and
+ * the bulk importers, which pass `status` for todos that arrive completed and,
+ * for calendar entries, the UID the calendar knows each one by.
+ */
+export async function createTodo(manager: EntityManager, user: User, dto: CreateTodoDTO, status = dto.status ?? TodoStatus.TODO, importUid: string | null = null): Promise<Todo> {
+  const todo = new Todo();
+  todo.name = sanitizeHtml(dto.name);
+  todo.shortDescription = sanitizeHtml(dto.shortDescription);
+  todo.dateTime = new Date(dto.dateTime);
+  setTodoStatus(todo, status);
+  todo.priority = dto.priority ?? TodoPriority.NONE;
+  todo.recurrence = dto.recurrence && !todo.isDone ? normalizeRecurrence(dto.recurrence) : null;
+  todo.tags = await resolveTags(manager, user.id, dto.tagIds ?? []);
+  todo.projectId = await resolveProjectId(manager, user.id, dto.projectId);
+  todo.importUid = importUid;
+  todo.user = user;
+  todo.userId = user.id;
+  todo.position = await nextPosition(manager, user.id);
+  await manager.save(todo);
+  await syncReminders(manager, todo, dto.reminderOffsets ?? []);
+  todo.checklistProgress = { done: 0, total: 0 };
+  return todo;
 }
 
 /**
@@ -66,6 +692,13 @@ class CreateTodoDTO {
  *                 name: "Fix critical bug"
  *                 shortDescription: "Resolve the authentication issue causing login failures"
  *                 dateTime: "2024-01-16T09:00:00Z"
+ *             tagged_todo:
+ *               summary: Todo with tags
+ *               value:
+ *                 name: "Buy groceries"
+ *                 shortDescription: "Milk, eggs and bread"
+ *                 dateTime: "2024-01-18T17:00:00Z"
+ *                 tagIds: ["7c9e6679-7425-40de-944b-e07fc1f90ae7"]
  *     responses:
  *       201:
  *         description: Todo created successfully
@@ -84,19 +717,203 @@ class CreateTodoDTO {
  *               updatedAt: "2024-01-15T10:30:00Z"
  *               deletedAt: null
  *       400:
- *         description: Validation error - missing or invalid fields
+ *         description: Validation error - missing or invalid fields, or a tag or project the user does not own
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/ValidationError'
+ *                 - $ref: '#/components/schemas/Error'
+ *             examples:
+ *               validation_error:
+ *                 summary: Missing or invalid fields
+ *                 value:
+ *                   errors:
+ *                     - property: "name"
+ *                       constraints:
+ *                         isNotEmpty: "name should not be empty"
+ *                     - property: "dateTime"
+ *                       constraints:
+ *                         isDate: "dateTime must be a valid date"
+ *               unknown_tag:
+ *                 summary: Tag not owned by the user
+ *                 value:
+ *                   error: "Unknown tag"
+ *               unknown_project:
+ *                 summary: Project not owned by the user
+ *                 value:
+ *                   error: "Unknown project"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to create todo"
+ */
+router.post('/todos', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const dto = plainToInstance(CreateTodoDTO, req.body);
+    const errors = await validate(dto);
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    const todo = await createTodo(AppDataSource.manager, req.user as User, dto);
+    await announceCreatedTodo(todo);
+    res.set('ETag', versionETag(todo.version));
+    res.status(201).json(todo);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos:
+ *   get:
+ *     summary: Get user's todos with optional filtering
+ *     description: |
+ *       Retrieves the authenticated user's todos with optional status filtering, one page at a time. Results are ordered by due date (ascending) unless `sort` is given, with the todo ID as a tiebreaker.
+ *       
+ *       **Filtering Options:**
+ *       - No filter: Returns all todos (completed and upcoming)
+ *       - `status=COMPLETED`: Returns only completed todos (isDone = true)
+ *       - `status=UPCOMING`: Returns only upcoming/pending todos (isDone = false)
+ *       - `status=in_progress,blocked`: Returns todos in any of the given statuses (`backlog`, `todo`, `in_progress`, `blocked`, `done`)
+ *       - `projectId=<id>`: Returns todos in one project (`projectId=none` for the inbox)
+ *       - `tags=<id>,<id>`: Returns todos carrying any of the given tags, or all of them with `tagMatch=all`
+ *       
+ *       **Sorting:**
+ *       - `sort` takes a comma-separated list of `dateTime` and `priority` (default `dateTime`)
+ *       - `dateTime` sorts earliest first, `priority` sorts most urgent first; prefix a field with `-` to reverse it
+ *       - Example: `sort=priority,dateTime` lists urgent todos first, each priority level ordered by due date
+ *       
+ *       **Pagination:**
+ *       - Cursor-based, keyed on the sort fields plus `id`; a cursor is only valid for the sort it was issued with
+ *       - Pass `nextCursor` or `prevCursor` from a previous response as `cursor` to move between pages
+ *       - Cursors are opaque and must not be constructed by clients
+ *       - The total number of matching todos is returned in the `X-Total-Count` header
+ *       
+ *       **Features:**
+ *       - User-specific todos only (data isolation)
+ *       - Ordered by due date (earliest first)
+ *       - Soft-deleted todos are excluded
+ *       - Optional status filtering
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: "`COMPLETED`, `UPCOMING`, or comma-separated statuses to filter by"
+ *         example: "in_progress,blocked"
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Only return todos in this project (UUID), or `none` for todos without a project
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Comma-separated tag IDs to filter by
+ *         example: "7c9e6679-7425-40de-944b-e07fc1f90ae7,9b2f6d1e-3c4a-4f5b-8e7d-6a1b2c3d4e5f"
+ *       - in: query
+ *         name: tagMatch
+ *         schema:
+ *           type: string
+ *           enum: [any, all]
+ *           default: any
+ *         required: false
+ *         description: Whether a todo needs any or all of the `tags` to match
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         required: false
+ *         description: Only return todos due at or after this time
+ *         example: "2024-01-01T00:00:00Z"
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         required: false
+ *         description: Only return todos due before this time
+ *         example: "2024-02-01T00:00:00Z"
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           default: dateTime
+ *         required: false
+ *         description: Comma-separated sort fields (`dateTime`, `priority`, `position` for the manual order), each optionally prefixed with `-` to reverse
+ *         example: "priority,dateTime"
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         required: false
+ *         description: Maximum number of todos to return
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Opaque cursor taken from `nextCursor` or `prevCursor` of a previous page
+ *     responses:
+ *       200:
+ *         description: Todos retrieved successfully
+ *         headers:
+ *           X-Total-Count:
+ *             schema:
+ *               type: integer
+ *             description: Total number of todos matching the filter
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TodoPage'
+ *             example:
+ *               data:
+ *                 - id: "123e4567-e89b-12d3-a456-426614174001"
+ *                   name: "Complete project documentation"
+ *                   shortDescription: "Write comprehensive API documentation"
+ *                   dateTime: "2024-01-20T15:30:00Z"
+ *                   isDone: false
+ *                   userId: "123e4567-e89b-12d3-a456-426614174000"
+ *                   createdAt: "2024-01-15T10:30:00Z"
+ *                   updatedAt: "2024-01-15T10:30:00Z"
+ *                   deletedAt: null
+ *               limit: 20
+ *               nextCursor: "eyJ2YWx1ZXMiOnsiZGF0ZVRpbWUiOiIyMDI0LTAxLTIwVDE1OjMwOjAwLjAwMFoifSwiaWQiOiIxMjNlNDU2Ny1lODliLTEyZDMtYTQ1Ni00MjY2MTQxNzQwMDEiLCJkaXJlY3Rpb24iOiJuZXh0In0"
+ *               prevCursor: null
+ *       400:
+ *         description: Invalid cursor, sort field, status, project, tag or date range filter
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/ValidationError'
+ *               $ref: '#/components/schemas/Error'
  *             example:
- *               errors:
- *                 - property: "name"
- *                   constraints:
- *                     isNotEmpty: "name should not be empty"
- *                 - property: "dateTime"
- *                   constraints:
- *                     isDate: "dateTime must be a valid date"
+ *               error: "Invalid sort field: title"
  *       401:
  *         description: Unauthorized - Invalid or missing token
  *         content:
@@ -104,7 +921,818 @@ class CreateTodoDTO {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *             example:
- *               error: "Authorization header required"
+ *               error: "Authorization header required"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to retrieve todos"
+ */
+router.get('/todos', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = req.query.status as string;
+    const user = req.user as User;
+    const qb = todoRepo.createQueryBuilder('todo').where('todo.userId = :userId', { userId: user.id });
+    applyStatusFilter(qb, status);
+    applyProjectFilter(qb, req.query.projectId as string | undefined);
+    applyTagFilter(qb, req.query.tags as string | undefined, req.query.tagMatch as string | undefined);
+    applyDueRangeFilter(qb, req.query.from as string | undefined, req.query.to as string | undefined);
+    const total = await qb.clone().getCount();
+    const sortKeys = parseTodoSort(req.query.sort as string | undefined);
+    const page = await paginate(qb, sortKeys, parseLimit(req.query.limit), req.query.cursor as string | undefined);
+    await attachTodoDetails(page.data);
+    res.set('X-Total-Count', String(total));
+    res.json(page);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/search:
+ *   get:
+ *     summary: Full-text search across the user's todos
+ *     description: |
+ *       Searches todo names and descriptions using the MySQL FULLTEXT index in boolean mode. Every word in `q` must match (as a prefix); text in double quotes is matched as an exact phrase. Results are ordered by relevance.
+ *       
+ *       **Highlighting:**
+ *       Each result carries a `highlights` object with short excerpts of `name` and `shortDescription` in which matched terms are wrapped in `<mark></mark>`. A field is `null` when it contains no match.
+ *       
+ *       **Features:**
+ *       - User-specific todos only (data isolation)
+ *       - Respects the same `status`, `projectId` and `tags` filters as `GET /api/todos`
+ *       - Soft-deleted todos are excluded
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Search text
+ *         example: "project docs"
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: "`COMPLETED`, `UPCOMING`, or comma-separated statuses to filter by"
+ *         example: "in_progress,blocked"
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Only return todos in this project (UUID), or `none` for todos without a project
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Comma-separated tag IDs to filter by
+ *         example: "7c9e6679-7425-40de-944b-e07fc1f90ae7,9b2f6d1e-3c4a-4f5b-8e7d-6a1b2c3d4e5f"
+ *       - in: query
+ *         name: tagMatch
+ *         schema:
+ *           type: string
+ *           enum: [any, all]
+ *           default: any
+ *         required: false
+ *         description: Whether a todo needs any or all of the `tags` to match
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         required: false
+ *         description: Maximum number of results to return
+ *     responses:
+ *       200:
+ *         description: Ranked search results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TodoSearchResponse'
+ *             example:
+ *               data:
+ *                 - id: "123e4567-e89b-12d3-a456-426614174001"
+ *                   name: "Complete project documentation"
+ *                   shortDescription: "Write comprehensive API documentation"
+ *                   dateTime: "2024-01-20T15:30:00Z"
+ *                   isDone: false
+ *                   userId: "123e4567-e89b-12d3-a456-426614174000"
+ *                   createdAt: "2024-01-15T10:30:00Z"
+ *                   updatedAt: "2024-01-15T10:30:00Z"
+ *                   deletedAt: null
+ *                   score: 1.2345
+ *                   highlights:
+ *                     name: "Complete <mark>project</mark> <mark>doc</mark>umentation"
+ *                     shortDescription: "Write comprehensive API <mark>doc</mark>umentation"
+ *               total: 1
+ *       400:
+ *         description: Missing search query
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Search query is required"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to search todos"
+ */
+router.get('/todos/search', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user as User;
+    const { booleanQuery, terms } = parseSearchQuery(String(req.query.q ?? ''));
+    if (!booleanQuery) return res.status(400).json({ error: 'Search query is required' });
+    const match = 'MATCH(todo.name, todo.shortDescription) AGAINST (:q IN BOOLEAN MODE)';
+    const qb = todoRepo
+      .createQueryBuilder('todo')
+      .addSelect(match, 'score')
+      .where('todo.userId = :userId', { userId: user.id })
+      .andWhere(match)
+      .setParameter('q', booleanQuery);
+    applyStatusFilter(qb, req.query.status as string);
+    applyProjectFilter(qb, req.query.projectId as string | undefined);
+    applyTagFilter(qb, req.query.tags as string | undefined, req.query.tagMatch as string | undefined);
+    const total = await qb.clone().getCount();
+    const { entities, raw } = await qb
+      .orderBy('score', 'DESC')
+      .addOrderBy('todo.dateTime', 'ASC')
+      .limit(parseLimit(req.query.limit))
+      .getRawAndEntities();
+    await attachTodoDetails(entities);
+    const data = entities.map((todo, i) => ({
+      ...todo,
+      score: Number(raw[i].score),
+      highlights: {
+        name: highlight(todo.name, terms),
+        shortDescription: highlight(todo.shortDescription, terms),
+      },
+    }));
+    res.json({ data, total });
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/trash:
+ *   get:
+ *     summary: List the user's trashed todos
+ *     description: |
+ *       Retrieves soft-deleted todos for the authenticated user, most recently deleted first. Trashed todos can be restored or permanently deleted, and are purged automatically once they have been in the trash for longer than the configured retention period (`TRASH_RETENTION_DAYS`, 30 days by default).
+ *       
+ *       Uses the same cursor pagination and `X-Total-Count` header as `GET /api/todos`.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         required: false
+ *         description: Maximum number of todos to return
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         required: false
+ *         description: Opaque cursor taken from `nextCursor` or `prevCursor` of a previous page
+ *     responses:
+ *       200:
+ *         description: Trashed todos retrieved successfully
+ *         headers:
+ *           X-Total-Count:
+ *             schema:
+ *               type: integer
+ *             description: Total number of todos in the trash
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TodoPage'
+ *             example:
+ *               data:
+ *                 - id: "123e4567-e89b-12d3-a456-426614174001"
+ *                   name: "Complete project documentation"
+ *                   shortDescription: "Write comprehensive API documentation"
+ *                   dateTime: "2024-01-20T15:30:00Z"
+ *                   isDone: false
+ *                   userId: "123e4567-e89b-12d3-a456-426614174000"
+ *                   createdAt: "2024-01-15T10:30:00Z"
+ *                   updatedAt: "2024-01-15T10:30:00Z"
+ *                   deletedAt: "2024-01-18T08:00:00Z"
+ *               limit: 20
+ *               nextCursor: null
+ *               prevCursor: null
+ *       400:
+ *         description: Invalid cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid cursor"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to retrieve trash"
+ */
+router.get('/todos/trash', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user as User;
+    const qb = todoRepo
+      .createQueryBuilder('todo')
+      .withDeleted()
+      .where('todo.userId = :userId', { userId: user.id })
+      .andWhere('todo.deletedAt IS NOT NULL');
+    const total = await qb.clone().getCount();
+    const page = await paginate(qb, TRASH_SORT_KEYS, parseLimit(req.query.limit), req.query.cursor as string | undefined);
+    await attachTodoDetails(page.data);
+    res.set('X-Total-Count', String(total));
+    res.json(page);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/events:
+ *   get:
+ *     summary: Stream changes to the user's todos
+ *     description: |
+ *       Opens a Server-Sent Events stream that pushes every change to the user's todos, whichever device or client made it.
+ *       
+ *       **Events:**
+ *       - `created` - a todo was created, restored from the trash or scheduled as the next occurrence of a recurring todo; `data` is the todo
+ *       - `updated` - a todo or its checklist was changed; `data` is the todo as saved
+ *       - `deleted` - a todo was moved to the trash or deleted for good; `data` is `{ "id": "..." }`
+ *       - `reset` - events since `Last-Event-ID` could not be replayed (the server restarted, or too many happened); refetch everything
+ *       
+ *       **Resuming:**
+ *       Every event has an `id`. Reconnect with a `Last-Event-ID` header (or the `lastEventId` query parameter) to receive the events you missed. Only the most recent events are kept, in memory.
+ *       
+ *       A `: ping` comment is sent every 25 seconds to keep proxies from closing the connection.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: string
+ *         description: ID of the last event received, to resume after a reconnect
+ *         example: "lx3k9c2a-42"
+ *       - in: query
+ *         name: lastEventId
+ *         schema:
+ *           type: string
+ *         description: Same as the Last-Event-ID header, for clients that cannot set it
+ *     responses:
+ *       200:
+ *         description: Event stream opened
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *             example: |
+ *               retry: 5000
+ *               
+ *               id: lx3k9c2a-43
+ *               event: updated
+ *               data: {"id":"123e4567-e89b-12d3-a456-426614174001","name":"Complete project documentation","isDone":true}
+ *               
+ *               id: lx3k9c2a-44
+ *               event: deleted
+ *               data: {"id":"123e4567-e89b-12d3-a456-426614174002"}
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.get('/todos/events', ((req: Request, res: Response) => {
+  const user = req.user as User;
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop nginx and similar proxies from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write(`retry: ${EVENT_STREAM_RETRY_MS}\n\n`);
+
+  const send = (event: Pick<TodoEvent, 'id' | 'data'> & { type: TodoEvent['type'] | 'reset' }) => {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  };
+
+  const lastEventId = req.get('Last-Event-ID') ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+  if (lastEventId) {
+    const missed = eventsSince(user.id, lastEventId);
+    if (missed) missed.forEach(send);
+    else send({ id: latestEventId(), type: 'reset', data: {} });
+  }
+
+  const unsubscribe = subscribeTodoEvents(user.id, send);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), EVENT_STREAM_HEARTBEAT_MS);
+  logger.info('Todo event stream opened', { userId: user.id, resumedFrom: lastEventId ?? null });
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/sync:
+ *   get:
+ *     summary: Fetch changes since the last sync
+ *     description: |
+ *       Returns the user's todos that changed since `since`, plus tombstones for todos moved to the trash, and a `syncToken` to pass as `since` next time.
+ *       
+ *       **How to sync:**
+ *       1. Call without `since` for a full sync (`fullSync: true`); keep calling with the returned token while `hasMore` is true
+ *       2. Store the last `syncToken`, and later call with it to get only what changed
+ *       3. Upsert `todos` by `id` and remove the ids in `deleted`; rows can repeat, so keep whichever has the higher `version`
+ *       
+ *       **Clock skew:**
+ *       Tokens are taken from the database clock, which also stamps `updatedAt`, and each new sync looks back a little before the token so changes committed just as the last sync ran are not missed. A plain timestamp may be passed instead of a token; one in the future, or older than the trash retention period (after which tombstones are purged), starts a full sync, and the client should then drop any todo the full sync does not return.
+ *       
+ *       Todos deleted permanently before a client has synced them as tombstones are only removed by a full sync.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *         description: A `syncToken` from an earlier response, or an ISO 8601 / epoch-milliseconds timestamp
+ *         example: "eyJ0IjoiMjAyNC0wMS0xNVQxMDozMDowMC4wMDBaIn0"
+ *     responses:
+ *       200:
+ *         description: Changes retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 todos:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Todo'
+ *                 deleted:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                         format: uuid
+ *                       deletedAt:
+ *                         type: string
+ *                         format: date-time
+ *                       version:
+ *                         type: integer
+ *                 syncToken:
+ *                   type: string
+ *                   description: Pass as `since` on the next call
+ *                 hasMore:
+ *                   type: boolean
+ *                   description: More changes are waiting; call again straight away with `syncToken`
+ *                 fullSync:
+ *                   type: boolean
+ *                   description: Everything is being sent, not just changes since `since`
+ *             example:
+ *               todos:
+ *                 - id: "123e4567-e89b-12d3-a456-426614174001"
+ *                   name: "Complete project documentation"
+ *                   shortDescription: "Write comprehensive API documentation"
+ *                   dateTime: "2024-01-20T15:30:00Z"
+ *                   isDone: true
+ *                   userId: "123e4567-e89b-12d3-a456-426614174000"
+ *                   createdAt: "2024-01-15T10:30:00Z"
+ *                   updatedAt: "2024-01-16T09:12:00Z"
+ *                   version: 3
+ *               deleted:
+ *                 - id: "123e4567-e89b-12d3-a456-426614174002"
+ *                   deletedAt: "2024-01-16T08:00:00Z"
+ *                   version: 2
+ *               syncToken: "eyJ0IjoiMjAyNC0wMS0xNlQwOToxNTowMC4wMDBaIn0"
+ *               hasMore: false
+ *               fullSync: false
+ *       400:
+ *         description: Invalid sync token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid sync token"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.get('/todos/sync', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user as User;
+    const position = typeof req.query.since === 'string' && req.query.since ? parseSince(req.query.since) : null;
+    // The database stamps updatedAt, so take "now" from its clock rather than this server's
+    const [{ now }] = await AppDataSource.query('SELECT NOW(6) AS now');
+    const serverNow = new Date(now);
+    const tombstonesSince = new Date(serverNow.getTime() - env.trashRetentionDays * 24 * 60 * 60 * 1000);
+    // Continuation tokens point into rows already being paged through, however old they are
+    const fullSync = !position || (!position.afterId && (position.since < tombstonesSince || position.since > serverNow));
+
+    const qb = todoRepo
+      .createQueryBuilder('todo')
+      .withDeleted()
+      .where('todo.userId = :userId', { userId: user.id })
+      .orderBy('todo.updatedAt', 'ASC')
+      .addOrderBy('todo.id', 'ASC')
+      .take(SYNC_PAGE_SIZE + 1);
+    if (fullSync) {
+      qb.andWhere('todo.deletedAt IS NULL');
+    } else if (position.afterId) {
+      qb.andWhere('(todo.updatedAt > :since OR (todo.updatedAt = :since AND todo.id > :afterId))', position);
+    } else {
+      qb.andWhere('todo.updatedAt > :since', { since: new Date(position.since.getTime() - SYNC_OVERLAP_MS) });
+    }
+    const rows = await qb.getMany();
+    const hasMore = rows.length > SYNC_PAGE_SIZE;
+    const page = rows.slice(0, SYNC_PAGE_SIZE);
+    const todos = page.filter(todo => !todo.deletedAt);
+    await attachTodoDetails(todos);
+    const last = page[page.length - 1];
+
+    res.json({
+      todos,
+      deleted: page.filter(todo => todo.deletedAt).map(({ id, deletedAt, version }) => ({ id, deletedAt, version })),
+      syncToken: encodeSyncToken(hasMore ? { since: last.updatedAt, afterId: last.id } : { since: serverNow }),
+      hasMore,
+      fullSync,
+    });
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/{id}:
+ *   get:
+ *     summary: Get a single todo
+ *     description: |
+ *       Retrieves one of the authenticated user's todos. The response carries an `ETag` header holding the todo's version; send it back in `If-Match` on `PUT` or `PATCH` to make sure you are not overwriting changes made elsewhere.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the todo
+ *         example: "123e4567-e89b-12d3-a456-426614174001"
+ *     responses:
+ *       200:
+ *         description: Todo retrieved successfully
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *             description: Current version of the todo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Todo'
+ *       400:
+ *         description: Invalid todo ID format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid ID"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Todo not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Todo not found"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to retrieve todo"
+ */
+router.get('/todos/:id', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    const todo = await todoRepo.findOneBy({ id, userId: user.id });
+    if (!todo) return res.status(404).json({ error: 'Todo not found' });
+    await attachTodoDetails([todo]);
+    res.set('ETag', versionETag(todo.version));
+    res.json(todo);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/{id}/occurrences:
+ *   get:
+ *     summary: Preview upcoming occurrences of a recurring todo
+ *     description: |
+ *       Lists the dates the todo will recur on after its current `dateTime`, computed from its `recurrence` rule in UTC. Non-recurring todos return an empty list.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the todo
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 5
+ *         description: Maximum number of occurrences to return
+ *     responses:
+ *       200:
+ *         description: Upcoming occurrences
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 recurrence:
+ *                   type: string
+ *                   nullable: true
+ *                   example: "FREQ=WEEKLY;BYDAY=MO"
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                     format: date-time
+ *       400:
+ *         description: Invalid todo ID format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid ID"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Todo not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Todo not found"
+ */
+router.get('/todos/:id/occurrences', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    const todo = await todoRepo.findOneBy({ id, userId: user.id });
+    if (!todo) return res.status(404).json({ error: 'Todo not found' });
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? ''), 10) || 5, 1), MAX_OCCURRENCES);
+    const data = todo.recurrence ? upcomingOccurrences(todo.recurrence, todo.dateTime, limit) : [];
+    res.json({ recurrence: todo.recurrence, data });
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/{id}:
+ *   put:
+ *     summary: Replace an existing todo
+ *     description: |
+ *       Replaces a todo with the representation in the request body. Only the todo owner can update their todos. Every field is required; use `PATCH /api/todos/{id}` to change individual fields.
+ *       
+ *       **Fields:**
+ *       - `name`: Todo title/name (sanitized, 1-100 characters)
+ *       - `shortDescription`: Detailed description (sanitized, up to 500 characters, may be empty)
+ *       - `dateTime`: Due date and time (ISO 8601)
+ *       - `status`: `backlog`, `todo`, `in_progress`, `blocked` or `done` (clients from before statuses may send the boolean `isDone` instead)
+ *       
+ *       **Features:**
+ *       - Full validation with per-field errors
+ *       - Input sanitization for text fields
+ *       - User ownership validation
+ *       - UUID validation for todo ID
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the todo to replace
+ *         example: "123e4567-e89b-12d3-a456-426614174001"
+ *       - in: header
+ *         name: If-Match
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: ETag from a previous response; the update is rejected with 412 if the todo has changed since
+ *         example: '"3"'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReplaceTodoRequest'
+ *           example:
+ *             name: "Finalize project documentation"
+ *             shortDescription: "Complete and review all API documentation before release"
+ *             dateTime: "2024-01-22T16:00:00Z"
+ *             isDone: false
+ *     responses:
+ *       200:
+ *         description: Todo replaced successfully
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *             description: New version of the todo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Todo'
+ *             example:
+ *               id: "123e4567-e89b-12d3-a456-426614174001"
+ *               name: "Finalize project documentation"
+ *               shortDescription: "Complete and review all API documentation before release"
+ *               dateTime: "2024-01-22T16:00:00Z"
+ *               isDone: false
+ *               userId: "123e4567-e89b-12d3-a456-426614174000"
+ *               createdAt: "2024-01-15T10:30:00Z"
+ *               updatedAt: "2024-01-16T14:20:00Z"
+ *               deletedAt: null
+ *       400:
+ *         description: Invalid todo ID format or validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/ValidationError'
+ *                 - $ref: '#/components/schemas/Error'
+ *             examples:
+ *               invalid_id:
+ *                 summary: Invalid ID
+ *                 value:
+ *                   error: "Invalid ID"
+ *               unknown_tag:
+ *                 summary: Tag not owned by the user
+ *                 value:
+ *                   error: "Unknown tag"
+ *               unknown_project:
+ *                 summary: Project not owned by the user
+ *                 value:
+ *                   error: "Unknown project"
+ *               validation_error:
+ *                 summary: Missing or invalid fields
+ *                 value:
+ *                   errors:
+ *                     - property: "dateTime"
+ *                       constraints:
+ *                         isDateString: "dateTime must be a valid ISO 8601 date string"
+ *                     - property: "isDone"
+ *                       constraints:
+ *                         isBoolean: "isDone must be a boolean value"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Todo not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Todo not found"
+ *       412:
+ *         description: Precondition failed - the todo was modified since the If-Match version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConflictError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -112,22 +1740,29 @@ class CreateTodoDTO {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *             example:
- *               error: "Failed to create todo"
+ *               error: "Failed to update todo"
  */
-router.post('/todos', (async (req: Request, res: Response, next: NextFunction) => {
+router.put('/todos/:id', (async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const dto = plainToInstance(CreateTodoDTO, req.body);
-    const errors = await validate(dto);
-    if (errors.length > 0) return res.status(400).json({ errors });
+    const { id } = req.params;
     const user = req.user as User;
-    const todo = new Todo();
-    todo.name = sanitizeHtml(dto.name);
-    todo.shortDescription = sanitizeHtml(dto.shortDescription);
-    todo.dateTime = new Date(dto.dateTime);
-    todo.user = user;
-    todo.userId = user.id;
-    await todoRepo.save(todo);
-    res.status(201).json(todo);
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    if (!isJsonObject(req.body)) return res.status(400).json({ error: 'Request body must be a JSON object' });
+    const dto = plainToInstance(ReplaceTodoDTO, req.body);
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    const result = await updateOwnedTodo(id, user.id, req.get('If-Match'), async (todo, manager) => {
+      todo.name = sanitizeHtml(dto.name);
+      todo.shortDescription = sanitizeHtml(dto.shortDescription);
+      todo.dateTime = new Date(dto.dateTime);
+      setTodoStatus(todo, dto.status ?? statusForIsDone(todo.status, dto.isDone ?? false));
+      todo.priority = dto.priority ?? TodoPriority.NONE;
+      todo.recurrence = dto.recurrence ? normalizeRecurrence(dto.recurrence) : null;
+      todo.reminderOffsets = dto.reminderOffsets ?? [];
+      todo.tags = await resolveTags(manager, user.id, dto.tagIds ?? []);
+      todo.projectId = await resolveProjectId(manager, user.id, dto.projectId);
+    });
+    sendTodoUpdate(res, result);
   } catch (err) {
     next(err);
   }
@@ -135,22 +1770,20 @@ router.post('/todos', (async (req: Request, res: Response, next: NextFunction) =
 
 /**
  * @swagger
- * /api/todos:
- *   get:
- *     summary: Get user's todos with optional filtering
+ * /api/todos/{id}:
+ *   patch:
+ *     summary: Partially update an existing todo
  *     description: |
- *       Retrieves all todos for the authenticated user with optional status filtering. Results are ordered by due date (ascending).
+ *       Applies a JSON Merge Patch (RFC 7396) to a todo. Only the todo owner can update their todos. Fields that are omitted are left unchanged; fields that are present replace the current value.
  *       
- *       **Filtering Options:**
- *       - No filter: Returns all todos (completed and upcoming)
- *       - `status=COMPLETED`: Returns only completed todos (isDone = true)
- *       - `status=UPCOMING`: Returns only upcoming/pending todos (isDone = false)
+ *       **Updatable Fields:**
+ *       - `name`: Todo title/name (sanitized, 1-100 characters, cannot be cleared)
+ *       - `shortDescription`: Detailed description (sanitized, up to 500 characters; `null` or `""` clears it)
+ *       - `dateTime`: Due date and time (ISO 8601, cannot be cleared)
+ *       - `status`: `backlog`, `todo`, `in_progress`, `blocked` or `done` (cannot be cleared)
+ *       - `isDone`: Legacy completion flag; `true` sets `done`, `false` reopens a done todo as `todo` (ignored when `status` is sent)
  *       
- *       **Features:**
- *       - User-specific todos only (data isolation)
- *       - Ordered by due date (earliest first)
- *       - Soft-deleted todos are excluded
- *       - Optional status filtering
+ *       Both `application/json` and `application/merge-patch+json` request bodies are accepted.
  *       
  *       **Authentication Required:**
  *       This endpoint requires a valid JWT access token in the Authorization header.
@@ -158,69 +1791,87 @@ router.post('/todos', (async (req: Request, res: Response, next: NextFunction) =
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: query
- *         name: status
+ *       - in: path
+ *         name: id
+ *         required: true
  *         schema:
  *           type: string
- *           enum: [COMPLETED, UPCOMING]
+ *           format: uuid
+ *         description: UUID of the todo to update
+ *         example: "123e4567-e89b-12d3-a456-426614174001"
+ *       - in: header
+ *         name: If-Match
  *         required: false
- *         description: Filter todos by completion status
- *         examples:
- *           all:
- *             summary: Get all todos
- *             value: ""
- *           completed:
- *             summary: Get completed todos only
- *             value: "COMPLETED"
- *           upcoming:
- *             summary: Get upcoming todos only
- *             value: "UPCOMING"
+ *         schema:
+ *           type: string
+ *         description: ETag from a previous response; the update is rejected with 412 if the todo has changed since
+ *         example: '"3"'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/merge-patch+json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateTodoRequest'
+ *           examples:
+ *             complete_todo:
+ *               summary: Mark todo as completed
+ *               value:
+ *                 status: done
+ *             start_todo:
+ *               summary: Start working on the todo
+ *               value:
+ *                 status: in_progress
+ *             reschedule:
+ *               summary: Reschedule todo
+ *               value:
+ *                 dateTime: "2024-01-25T10:00:00Z"
+ *             clear_description:
+ *               summary: Clear the description
+ *               value:
+ *                 shortDescription: null
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateTodoRequest'
  *     responses:
  *       200:
- *         description: Todos retrieved successfully
+ *         description: Todo updated successfully
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *             description: New version of the todo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Todo'
+ *       400:
+ *         description: Invalid todo ID format or validation error
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Todo'
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/ValidationError'
+ *                 - $ref: '#/components/schemas/Error'
  *             examples:
- *               all_todos:
- *                 summary: All todos (mixed status)
+ *               invalid_id:
+ *                 summary: Invalid ID
  *                 value:
- *                   - id: "123e4567-e89b-12d3-a456-426614174001"
- *                     name: "Complete project documentation"
- *                     shortDescription: "Write comprehensive API documentation"
- *                     dateTime: "2024-01-20T15:30:00Z"
- *                     isDone: false
- *                     userId: "123e4567-e89b-12d3-a456-426614174000"
- *                     createdAt: "2024-01-15T10:30:00Z"
- *                     updatedAt: "2024-01-15T10:30:00Z"
- *                     deletedAt: null
- *                   - id: "123e4567-e89b-12d3-a456-426614174002"
- *                     name: "Review code changes"
- *                     shortDescription: "Review and approve pending pull requests"
- *                     dateTime: "2024-01-18T14:00:00Z"
- *                     isDone: true
- *                     userId: "123e4567-e89b-12d3-a456-426614174000"
- *                     createdAt: "2024-01-14T09:15:00Z"
- *                     updatedAt: "2024-01-17T16:45:00Z"
- *                     deletedAt: null
- *               completed_only:
- *                 summary: Completed todos only
+ *                   error: "Invalid ID"
+ *               unknown_tag:
+ *                 summary: Tag not owned by the user
  *                 value:
- *                   - id: "123e4567-e89b-12d3-a456-426614174002"
- *                     name: "Review code changes"
- *                     shortDescription: "Review and approve pending pull requests"
- *                     dateTime: "2024-01-18T14:00:00Z"
- *                     isDone: true
- *                     userId: "123e4567-e89b-12d3-a456-426614174000"
- *                     createdAt: "2024-01-14T09:15:00Z"
- *                     updatedAt: "2024-01-17T16:45:00Z"
- *                     deletedAt: null
- *               empty_list:
- *                 summary: No todos found
- *                 value: []
+ *                   error: "Unknown tag"
+ *               unknown_project:
+ *                 summary: Project not owned by the user
+ *                 value:
+ *                   error: "Unknown project"
+ *               validation_error:
+ *                 summary: Invalid fields
+ *                 value:
+ *                   errors:
+ *                     - property: "name"
+ *                       constraints:
+ *                         maxLength: "name must be shorter than or equal to 100 characters"
  *       401:
  *         description: Unauthorized - Invalid or missing token
  *         content:
@@ -229,6 +1880,20 @@ router.post('/todos', (async (req: Request, res: Response, next: NextFunction) =
  *               $ref: '#/components/schemas/Error'
  *             example:
  *               error: "Authorization header required"
+ *       404:
+ *         description: Todo not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Todo not found"
+ *       412:
+ *         description: Precondition failed - the todo was modified since the If-Match version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConflictError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -236,20 +1901,30 @@ router.post('/todos', (async (req: Request, res: Response, next: NextFunction) =
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *             example:
- *               error: "Failed to retrieve todos"
+ *               error: "Failed to update todo"
  */
-router.get('/todos', (async (req: Request, res: Response, next: NextFunction) => {
+router.patch('/todos/:id', (async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const status = req.query.status as string;
+    const { id } = req.params;
     const user = req.user as User;
-    const qb = todoRepo.createQueryBuilder('todo').where('todo.userId = :userId', { userId: user.id });
-    if (status === 'COMPLETED') {
-      qb.andWhere('todo.isDone = :done', { done: true });
-    } else if (status === 'UPCOMING') {
-      qb.andWhere('todo.isDone = :done', { done: false });
-    }
-    const todos = await qb.orderBy('todo.dateTime', 'ASC').getMany();
-    res.json(todos);
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    if (!isJsonObject(req.body)) return res.status(400).json({ error: 'Request body must be a JSON object' });
+    const dto = plainToInstance(UpdateTodoDTO, req.body);
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    const result = await updateOwnedTodo(id, user.id, req.get('If-Match'), async (todo, manager) => {
+      if (dto.name !== undefined) todo.name = sanitizeHtml(dto.name);
+      if (dto.shortDescription !== undefined) todo.shortDescription = sanitizeHtml(dto.shortDescription ?? '');
+      if (dto.dateTime !== undefined) todo.dateTime = new Date(dto.dateTime);
+      if (dto.status !== undefined) setTodoStatus(todo, dto.status);
+      else if (dto.isDone !== undefined) setTodoStatus(todo, statusForIsDone(todo.status, dto.isDone));
+      if (dto.priority !== undefined) todo.priority = dto.priority;
+      if (dto.recurrence !== undefined) todo.recurrence = dto.recurrence ? normalizeRecurrence(dto.recurrence) : null;
+      if (dto.reminderOffsets !== undefined) todo.reminderOffsets = dto.reminderOffsets;
+      if (dto.tagIds !== undefined) todo.tags = await resolveTags(manager, user.id, dto.tagIds);
+      if (dto.projectId !== undefined) todo.projectId = await resolveProjectId(manager, user.id, dto.projectId);
+    });
+    sendTodoUpdate(res, result);
   } catch (err) {
     next(err);
   }
@@ -257,23 +1932,16 @@ router.get('/todos', (async (req: Request, res: Response, next: NextFunction) =>
 
 /**
  * @swagger
- * /api/todos/{id}:
- *   put:
- *     summary: Update an existing todo
+ * /api/todos/{id}/move:
+ *   post:
+ *     summary: Move a todo in the manual order
  *     description: |
- *       Updates an existing todo item. Only the todo owner can update their todos. All fields are optional - only provided fields will be updated.
- *       
- *       **Updatable Fields:**
- *       - `name`: Todo title/name (sanitized)
- *       - `shortDescription`: Detailed description (sanitized)
- *       - `dateTime`: Due date and time
- *       - `isDone`: Completion status (boolean)
+ *       Places a todo between two others in the user's manual order, which `GET /api/todos?sort=position` lists by.
  *       
  *       **Features:**
- *       - Partial updates (only send fields you want to change)
- *       - Input sanitization for text fields
- *       - User ownership validation
- *       - UUID validation for todo ID
+ *       - `before` is the todo that should end up right above it, `after` the one right below; give at least one
+ *       - With only one neighbour, the todo goes directly next to it
+ *       - Only the moved todo changes, so its version is bumped and the rest keep their ETags
  *       
  *       **Authentication Required:**
  *       This endpoint requires a valid JWT access token in the Authorization header.
@@ -287,61 +1955,68 @@ router.get('/todos', (async (req: Request, res: Response, next: NextFunction) =>
  *         schema:
  *           type: string
  *           format: uuid
- *         description: UUID of the todo to update
+ *         description: UUID of the todo to move
  *         example: "123e4567-e89b-12d3-a456-426614174001"
+ *       - in: header
+ *         name: If-Match
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: ETag from a previous response; the move is rejected with 412 if the todo has changed since
+ *         example: '"3"'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/UpdateTodoRequest'
+ *             $ref: '#/components/schemas/MoveTodoRequest'
  *           examples:
- *             complete_todo:
- *               summary: Mark todo as completed
- *               value:
- *                 isDone: true
- *             update_details:
- *               summary: Update todo details
- *               value:
- *                 name: "Complete project documentation (Updated)"
- *                 shortDescription: "Write comprehensive API documentation with examples and testing guide"
- *                 dateTime: "2024-01-21T15:30:00Z"
- *             reschedule:
- *               summary: Reschedule todo
+ *             between:
+ *               summary: Move between two todos
  *               value:
- *                 dateTime: "2024-01-25T10:00:00Z"
- *             full_update:
- *               summary: Update all fields
+ *                 before: "123e4567-e89b-12d3-a456-426614174002"
+ *                 after: "123e4567-e89b-12d3-a456-426614174003"
+ *             to_top:
+ *               summary: Move above the first todo
  *               value:
- *                 name: "Finalize project documentation"
- *                 shortDescription: "Complete and review all API documentation before release"
- *                 dateTime: "2024-01-22T16:00:00Z"
- *                 isDone: false
+ *                 after: "123e4567-e89b-12d3-a456-426614174002"
  *     responses:
  *       200:
- *         description: Todo updated successfully
+ *         description: Todo moved successfully
+ *         headers:
+ *           ETag:
+ *             schema:
+ *               type: string
+ *             description: New version of the todo
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Todo'
- *             example:
- *               id: "123e4567-e89b-12d3-a456-426614174001"
- *               name: "Complete project documentation (Updated)"
- *               shortDescription: "Write comprehensive API documentation with examples and testing guide"
- *               dateTime: "2024-01-21T15:30:00Z"
- *               isDone: false
- *               userId: "123e4567-e89b-12d3-a456-426614174000"
- *               createdAt: "2024-01-15T10:30:00Z"
- *               updatedAt: "2024-01-16T14:20:00Z"
- *               deletedAt: null
  *       400:
- *         description: Invalid todo ID format
+ *         description: Invalid todo ID, neighbours or validation error
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Error'
- *             example:
- *               error: "Invalid ID"
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/ValidationError'
+ *                 - $ref: '#/components/schemas/Error'
+ *             examples:
+ *               invalid_id:
+ *                 summary: Invalid ID
+ *                 value:
+ *                   error: "Invalid ID"
+ *               no_neighbours:
+ *                 summary: Neither neighbour given
+ *                 value:
+ *                   error: "`before` or `after` is required"
+ *               unknown_todo:
+ *                 summary: Neighbour not owned by the user
+ *                 value:
+ *                   error: "Unknown todo"
+ *               wrong_order:
+ *                 summary: Neighbours in the wrong order
+ *                 value:
+ *                   error: "`before` must come before `after`"
  *       401:
  *         description: Unauthorized - Invalid or missing token
  *         content:
@@ -358,6 +2033,12 @@ router.get('/todos', (async (req: Request, res: Response, next: NextFunction) =>
  *               $ref: '#/components/schemas/Error'
  *             example:
  *               error: "Todo not found"
+ *       412:
+ *         description: Precondition failed - the todo was modified since the If-Match version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConflictError'
  *       500:
  *         description: Internal server error
  *         content:
@@ -365,21 +2046,22 @@ router.get('/todos', (async (req: Request, res: Response, next: NextFunction) =>
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *             example:
- *               error: "Failed to update todo"
+ *               error: "Failed to move todo"
  */
-router.put('/todos/:id', (async (req: Request, res: Response, next: NextFunction) => {
+router.post('/todos/:id/move', (async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const user = req.user as User;
     if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
-    const todo = await todoRepo.findOneBy({ id, userId: user.id });
-    if (!todo) return res.status(404).json({ error: 'Todo not found' });
-    if (req.body.name) todo.name = sanitizeHtml(req.body.name);
-    if (req.body.shortDescription) todo.shortDescription = sanitizeHtml(req.body.shortDescription);
-    if (req.body.dateTime) todo.dateTime = new Date(req.body.dateTime);
-    if (typeof req.body.isDone === 'boolean') todo.isDone = req.body.isDone;
-    await todoRepo.save(todo);
-    res.json(todo);
+    if (!isJsonObject(req.body)) return res.status(400).json({ error: 'Request body must be a JSON object' });
+    const dto = plainToInstance(MoveTodoDTO, req.body);
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    if (!dto.before && !dto.after) return res.status(400).json({ error: '`before` or `after` is required' });
+    const result = await updateOwnedTodo(id, user.id, req.get('If-Match'), async (todo, manager) => {
+      todo.position = await movedPosition(manager, todo, dto);
+    });
+    sendTodoUpdate(res, result);
   } catch (err) {
     next(err);
   }
@@ -464,6 +2146,162 @@ router.delete('/todos/:id', (async (req: Request, res: Response, next: NextFunct
     if (!todo) return res.status(404).json({ error: 'Todo not found' });
     await todoRepo.softRemove(todo);
     logger.info('Todo soft-deleted', { todoId: id, performedBy: user.id });
+    await Promise.all([attachTags([todo]), attachReminderOffsets([todo])]);
+    publishTodoEvent(user.id, 'deleted', { id });
+    await queueWebhookEvent(user.id, 'todo.deleted', { todo: webhookTodo(todo) });
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/{id}/restore:
+ *   post:
+ *     summary: Restore a todo from the trash
+ *     description: |
+ *       Restores a soft-deleted todo so it appears in the user's todo list again.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the trashed todo
+ *         example: "123e4567-e89b-12d3-a456-426614174001"
+ *     responses:
+ *       200:
+ *         description: Todo restored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Todo'
+ *       400:
+ *         description: Invalid todo ID format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid ID"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Todo not in the trash or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Todo not found in trash"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to restore todo"
+ */
+router.post('/todos/:id/restore', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    const todo = await todoRepo.findOne({ where: { id, userId: user.id, deletedAt: Not(IsNull()) }, withDeleted: true });
+    if (!todo) return res.status(404).json({ error: 'Todo not found in trash' });
+    await todoRepo.recover(todo);
+    await attachTodoDetails([todo]);
+    publishTodoEvent(user.id, 'created', streamTodo(todo));
+    logger.info('Todo restored', { todoId: id, performedBy: user.id });
+    res.json(todo);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/todos/{id}/permanent:
+ *   delete:
+ *     summary: Permanently delete a trashed todo
+ *     description: |
+ *       Permanently removes a todo that is already in the trash. This cannot be undone. Todos that have not been moved to the trash first must be deleted with `DELETE /api/todos/{id}`.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Todos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the trashed todo
+ *         example: "123e4567-e89b-12d3-a456-426614174001"
+ *     responses:
+ *       204:
+ *         description: Todo permanently deleted (no content returned)
+ *       400:
+ *         description: Invalid todo ID format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid ID"
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ *       404:
+ *         description: Todo not in the trash or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Todo not found in trash"
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Failed to delete todo"
+ */
+router.delete('/todos/:id/permanent', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const user = req.user as User;
+    if (!isUUID(id)) { res.status(400).json({ error: 'Invalid ID' }); return; }
+    const todo = await todoRepo.findOne({ where: { id, userId: user.id, deletedAt: Not(IsNull()) }, withDeleted: true });
+    if (!todo) return res.status(404).json({ error: 'Todo not found in trash' });
+    await todoRepo.remove(todo);
+    publishTodoEvent(user.id, 'deleted', { id });
+    logger.info('Todo permanently deleted', { todoId: id, performedBy: user.id });
     res.status(204).send();
   } catch (err) {
     next(err);
@@ -0,0 +1,504 @@
+import { Router, Request, Response, NextFunction, type RequestHandler } from 'express';
+import { isUUID, ArrayNotEmpty, ArrayUnique, IsArray, IsBoolean, IsIn, IsOptional, IsUrl, MaxLength, ValidateIf } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { AppDataSource } from '../config/db';
+import logger from '../config/logger';
+import { User } from '../entities/User.entity';
+import { Webhook, WEBHOOK_EVENTS, type WebhookEvent } from '../entities/Webhook.entity';
+import { WebhookDelivery } from '../entities/WebhookDelivery.entity';
+import { queueTestDelivery } from '../jobs/deliverWebhooks';
+import { paginate, parseLimit, type SortKey } from '../utils/pagination';
+import { generateToken } from '../utils/tokens';
+import { formatValidationErrors, isJsonObject } from '../utils/validation';
+
+const router = Router();
+const webhookRepo = AppDataSource.getRepository(Webhook);
+const deliveryRepo = AppDataSource.getRepository(WebhookDelivery);
+
+const MAX_WEBHOOKS_PER_USER = 10;
+const URL_OPTIONS = { protocols: ['http', 'https'], require_protocol: true, require_tld: false };
+const DELIVERY_SORT_KEYS: SortKey[] = [{ column: 'delivery.createdAt', key: 'createdAt', order: 'DESC', type: 'date' }];
+
+// DTO for registering a webhook
+class CreateWebhookDTO {
+  @IsUrl(URL_OPTIONS, { message: 'url must be an http(s) URL' })
+  @MaxLength(2048)
+  url!: string;
+
+  // Defaults to every event
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events?: WebhookEvent[];
+}
+
+// DTO for partially updating a webhook
+class UpdateWebhookDTO {
+  @ValidateIf((_, value) => value !== undefined)
+  @IsUrl(URL_OPTIONS, { message: 'url must be an http(s) URL' })
+  @MaxLength(2048)
+  url?: string;
+
+  @ValidateIf((_, value) => value !== undefined)
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events?: WebhookEvent[];
+
+  @ValidateIf((_, value) => value !== undefined)
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+// A webhook as listed or updated; its secret is only sent when it is created or rotated
+function withoutSecret(webhook: Webhook): Omit<Webhook, 'secret'> {
+  const { secret: _secret, ...rest } = webhook;
+  return rest;
+}
+
+// Load one of the user's webhooks, answering 400/404 itself when there is none
+async function findOwnedWebhook(req: Request, res: Response): Promise<Webhook | null> {
+  const { id } = req.params;
+  const user = req.user as User;
+  if (!isUUID(id)) {
+    res.status(400).json({ error: 'Invalid ID' });
+    return null;
+  }
+  const webhook = await webhookRepo.findOneBy({ id, userId: user.id });
+  if (!webhook) res.status(404).json({ error: 'Webhook not found' });
+  return webhook;
+}
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   get:
+ *     summary: List the user's webhooks
+ *     description: |
+ *       Retrieves the authenticated user's webhooks, oldest first. Signing secrets are left out; one is only returned when a webhook is created or its secret is rotated.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhooks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Webhook'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.get('/webhooks', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user as User;
+    const webhooks = await webhookRepo.find({ where: { userId: user.id }, order: { createdAt: 'ASC' } });
+    res.json(webhooks.map(withoutSecret));
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   post:
+ *     summary: Register a webhook
+ *     description: |
+ *       Subscribes a URL to todo events. The response includes a generated `secret`; every delivery is signed with it.
+ *       
+ *       **Deliveries:**
+ *       - `POST` with a JSON body `{ id, event, createdAt, data: { todo } }`
+ *       - Headers `X-Webhook-Id`, `X-Webhook-Event`, `X-Webhook-Timestamp` and `X-Webhook-Signature: sha256=<hex>`, the HMAC-SHA256 of `<timestamp>.<body>` keyed with the secret
+ *       - Any 2xx response counts as delivered; anything else (or no answer within 10 seconds) is retried with exponential backoff, up to 6 attempts
+ *       
+ *       **Events:** `todo.created`, `todo.updated`, `todo.completed` (sent alongside `todo.updated`), `todo.deleted`. Omit `events` to subscribe to all of them.
+ *       
+ *       At most 10 webhooks per user.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - url
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *                 example: "http://localhost:4000/hooks/todos"
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [todo.created, todo.updated, todo.completed, todo.deleted]
+ *                 example: ["todo.created", "todo.completed"]
+ *     responses:
+ *       201:
+ *         description: Webhook registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Webhook'
+ *       400:
+ *         description: Validation error or webhook limit reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Authorization header required"
+ */
+router.post('/webhooks', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const dto = plainToInstance(CreateWebhookDTO, req.body);
+    const errors = await validate(dto);
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    const user = req.user as User;
+    const count = await webhookRepo.countBy({ userId: user.id });
+    if (count >= MAX_WEBHOOKS_PER_USER) {
+      return res.status(400).json({ error: `You can register at most ${MAX_WEBHOOKS_PER_USER} webhooks` });
+    }
+    const webhook = webhookRepo.create({
+      url: dto.url,
+      events: dto.events ?? [...WEBHOOK_EVENTS],
+      secret: generateToken(),
+      userId: user.id,
+    });
+    await webhookRepo.save(webhook);
+    logger.info('Webhook registered', { webhookId: webhook.id, performedBy: user.id });
+    res.status(201).json(webhook);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   patch:
+ *     summary: Update a webhook
+ *     description: |
+ *       Changes a webhook's URL, events or active flag. Only the fields sent are changed. Inactive webhooks receive nothing but keep their delivery log.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [todo.created, todo.updated, todo.completed, todo.deleted]
+ *               isActive:
+ *                 type: boolean
+ *           example:
+ *             isActive: false
+ *     responses:
+ *       200:
+ *         description: Webhook updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Webhook'
+ *       400:
+ *         description: Invalid ID or validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Webhook not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Webhook not found"
+ */
+router.patch('/webhooks/:id', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!isJsonObject(req.body)) return res.status(400).json({ error: 'Request body must be a JSON object' });
+    const dto = plainToInstance(UpdateWebhookDTO, req.body);
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length > 0) return res.status(400).json({ errors: formatValidationErrors(errors) });
+    const webhook = await findOwnedWebhook(req, res);
+    if (!webhook) return;
+    if (dto.url !== undefined) webhook.url = dto.url;
+    if (dto.events !== undefined) webhook.events = dto.events;
+    if (dto.isActive !== undefined) webhook.isActive = dto.isActive;
+    await webhookRepo.save(webhook);
+    res.json(withoutSecret(webhook));
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/secret:
+ *   post:
+ *     summary: Rotate a webhook's signing secret
+ *     description: |
+ *       Replaces the secret deliveries are signed with. Deliveries sent from now on, retries included, use the new secret.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Webhook with its new secret
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Webhook'
+ *       404:
+ *         description: Webhook not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Webhook not found"
+ */
+router.post('/webhooks/:id/secret', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const webhook = await findOwnedWebhook(req, res);
+    if (!webhook) return;
+    webhook.secret = generateToken();
+    await webhookRepo.save(webhook);
+    logger.info('Webhook secret rotated', { webhookId: webhook.id, performedBy: webhook.userId });
+    res.json(webhook);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}:
+ *   delete:
+ *     summary: Delete a webhook
+ *     description: |
+ *       Removes a webhook together with its delivery log. Pending retries are dropped.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Webhook deleted
+ *       404:
+ *         description: Webhook not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Webhook not found"
+ */
+router.delete('/webhooks/:id', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const webhook = await findOwnedWebhook(req, res);
+    if (!webhook) return;
+    await webhookRepo.remove(webhook);
+    logger.info('Webhook deleted', { webhookId: req.params.id, performedBy: (req.user as User).id });
+    res.status(204).send();
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/test:
+ *   post:
+ *     summary: Send a test event
+ *     description: |
+ *       Queues a `ping` delivery to the webhook, even when it is inactive, and returns it. Poll the delivery log for the outcome.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       202:
+ *         description: Test delivery queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Webhook not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Webhook not found"
+ */
+router.post('/webhooks/:id/test', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const webhook = await findOwnedWebhook(req, res);
+    if (!webhook) return;
+    const delivery = await queueTestDelivery(webhook);
+    res.status(202).json(delivery);
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+/**
+ * @swagger
+ * /api/webhooks/{id}/deliveries:
+ *   get:
+ *     summary: List a webhook's deliveries
+ *     description: |
+ *       The webhook's delivery log, newest first, one page at a time. Each entry has the payload sent, its status (`pending` while retries remain, then `succeeded` or `failed`), the number of attempts and the outcome of the latest one. Finished deliveries are kept for 30 days.
+ *       
+ *       **Authentication Required:**
+ *       This endpoint requires a valid JWT access token in the Authorization header.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from a previous page's `nextCursor` or `prevCursor`
+ *     responses:
+ *       200:
+ *         description: One page of deliveries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookDelivery'
+ *                 limit:
+ *                   type: integer
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                 prevCursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         description: Invalid ID or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Invalid cursor"
+ *       404:
+ *         description: Webhook not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: "Webhook not found"
+ */
+router.get('/webhooks/:id/deliveries', (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const webhook = await findOwnedWebhook(req, res);
+    if (!webhook) return;
+    const qb = deliveryRepo.createQueryBuilder('delivery').where('delivery.webhookId = :webhookId', { webhookId: webhook.id });
+    const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : undefined;
+    res.json(await paginate(qb, DELIVERY_SORT_KEYS, parseLimit(req.query.limit), cursor));
+  } catch (err) {
+    next(err);
+  }
+}) as RequestHandler);
+
+export default router;
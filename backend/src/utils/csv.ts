@@ -0,0 +1,89 @@
+// Cells a spreadsheet would evaluate as a formula (CSV injection). Values that already start with
+// apostrophes before one are guarded too, so import can tell the guard from a real leading apostrophe.
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+
+// Quote a value for RFC 4180 CSV, neutralising leading formula characters
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Undo the formula guard csvCell() adds, so exported files import unchanged
+function uncsvCell(text: string): string {
+  return /^'+[=+\-@\t\r]/.test(text) ? text.slice(1) : text;
+}
+
+export function csvRow(values: unknown[]): string {
+  return values.map(csvCell).join(',') + '\r\n';
+}
+
+export interface CsvRecord {
+  // 1-based line the record starts on, for error reports
+  line: number;
+  values: Record<string, string>;
+}
+
+export class InvalidCsvError extends Error {
+  status = 400;
+  constructor(message = 'Invalid CSV file') {
+    super(message);
+  }
+}
+
+/**
+ * Parses RFC 4180 CSV with a header row into records keyed by column name.
+ * Quoted cells may contain commas, quotes ("") and line breaks; blank lines are skipped.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== '') rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) throw new InvalidCsvError('Unterminated quoted field');
+  if (cell !== '' || cells.length > 0) endRow();
+
+  const [header, ...records] = rows;
+  if (!header) throw new InvalidCsvError('CSV file is empty');
+  const columns = header.cells.map(name => name.trim());
+  return records.map(({ line: recordLine, cells: values }) => ({
+    line: recordLine,
+    values: Object.fromEntries(columns.map((column, i) => [column, uncsvCell(values[i] ?? '')])),
+  }));
+}
@@ -0,0 +1,18 @@
+// Strong ETag for a versioned entity, e.g. "3"
+export function versionETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Evaluates an If-Match header against the current ETag.
+ *
+ * A missing header always passes so clients that don't track versions keep
+ * working. Weak validators (W/"...") never match, as required for If-Match.
+ */
+export function ifMatchSatisfied(header: string | undefined, etag: string): boolean {
+  if (header === undefined) return true;
+  return header
+    .split(',')
+    .map(tag => tag.trim())
+    .some(tag => tag === '*' || tag === etag);
+}
@@ -0,0 +1,175 @@
+import { Todo, TodoStatus } from '../entities/Todo.entity';
+import { fromZonedTime, isValidTimeZone } from './timezone';
+
+export type CalendarComponent = 'VEVENT' | 'VTODO';
+
+// Length of the VEVENT block a todo occupies in calendar views
+const EVENT_DURATION = 'PT30M';
+const MAX_LINE_OCTETS = 75;
+// Right-hand side of every UID, keeping them globally unique without depending on the request host
+const UID_DOMAIN = 'todoapp';
+
+// RFC 5545 TEXT escaping: backslash, semicolon, comma and newlines
+export function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// UTC DATE-TIME, e.g. 20240120T153000Z
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Split a content line into 75-octet chunks, continuation lines starting with a space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function todoComponent(todo: Todo, component: CalendarComponent): string[] {
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${todo.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(todo.updatedAt)}`,
+    `LAST-MODIFIED:${formatDateTime(todo.updatedAt)}`,
+    `SEQUENCE:${todo.version}`,
+    `SUMMARY:${escapeText(todo.name)}`,
+  ];
+  if (todo.shortDescription) lines.push(`DESCRIPTION:${escapeText(todo.shortDescription)}`);
+  if (component === 'VEVENT') {
+    lines.push(`DTSTART:${formatDateTime(todo.dateTime)}`, `DURATION:${EVENT_DURATION}`);
+    if (todo.isDone) lines.push('TRANSP:TRANSPARENT');
+  } else {
+    const status = todo.isDone ? 'COMPLETED' : todo.status === TodoStatus.IN_PROGRESS ? 'IN-PROCESS' : 'NEEDS-ACTION';
+    lines.push(`DUE:${formatDateTime(todo.dateTime)}`, `STATUS:${status}`);
+    if (todo.isDone && todo.completedAt) lines.push(`COMPLETED:${formatDateTime(todo.completedAt)}`);
+  }
+  // Only the open todo carries the rule; completed occurrences are fixed points in the past
+  if (todo.recurrence && !todo.isDone) lines.push(`RRULE:${todo.recurrence}`);
+  lines.push(`END:${component}`);
+  return lines;
+}
+
+/**
+ * Renders todos as an iCalendar (RFC 5545) document, one VEVENT or VTODO per todo.
+ * Lines are CRLF-terminated and folded at 75 octets as the spec requires.
+ */
+export function renderCalendar(todos: Todo[], component: CalendarComponent, name: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TodoApp//Todos//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...todos.flatMap(todo => todoComponent(todo, component)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// One property of a parsed component, e.g. DTSTART;TZID=Europe/Berlin:20240120T090000
+export interface CalendarProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ParsedComponent {
+  type: CalendarComponent;
+  // First occurrence of each property, keyed by upper-case name
+  properties: Record<string, CalendarProperty>;
+}
+
+export class InvalidCalendarError extends Error {
+  status = 400;
+  constructor(message = 'Invalid iCalendar file') {
+    super(message);
+  }
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Split "NAME;PARAM=x;PARAM2="y:z":value" into its parts, honouring quoted parameter values
+function parseContentLine(line: string): { name: string; property: CalendarProperty } | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 1) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), property: { params, value: line.slice(colon + 1) } };
+}
+
+/**
+ * Reads the VEVENT and VTODO components out of an iCalendar document. Lines are
+ * unfolded first; components nested inside them (such as VALARM) are skipped, and
+ * anything outside a VCALENDAR is rejected.
+ */
+export function parseCalendar(text: string): ParsedComponent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines[0]?.trim().toUpperCase() !== 'BEGIN:VCALENDAR') throw new InvalidCalendarError();
+  const components: ParsedComponent[] = [];
+  let current: ParsedComponent | null = null;
+  let nested = 0;
+  for (const line of lines) {
+    const parsed = parseContentLine(line);
+    if (!parsed) continue;
+    const { name, property } = parsed;
+    const value = property.value.trim().toUpperCase();
+    if (name === 'BEGIN') {
+      if (current) nested += 1;
+      else if (value === 'VEVENT' || value === 'VTODO') current = { type: value, properties: {} };
+    } else if (name === 'END') {
+      if (nested > 0) nested -= 1;
+      else if (current && value === current.type) {
+        components.push(current);
+        current = null;
+      }
+    } else if (current && nested === 0 && !(name in current.properties)) {
+      current.properties[name] = property;
+    }
+  }
+  return components;
+}
+
+/**
+ * Converts a DATE or DATE-TIME property to an instant. UTC values ("...Z") are
+ * taken as is, TZID values are read in that zone, and floating times and all-day
+ * dates are read in `fallbackTimeZone`. Returns null for values it cannot read.
+ */
+export function parseCalendarDate(property: CalendarProperty, fallbackTimeZone: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(property.value.trim());
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  const parts = [year, month, day, hour, minute, second].map(Number) as [number, number, number, number, number, number];
+  if (parts[1] < 1 || parts[1] > 12 || parts[2] < 1 || parts[2] > 31 || parts[3] > 23 || parts[4] > 59 || parts[5] > 60) return null;
+  if (utc) return new Date(Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]));
+  const timeZone = property.params.TZID && isValidTimeZone(property.params.TZID) ? property.params.TZID : fallbackTimeZone;
+  const date = fromZonedTime(...parts, timeZone);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
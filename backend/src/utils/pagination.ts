@@ -0,0 +1,128 @@
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+export type CursorDirection = 'next' | 'prev';
+
+// A sort key the cursor is built from, e.g. { column: 'todo.dateTime', key: 'dateTime', order: 'ASC', type: 'date' }
+export interface SortKey {
+  column: string;
+  key: string;
+  order: 'ASC' | 'DESC';
+  type?: 'date' | 'number' | 'string';
+  // Derive the cursor value from a row when `column` is an expression rather than the `key` property
+  cursorValue?: (row: ObjectLiteral) => string | number | null;
+}
+
+interface CursorPayload {
+  values: Record<string, string | number | null>;
+  id: string;
+  direction: CursorDirection;
+}
+
+export interface Page<T> {
+  data: T[];
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export class InvalidCursorError extends Error {
+  status = 400;
+  constructor() {
+    super('Invalid cursor');
+  }
+}
+
+// Parse the `limit` query param, clamping it to [1, MAX_PAGE_LIMIT]
+export function parseLimit(raw: unknown): number {
+  const limit = parseInt(String(raw ?? ''), 10);
+  if (Number.isNaN(limit) || limit < 1) return DEFAULT_PAGE_LIMIT;
+  return Math.min(limit, MAX_PAGE_LIMIT);
+}
+
+function serializeValue(value: unknown): string | number | null {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined || value === null) return null;
+  return value as string | number;
+}
+
+export function encodeCursor(row: ObjectLiteral, sortKeys: SortKey[], direction: CursorDirection): string {
+  const values: CursorPayload['values'] = {};
+  for (const { key, cursorValue } of sortKeys) values[key] = cursorValue ? cursorValue(row) : serializeValue(row[key]);
+  const payload: CursorPayload = { values, id: row.id, direction };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, sortKeys: SortKey[]): CursorPayload {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as CursorPayload;
+    if (typeof payload.id !== 'string' || !payload.values) throw new InvalidCursorError();
+    if (payload.direction !== 'next' && payload.direction !== 'prev') throw new InvalidCursorError();
+    if (sortKeys.some(({ key }) => !(key in payload.values))) throw new InvalidCursorError();
+    return payload;
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+/**
+ * Applies keyset pagination to a query builder and resolves one page.
+ *
+ * The `id` column is always appended as the final tiebreaker so rows sharing the
+ * same sort values are never skipped or repeated. Cursors are opaque base64url
+ * strings and carry the direction they page in.
+ */
+export async function paginate<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  sortKeys: SortKey[],
+  limit: number,
+  cursor?: string,
+): Promise<Page<T>> {
+  const alias = qb.alias;
+  const payload = cursor ? decodeCursor(cursor, sortKeys) : undefined;
+  const backward = payload?.direction === 'prev';
+  const flip = (order: 'ASC' | 'DESC') => (backward ? (order === 'ASC' ? 'DESC' : 'ASC') : order);
+
+  if (payload) {
+    // (a > x) OR (a = x AND b > y) OR (a = x AND b = y AND id > z)
+    const keys: SortKey[] = [...sortKeys, { column: `${alias}.id`, key: 'id', order: 'ASC' }];
+    const values: CursorPayload['values'] = { ...payload.values, id: payload.id };
+    const clauses = keys.map((current, i) => {
+      const equals = keys.slice(0, i).map(({ column, key }) => `${column} = :cursor_${key}`);
+      const op = flip(current.order) === 'ASC' ? '>' : '<';
+      return [...equals, `${current.column} ${op} :cursor_${current.key}`].join(' AND ');
+    });
+    qb.andWhere(`(${clauses.map(c => `(${c})`).join(' OR ')})`);
+    for (const { key, type } of keys) {
+      const value = values[key];
+      qb.setParameter(`cursor_${key}`, type === 'date' && value !== null ? new Date(value) : value);
+    }
+  }
+
+  sortKeys.forEach(({ column, order }, i) => {
+    if (i === 0) qb.orderBy(column, flip(order));
+    else qb.addOrderBy(column, flip(order));
+  });
+  qb.addOrderBy(`${alias}.id`, flip('ASC'));
+
+  const rows = await qb.take(limit + 1).getMany();
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+  if (backward) data.reverse();
+
+  const first = data[0];
+  const last = data[data.length - 1];
+  // Going forward there is a previous page whenever we started from a cursor;
+  // going backward there is always a next page (the one we came from).
+  const hasNext = backward ? Boolean(payload) : hasMore;
+  const hasPrev = backward ? hasMore : Boolean(payload);
+
+  return {
+    data,
+    limit,
+    nextCursor: hasNext && last ? encodeCursor(last, sortKeys, 'next') : null,
+    prevCursor: hasPrev && first ? encodeCursor(first, sortKeys, 'prev') : null,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Fractional ranks for manual ordering: strings that sort byte by byte, with a
+ * new one always available between any two. A rank is an integer part, whose
+ * first character gives its length, followed by an optional fraction. Appending
+ * steps the integer part, so ranks stay short when items are added at the end;
+ * only repeated inserts into the same gap make them grow.
+ */
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const ZERO = DIGITS[0];
+const LARGEST_DIGIT = DIGITS[DIGITS.length - 1];
+// The lowest integer part; nothing may sort before it, so it only ever appears with a fraction
+const SMALLEST_INTEGER = `A${ZERO.repeat(26)}`;
+
+export class InvalidRankError extends Error {
+  constructor(rank: string) {
+    super(`Invalid rank: ${rank}`);
+  }
+}
+
+// 'a'-'z' head integer parts of 2-27 characters, 'A'-'Z' ones of 27-2 characters
+function integerLength(head: string): number {
+  if (head >= 'a' && head <= 'z') return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+  if (head >= 'A' && head <= 'Z') return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+  return 0;
+}
+
+function splitRank(rank: string): [integer: string, fraction: string] {
+  const length = integerLength(rank[0] ?? '');
+  const valid =
+    length > 0 &&
+    length <= rank.length &&
+    rank !== SMALLEST_INTEGER &&
+    [...rank.slice(1)].every(char => DIGITS.includes(char)) &&
+    // A fraction never ends in ZERO, or nothing could go right before it
+    !(rank.length > length && rank.endsWith(ZERO));
+  if (!valid) throw new InvalidRankError(rank);
+  return [rank.slice(0, length), rank.slice(length)];
+}
+
+// A fraction strictly between `a` and `b` (null: no upper bound); neither may end in ZERO
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    let shared = 0;
+    while ((a[shared] ?? ZERO) === b[shared]) shared++;
+    if (shared > 0) return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared));
+  }
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+  // Adjacent digits: go one place deeper
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+function incrementInteger(integer: string): string | null {
+  const [head, ...digits] = integer.split('');
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const next = DIGITS.indexOf(digits[i]) + 1;
+    if (next < DIGITS.length) {
+      digits[i] = DIGITS[next];
+      return head + digits.join('');
+    }
+    digits[i] = ZERO;
+  }
+  // Every digit carried over: move to the next head, which is one digit longer (or shorter below 'a')
+  if (head === 'Z') return `a${ZERO}`;
+  if (head === 'z') return null;
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > 'a') digits.push(ZERO);
+  else digits.pop();
+  return nextHead + digits.join('');
+}
+
+function decrementInteger(integer: string): string | null {
+  const [head, ...digits] = integer.split('');
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const previous = DIGITS.indexOf(digits[i]) - 1;
+    if (previous >= 0) {
+      digits[i] = DIGITS[previous];
+      return head + digits.join('');
+    }
+    digits[i] = LARGEST_DIGIT;
+  }
+  if (head === 'a') return `Z${LARGEST_DIGIT}`;
+  if (head === 'A') return null;
+  const previousHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (previousHead < 'Z') digits.push(LARGEST_DIGIT);
+  else digits.pop();
+  return previousHead + digits.join('');
+}
+
+/**
+ * A rank sorting strictly between `before` and `after`; null leaves that side
+ * open, so rankBetween(last, null) appends and rankBetween(null, null) starts
+ * a list. Throws InvalidRankError for malformed ranks or `before >= after`.
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+  const lower = before === null ? null : splitRank(before);
+  const upper = after === null ? null : splitRank(after);
+  if (before !== null && after !== null && before >= after) throw new InvalidRankError(`${before} >= ${after}`);
+
+  if (!lower) {
+    if (!upper) return `a${ZERO}`;
+    const [integer, fraction] = upper;
+    if (integer === SMALLEST_INTEGER) return integer + midpoint('', fraction);
+    if (fraction) return integer;
+    const previous = decrementInteger(integer);
+    if (previous === null) throw new InvalidRankError(integer);
+    return previous;
+  }
+
+  const [integer, fraction] = lower;
+  if (!upper) {
+    const next = incrementInteger(integer);
+    return next === null ? integer + midpoint(fraction, null) : next;
+  }
+  if (integer === upper[0]) return integer + midpoint(fraction, upper[1]);
+  const next = incrementInteger(integer);
+  if (next !== null && next < upper.join('')) return next;
+  return integer + midpoint(fraction, null);
+}
@@ -0,0 +1,91 @@
+import { RRule } from 'rrule';
+import { registerDecorator, ValidationOptions } from 'class-validator';
+
+// Upper bound on how many upcoming occurrences a client can ask for at once
+export const MAX_OCCURRENCES = 50;
+
+// Sub-daily rules would flood the list with todos, so they are not accepted
+const ALLOWED_FREQUENCIES = [RRule.YEARLY, RRule.MONTHLY, RRule.WEEKLY, RRule.DAILY];
+
+class InvalidRecurrenceError extends Error {
+  status = 400;
+  constructor() {
+    super('Invalid recurrence rule');
+  }
+}
+
+/**
+ * Parses an RFC 5545 RRULE (with or without the "RRULE:" prefix) and returns it in
+ * canonical form, e.g. "FREQ=WEEKLY;BYDAY=MO,WE". DTSTART is rejected because a
+ * todo's own dateTime is the start of its series.
+ */
+export function normalizeRecurrence(raw: string): string {
+  const value = raw.trim().replace(/^RRULE:/i, '');
+  if (!value || /DTSTART|[\r\n]/i.test(value)) throw new InvalidRecurrenceError();
+  try {
+    const options = RRule.parseString(value);
+    if (options.freq === undefined || !ALLOWED_FREQUENCIES.includes(options.freq)) throw new InvalidRecurrenceError();
+    if (options.count !== undefined && options.count !== null && options.count < 1) throw new InvalidRecurrenceError();
+    if (options.interval !== undefined && !(options.interval >= 1)) throw new InvalidRecurrenceError();
+    // The parser lets unrecognised values through (BYDAY=XX becomes undefined, BYMONTHDAY=abc stays a string)
+    const numbers = [options.bymonthday, options.bymonth, options.bysetpos].flat().filter(entry => entry !== undefined);
+    if (!numbers.every(Number.isInteger)) throw new InvalidRecurrenceError();
+    if (Array.isArray(options.byweekday) && options.byweekday.some(day => day === undefined)) throw new InvalidRecurrenceError();
+    return RRule.optionsToString(options).replace(/^RRULE:/, '');
+  } catch {
+    throw new InvalidRecurrenceError();
+  }
+}
+
+/**
+ * Lists up to `limit` occurrences that follow the one at `dtstart`. Rules are
+ * evaluated in UTC, and COUNT includes the occurrence at `dtstart` itself.
+ */
+export function upcomingOccurrences(rule: string, dtstart: Date, limit: number): Date[] {
+  const { count, ...options } = RRule.parseString(rule);
+  const remaining = count ? Math.min(limit, count - 1) : limit;
+  const rrule = new RRule({ ...options, dtstart });
+  const dates: Date[] = [];
+  let cursor = dtstart;
+  while (dates.length < remaining) {
+    const next = rrule.after(cursor, false);
+    if (!next) break;
+    dates.push(next);
+    cursor = next;
+  }
+  return dates;
+}
+
+/**
+ * The occurrence after the one at `dtstart`, with the rule it should carry
+ * (COUNT is decremented so the series still ends where it would have).
+ */
+export function nextOccurrence(rule: string, dtstart: Date): { dateTime: Date; recurrence: string } | null {
+  const [dateTime] = upcomingOccurrences(rule, dtstart, 1);
+  if (!dateTime) return null;
+  const options = RRule.parseString(rule);
+  if (!options.count) return { dateTime, recurrence: rule };
+  return { dateTime, recurrence: RRule.optionsToString({ ...options, count: options.count - 1 }).replace(/^RRULE:/, '') };
+}
+
+// class-validator decorator accepting anything normalizeRecurrence() accepts
+export function IsRecurrenceRule(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) =>
+    registerDecorator({
+      name: 'isRecurrenceRule',
+      target: object.constructor,
+      propertyName,
+      options: { message: `${propertyName} must be a daily, weekly, monthly or yearly RFC 5545 RRULE`, ...validationOptions },
+      validator: {
+        validate(value: unknown) {
+          if (typeof value !== 'string') return false;
+          try {
+            normalizeRecurrence(value);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+      },
+    });
+}
@@ -0,0 +1,58 @@
+// Characters with special meaning in MySQL boolean-mode full-text queries
+const BOOLEAN_OPERATORS = /[+\-<>()~*"@]/g;
+
+const SNIPPET_RADIUS = 60;
+
+export interface ParsedSearch {
+  // Query string to pass to MATCH ... AGAINST (... IN BOOLEAN MODE)
+  booleanQuery: string;
+  // Plain words and phrases, used for highlighting
+  terms: string[];
+}
+
+/**
+ * Turns free text into a boolean-mode query where every word is required and
+ * prefix-matched ("proj doc" -> "+proj* +doc*"). Quoted phrases are kept as
+ * exact phrases. Operators typed by the user are stripped so they can never
+ * produce a syntax error.
+ */
+export function parseSearchQuery(raw: string): ParsedSearch {
+  const terms: string[] = [];
+  const parts: string[] = [];
+  const tokenizer = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokenizer.exec(raw)) !== null) {
+    const phrase = match[1]?.replace(BOOLEAN_OPERATORS, ' ').trim();
+    if (phrase) {
+      terms.push(phrase);
+      parts.push(`+"${phrase}"`);
+      continue;
+    }
+    const word = match[2]?.replace(BOOLEAN_OPERATORS, '').trim();
+    if (word) {
+      terms.push(word);
+      parts.push(`+${word}*`);
+    }
+  }
+  return { booleanQuery: parts.join(' '), terms };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds a short excerpt of `text` around the first matching term, with every
+ * match wrapped in <mark></mark>. Returns null when nothing in the text matches.
+ */
+export function highlight(text: string, terms: string[]): string | null {
+  if (!text || terms.length === 0) return null;
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+  const first = pattern.exec(text);
+  if (!first) return null;
+
+  const start = Math.max(0, first.index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first.index + first[0].length + SNIPPET_RADIUS);
+  const excerpt = text.slice(start, end).replace(pattern, found => `<mark>${found}</mark>`);
+  return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`;
+}
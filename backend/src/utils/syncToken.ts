@@ -0,0 +1,45 @@
+// Position in a user's change feed, ordered by (updatedAt, id)
+export interface SyncPosition {
+  since: Date;
+  // Set while a sync is paging through rows that share or follow `since`; the next page starts right after this row
+  afterId?: string;
+}
+
+interface SyncTokenPayload {
+  t: string;
+  id?: string;
+}
+
+export class InvalidSyncTokenError extends Error {
+  status = 400;
+  constructor() {
+    super('Invalid sync token');
+  }
+}
+
+export function encodeSyncToken({ since, afterId }: SyncPosition): string {
+  const payload: SyncTokenPayload = { t: since.toISOString(), ...(afterId && { id: afterId }) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Reads `since` as a token from an earlier sync, or as a plain timestamp
+ * (ISO 8601 or milliseconds since the epoch) for clients starting from a date.
+ */
+export function parseSince(raw: string): SyncPosition {
+  if (/^\d+$/.test(raw)) return { since: new Date(Number(raw)) };
+  if (/^\d{4}-\d{2}-\d{2}/.test(raw)) {
+    const since = new Date(raw);
+    if (Number.isNaN(since.getTime())) throw new InvalidSyncTokenError();
+    return { since };
+  }
+  try {
+    const payload = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8')) as SyncTokenPayload;
+    const since = new Date(payload.t);
+    if (typeof payload.t !== 'string' || Number.isNaN(since.getTime())) throw new InvalidSyncTokenError();
+    if (payload.id !== undefined && typeof payload.id !== 'string') throw new InvalidSyncTokenError();
+    return { since, afterId: payload.id };
+  } catch {
+    throw new InvalidSyncTokenError();
+  }
+}
@@ -0,0 +1,79 @@
+import { registerDecorator, ValidationOptions } from 'class-validator';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ZonedParts {
+  // Local calendar date, YYYY-MM-DD
+  date: string;
+  hour: number;
+  // 0 = Sunday … 6 = Saturday
+  weekday: number;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function localFields(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return { year: field('year'), month: field('month'), day: field('day'), hour: field('hour'), minute: field('minute'), second: field('second') };
+}
+
+// How far `timeZone` is ahead of UTC at `instant`, in milliseconds
+function zoneOffset(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = localFields(instant, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+export function zonedParts(instant: Date, timeZone: string): ZonedParts {
+  const { year, month, day, hour } = localFields(instant, timeZone);
+  const date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return { date, hour, weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay() };
+}
+
+/**
+ * The UTC instant a local wall-clock time in `timeZone` falls on. The offset is
+ * re-read at the result so DST changes between the guess and the answer are
+ * accounted for.
+ */
+export function fromZonedTime(year: number, month: number, day: number, hour: number, minute: number, second: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second);
+  const first = guess - zoneOffset(new Date(guess), timeZone);
+  return new Date(guess - zoneOffset(new Date(first), timeZone));
+}
+
+// The UTC instant local midnight of `date` (YYYY-MM-DD) falls on in `timeZone`, shifted by `days`
+export function zonedDayStart(date: string, timeZone: string, days = 0): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+  return fromZonedTime(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate(), 0, 0, 0, timeZone);
+}
+
+// class-validator decorator accepting IANA time zone names the runtime knows
+export function IsTimeZone(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) =>
+    registerDecorator({
+      name: 'isTimeZone',
+      target: object.constructor,
+      propertyName,
+      options: { message: `${propertyName} must be an IANA time zone such as "Europe/Berlin"`, ...validationOptions },
+      validator: {
+        validate: (value: unknown) => typeof value === 'string' && isValidTimeZone(value),
+      },
+    });
+}
@@ -0,0 +1,59 @@
+import { EventEmitter } from 'events';
+
+export type TodoEventType = 'created' | 'updated' | 'deleted';
+
+export interface TodoEvent {
+  // "<boot id>-<sequence>", sent as the SSE event ID
+  id: string;
+  seq: number;
+  userId: string;
+  type: TodoEventType;
+  data: unknown;
+}
+
+// Recent events kept for Last-Event-ID resume, across all users
+const BUFFER_SIZE = 1000;
+// Distinguishes IDs from an earlier run of the server, whose sequence numbers mean nothing now
+const BOOT_ID = Date.now().toString(36);
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+const buffer: TodoEvent[] = [];
+let seq = 0;
+
+// ID of the newest event, or of the starting point when nothing has happened yet
+export function latestEventId(): string {
+  return `${BOOT_ID}-${seq}`;
+}
+
+// Tell the user's open event streams about a change to one of their todos
+export function publishTodoEvent(userId: string, type: TodoEventType, data: unknown): void {
+  seq += 1;
+  const event: TodoEvent = { id: `${BOOT_ID}-${seq}`, seq, userId, type, data };
+  buffer.push(event);
+  if (buffer.length > BUFFER_SIZE) buffer.shift();
+  emitter.emit(userId, event);
+}
+
+// Returns the function that unsubscribes
+export function subscribeTodoEvents(userId: string, listener: (event: TodoEvent) => void): () => void {
+  emitter.on(userId, listener);
+  return () => {
+    emitter.off(userId, listener);
+  };
+}
+
+/**
+ * The user's events after `lastEventId`, or null when they cannot be replayed:
+ * the ID comes from another server run, or events after it have already left
+ * the buffer. Clients then have to refetch instead.
+ */
+export function eventsSince(userId: string, lastEventId: string): TodoEvent[] | null {
+  const match = /^([0-9a-z]+)-(\d+)$/.exec(lastEventId);
+  if (!match || match[1] !== BOOT_ID) return null;
+  const after = Number(match[2]);
+  if (after > seq) return null;
+  const oldest = buffer[0]?.seq ?? seq + 1;
+  if (after < oldest - 1) return null;
+  return buffer.filter(event => event.userId === userId && event.seq > after);
+}
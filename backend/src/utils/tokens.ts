@@ -0,0 +1,18 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Random URL-safe secret for links that work without logging in (64 hex characters)
+export function generateToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+// Personal access tokens look like "tdp_<64 hex characters>"
+export const ACCESS_TOKEN_PREFIX = 'tdp_';
+
+export function generateAccessToken(): string {
+  return `${ACCESS_TOKEN_PREFIX}${generateToken()}`;
+}
+
+// Tokens are stored as SHA-256 hashes; they are random enough that a slow hash adds nothing
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,33 @@
+import { ValidationError } from 'class-validator';
+import { Transform } from 'class-transformer';
+import sanitizeHtml from 'sanitize-html';
+import { QueryFailedError } from 'typeorm';
+
+// Shape of a single entry in a 400 `{ errors: [...] }` response
+export interface FieldError {
+  property: string;
+  constraints: Record<string, string>;
+}
+
+// Flatten class-validator errors (including nested children) into field errors
+export function formatValidationErrors(errors: ValidationError[], parentPath = ''): FieldError[] {
+  return errors.flatMap(error => {
+    const property = parentPath ? `${parentPath}.${error.property}` : error.property;
+    const own = error.constraints ? [{ property, constraints: error.constraints }] : [];
+    return [...own, ...formatValidationErrors(error.children ?? [], property)];
+  });
+}
+
+// True for a plain JSON object body (not an array, string or null)
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Trims and sanitizes a string field while the DTO is built, so its other checks (length, emptiness) apply to the stored text
+export const SanitizedText = () =>
+  Transform(({ value }) => (typeof value === 'string' ? sanitizeHtml(value.trim()) : value));
+
+// True when a save broke a unique index, e.g. two requests racing to create the same name
+export function isDuplicateKeyError(err: unknown): boolean {
+  return err instanceof QueryFailedError && err.driverError?.code === 'ER_DUP_ENTRY';
+}
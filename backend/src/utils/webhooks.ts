@@ -0,0 +1,33 @@
+import { createHmac } from 'crypto';
+import { Todo } from '../entities/Todo.entity';
+
+/**
+ * Signature sent in the X-Webhook-Signature header: hex HMAC-SHA256 of
+ * "<timestamp>.<body>" keyed with the webhook's secret. Signing the timestamp
+ * lets receivers reject replayed deliveries.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// The todo as webhook payloads carry it: its own fields plus tag IDs and reminder offsets
+export function webhookTodo(todo: Todo) {
+  return {
+    id: todo.id,
+    name: todo.name,
+    shortDescription: todo.shortDescription,
+    dateTime: todo.dateTime,
+    status: todo.status,
+    isDone: todo.isDone,
+    completedAt: todo.completedAt,
+    priority: todo.priority,
+    recurrence: todo.recurrence,
+    reminderOffsets: todo.reminderOffsets ?? [],
+    projectId: todo.projectId,
+    tagIds: (todo.tags ?? []).map(tag => tag.id),
+    version: todo.version,
+    createdAt: todo.createdAt,
+    updatedAt: todo.updatedAt,
+    deletedAt: todo.deletedAt ?? null,
+  };
+}
@@ -0,0 +1,63 @@
+// Service worker: keeps the app shell available offline. API calls always go to
+// the network; changes made offline are queued by the app itself (src/lib/outbox.ts).
+
+// Bump to drop every cached file on the next visit
+const CACHE = 'todo-shell-v1'
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/vite.svg']
+
+// The shell plus the scripts and styles index.html loads, which the first visit fetched before this worker existed
+const precache = async () => {
+  const cache = await caches.open(CACHE)
+  await cache.addAll(SHELL)
+  const html = await (await cache.match('/index.html')).text()
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1])
+  await cache.addAll(assets)
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(precache().then(() => self.skipWaiting()))
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  // Pages: the network when it answers, so deploys show up, otherwise the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          if (response.ok) {
+            const copy = response.clone()
+            caches.open(CACHE).then(cache => cache.put('/index.html', copy))
+          }
+          return response
+        })
+        .catch(() => caches.match('/index.html')),
+    )
+    return
+  }
+
+  // Built assets have content hashes in their names, so a cached copy never goes stale
+  event.respondWith(
+    caches.match(request).then(cached => {
+      if (cached) return cached
+      return fetch(request).then(response => {
+        if (response.ok) {
+          const copy = response.clone()
+          caches.open(CACHE).then(cache => cache.put(request, copy))
+        }
+        return response
+      })
+    }),
+  )
+})
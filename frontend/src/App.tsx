@@ -7,9 +7,13 @@ import Login from './pages/Login'
 import Register from './pages/Register'
 import VerifyEmail from './pages/VerifyEmail'
 import Dashboard from './pages/Dashboard'
+import Calendar from './pages/Calendar'
+import Board from './pages/Board'
 import Profile from './pages/Profile'
+import Unsubscribe from './pages/Unsubscribe'
 import { PrivateRoute } from './components/PrivateRoute'
 import Layout from './components/Layout'
+import { Toaster } from './components/ui/toaster'
 // import './App.css'  // unused, styles handled by Tailwind
 
 function App() {
@@ -22,6 +26,7 @@ function App() {
           <Route path="/verify-email" element={<VerifyEmail />} />
           <Route path="/forgot-password" element={<ForgotPassword />} />
           <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/unsubscribe" element={<Unsubscribe />} />
           <Route
             path="/"
             element={
@@ -32,6 +37,26 @@ function App() {
               </PrivateRoute>
             }
           />
+          <Route
+            path="/calendar"
+            element={
+              <PrivateRoute>
+                <TodoProvider>
+                  <Calendar />
+                </TodoProvider>
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/board"
+            element={
+              <PrivateRoute>
+                <TodoProvider>
+                  <Board />
+                </TodoProvider>
+              </PrivateRoute>
+            }
+          />
           <Route
             path="/profile"
             element={
@@ -43,6 +68,7 @@ function App() {
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </Layout>
+      <Toaster />
     </AuthProvider>
   )
 }
@@ -0,0 +1,165 @@
+import { useState } from 'react'
+import axios from 'axios'
+import { ACCESS_TOKEN_SCOPES, useAccessTokens, type AccessTokenScope } from '../hooks/useAccessTokens'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/Card'
+import { Button } from './ui/Button'
+import { Input } from './ui/Input'
+import { Label } from './ui/label'
+import { Checkbox } from './ui/checkbox'
+import { Check, Copy, KeyRound } from 'lucide-react'
+
+const SCOPE_LABELS: Record<AccessTokenScope, string> = {
+  'todos:read': 'Read tasks',
+  'todos:write': 'Create, edit and delete tasks',
+}
+
+// Lifetimes offered when creating a token, in days
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiry' },
+]
+
+const selectClass = "flex w-full h-10 px-3 py-2 text-sm border rounded-md border-border bg-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+
+const formatDate = (value: string | null, fallback: string) => (value ? new Date(value).toLocaleDateString() : fallback)
+
+export default function AccessTokensCard() {
+  const { tokens, isLoading, createToken, isCreating, revokeToken } = useAccessTokens()
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<AccessTokenScope[]>(['todos:read'])
+  const [expiry, setExpiry] = useState('90')
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState('')
+
+  const toggleScope = (scope: AccessTokenScope, checked: boolean) =>
+    setScopes(current => (checked ? ACCESS_TOKEN_SCOPES.filter(s => s === scope || current.includes(s)) : current.filter(s => s !== scope)))
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    try {
+      const expiresAt = expiry === 'never' ? undefined : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000).toISOString()
+      const created = await createToken({ name: name.trim(), scopes, expiresAt })
+      setNewToken(created.token)
+      setCopied(false)
+      setName('')
+    } catch (err) {
+      console.error('Failed to create access token:', err)
+      const message = axios.isAxiosError(err) ? (err.response?.data as { error?: string } | undefined)?.error : undefined
+      setError(message ?? 'Could not create the token.')
+    }
+  }
+
+  const copyToken = async () => {
+    if (!newToken) return
+    try {
+      await navigator.clipboard.writeText(newToken)
+      setCopied(true)
+    } catch (err) {
+      console.error('Failed to copy token:', err)
+    }
+  }
+
+  const revoke = async (id: string, tokenName: string) => {
+    if (!window.confirm(`Revoke "${tokenName}"? Scripts using it will stop working.`)) return
+    try {
+      await revokeToken(id)
+    } catch (err) {
+      console.error('Failed to revoke token:', err)
+      setError('Could not revoke the token.')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Personal Access Tokens</CardTitle>
+        <CardDescription>
+          Let scripts and command-line tools use your tasks without logging in. Send a token as <code>Authorization: Bearer &lt;token&gt;</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newToken && (
+          <div className="p-3 space-y-2 border rounded-md border-primary/30 bg-primary/5">
+            <p className="text-sm font-medium">Copy your new token now. You won't be able to see it again.</p>
+            <div className="flex gap-2">
+              <Input value={newToken} readOnly onFocus={e => e.target.select()} aria-label="New access token" className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="icon" onClick={copyToken} aria-label="Copy token" className="shrink-0">
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setNewToken(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          tokens.length > 0 && (
+            <ul className="border divide-y rounded-md border-border">
+              {tokens.map(token => {
+                const expired = token.expiresAt !== null && new Date(token.expiresAt) <= new Date()
+                return (
+                  <li key={token.id} className="flex items-start justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0 space-y-0.5">
+                      <p className="flex items-center gap-2 text-sm font-medium">
+                        <KeyRound className="w-4 h-4 shrink-0 text-muted-foreground" />
+                        <span className="truncate">{token.name}</span>
+                      </p>
+                      <p className="font-mono text-xs text-muted-foreground">{token.prefix}… · {token.scopes.join(', ')}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Last used {formatDate(token.lastUsedAt, 'never')} ·{' '}
+                        <span className={expired ? 'text-destructive' : undefined}>
+                          {expired ? 'Expired' : 'Expires'} {formatDate(token.expiresAt, 'never')}
+                        </span>
+                      </p>
+                    </div>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => revoke(token.id, token.name)} className="shrink-0 text-destructive hover:text-destructive">
+                      Revoke
+                    </Button>
+                  </li>
+                )
+              })}
+            </ul>
+          )
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="token-name">Name</Label>
+              <Input id="token-name" value={name} onChange={e => setName(e.target.value)} placeholder="Nightly backup script" maxLength={100} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="token-expiry">Expires</Label>
+              <select id="token-expiry" value={expiry} onChange={e => setExpiry(e.target.value)} className={selectClass}>
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            {ACCESS_TOKEN_SCOPES.map(scope => (
+              <div key={scope} className="flex items-center gap-2">
+                <Checkbox id={`scope-${scope}`} checked={scopes.includes(scope)} onCheckedChange={checked => toggleScope(scope, checked === true)} />
+                <Label htmlFor={`scope-${scope}`} className="font-normal">
+                  <code className="text-xs">{scope}</code> · {SCOPE_LABELS[scope]}
+                </Label>
+              </div>
+            ))}
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" disabled={isCreating || !name.trim() || scopes.length === 0}>
+            {isCreating ? 'Creating...' : 'Create Token'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
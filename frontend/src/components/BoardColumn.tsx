@@ -0,0 +1,120 @@
+import { useState } from 'react'
+import type { Todo, TodoStatus } from '../contexts/TodoContext'
+import { useBoardColumn } from '../hooks/useBoardColumn'
+import { getPriorityOption } from '../lib/priority'
+import { STATUS_OPTIONS, getStatusOption } from '../lib/status'
+import { cn } from '../lib/utils'
+import { Button } from './ui/Button'
+import { Calendar, Flag } from 'lucide-react'
+
+interface BoardColumnProps {
+  status: TodoStatus
+  // The card being dragged, from any column
+  dragging: Todo | null
+  onDragStart: (todo: Todo) => void
+  onDragEnd: () => void
+  onMove: (todo: Todo, status: TodoStatus) => void
+  onSelect: (todo: Todo) => void
+}
+
+/**
+ * A board column of the todos in one status. Cards are dropped here from other
+ * columns; each card also has a status menu, so moving works from the keyboard.
+ */
+export default function BoardColumn({ status, dragging, onDragStart, onDragEnd, onMove, onSelect }: BoardColumnProps) {
+  const { todos, total, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useBoardColumn(status)
+  const [isOver, setIsOver] = useState(false)
+  const option = getStatusOption(status)
+  const canDrop = dragging !== null && dragging.status !== status
+
+  return (
+    <section
+      aria-label={option.label}
+      onDragOver={event => {
+        if (!canDrop) return
+        event.preventDefault()
+        event.dataTransfer.dropEffect = 'move'
+        setIsOver(true)
+      }}
+      onDragLeave={event => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsOver(false)
+      }}
+      onDrop={event => {
+        event.preventDefault()
+        setIsOver(false)
+        if (dragging && canDrop) onMove(dragging, status)
+      }}
+      className={cn(
+        'flex w-64 shrink-0 flex-col gap-2 rounded-lg border bg-muted/30 p-2 transition-colors lg:w-auto lg:min-w-0 lg:flex-1',
+        isOver && 'border-primary bg-primary/5',
+      )}
+    >
+      <header className="flex items-center gap-2 px-1 py-1 text-sm font-semibold">
+        <span className={cn('h-2 w-2 rounded-full', option.dotClass)} />
+        <span className="flex-1">{option.label}</span>
+        <span className="text-xs font-normal text-muted-foreground">{total}</span>
+      </header>
+
+      {isLoading && <p className="px-1 text-xs text-muted-foreground">Loading...</p>}
+      {!isLoading && todos.length === 0 && (
+        <p className="px-1 py-4 text-xs text-center text-muted-foreground">Drop tasks here</p>
+      )}
+
+      <ul className="space-y-2">
+        {todos.map(todo => {
+          const priority = getPriorityOption(todo.priority)
+          return (
+            <li
+              key={todo.id}
+              draggable
+              onDragStart={event => {
+                event.dataTransfer.effectAllowed = 'move'
+                event.dataTransfer.setData('text/plain', todo.id)
+                onDragStart(todo)
+              }}
+              onDragEnd={onDragEnd}
+              className={cn(
+                'space-y-2 rounded-md border border-l-4 bg-card p-2 text-sm shadow-sm cursor-grab active:cursor-grabbing',
+                priority.borderClass,
+                dragging?.id === todo.id && 'opacity-50',
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(todo)}
+                className={cn('block w-full text-left font-medium hover:underline', todo.isDone && 'line-through text-muted-foreground')}
+              >
+                {todo.name}
+              </button>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Calendar className="w-3 h-3 shrink-0" />
+                <span className="flex-1 truncate">
+                  {new Date(todo.dateTime).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                </span>
+                {todo.priority !== 'none' && <Flag className={cn('w-3 h-3 shrink-0', priority.textClass)} aria-label={`${priority.label} priority`} />}
+                <select
+                  value={todo.status}
+                  onChange={event => onMove(todo, event.target.value as TodoStatus)}
+                  aria-label={`Status of "${todo.name}"`}
+                  className="h-6 max-w-24 rounded border border-border bg-background px-1 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                >
+                  {STATUS_OPTIONS.map(item => (
+                    <option key={item.value} value={item.value}>
+                      {item.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+
+      {hasNextPage && (
+        <Button variant="ghost" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+          {isFetchingNextPage ? 'Loading...' : 'Load more'}
+        </Button>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react'
+import { useCalendarFeed } from '../hooks/useCalendarFeed'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/Card'
+import { Button } from './ui/Button'
+import { Input } from './ui/Input'
+import { Check, Copy, RefreshCw } from 'lucide-react'
+
+export default function CalendarFeedCard() {
+  const { feed, isLoading, regenerateFeed, isRegenerating, disableFeed, isDisabling } = useCalendarFeed()
+  const [copied, setCopied] = useState(false)
+
+  const copyUrl = async () => {
+    if (!feed?.url) return
+    try {
+      await navigator.clipboard.writeText(feed.url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy feed URL:', error)
+    }
+  }
+
+  const regenerate = async () => {
+    if (feed?.url && !window.confirm('Calendars subscribed to the current URL will stop updating. Generate a new URL?')) return
+    try {
+      await regenerateFeed()
+    } catch (error) {
+      console.error('Failed to generate feed URL:', error)
+    }
+  }
+
+  const disable = async () => {
+    try {
+      await disableFeed()
+    } catch (error) {
+      console.error('Failed to turn off calendar feed:', error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Feed</CardTitle>
+        <CardDescription>
+          Subscribe to your tasks from Google Calendar, Outlook or Apple Calendar. Anyone with the URL can see your tasks, so keep it private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : feed?.url ? (
+          <>
+            <div className="flex gap-2">
+              <Input value={feed.url} readOnly onFocus={e => e.target.select()} aria-label="Calendar feed URL" className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="icon" onClick={copyUrl} aria-label="Copy feed URL" className="shrink-0">
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Add <code>?status=UPCOMING</code> to leave out completed tasks, or <code>?type=todo</code> for apps that show tasks rather than events.
+            </p>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={regenerate} disabled={isRegenerating}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Regenerate URL
+              </Button>
+              <Button type="button" variant="ghost" onClick={disable} disabled={isDisabling} className="text-destructive hover:text-destructive">
+                Turn Off
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button type="button" onClick={regenerate} disabled={isRegenerating}>
+            {isRegenerating ? 'Creating...' : 'Create Feed URL'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,197 @@
+import { useEffect, useRef, useState } from 'react'
+import { format, isSameDay, isSameMonth, isToday, setHours } from 'date-fns'
+import type { Todo } from '../contexts/TodoContext'
+import { getPriorityOption } from '../lib/priority'
+import { cn } from '../lib/utils'
+
+export type CalendarView = 'month' | 'week'
+
+interface CalendarGridProps {
+  view: CalendarView
+  // Every day on screen, in order: whole weeks for a month, seven days for a week
+  days: Date[]
+  // The month being shown; days from the weeks around it are dimmed
+  month: Date
+  todos: Todo[]
+  onSelectSlot: (start: Date) => void
+  onSelectTodo: (todo: Todo) => void
+  onMoveTodo: (todo: Todo, to: Date) => void
+  // Show a day in the week view, for days with more todos than their month cell fits
+  onShowDay: (day: Date) => void
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+// Todos listed in a month cell before the rest collapse into "+N more"
+const MONTH_CELL_LIMIT = 3
+// New todos from a month cell start at 9am, and the week view opens scrolled to the working day
+const DEFAULT_HOUR = 9
+const SCROLL_TO_HOUR = 8
+const HOUR_ROW_PX = 48
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Month or week grid of todos placed on their due time. Todos can be dragged
+ * to another day (month) or hour (week), keeping the rest of their time, and
+ * each slot has a button behind its todos for adding a task there.
+ */
+export default function CalendarGrid({ view, days, month, todos, onSelectSlot, onSelectTodo, onMoveTodo, onShowDay }: CalendarGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const [dragging, setDragging] = useState<Todo | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (view === 'week' && scrollRef.current) scrollRef.current.scrollTop = SCROLL_TO_HOUR * HOUR_ROW_PX
+  }, [view])
+
+  const dueOn = (day: Date) => todos.filter(todo => isSameDay(new Date(todo.dateTime), day))
+
+  // Drag handlers for a slot; `target` turns the todo's current due date into the one it is dropped on
+  const dropZone = (slotKey: string, target: (due: Date) => Date) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!dragging) return
+      event.preventDefault()
+      event.dataTransfer.dropEffect = 'move'
+      setDropTarget(slotKey)
+    },
+    onDragLeave: () => setDropTarget(current => (current === slotKey ? null : current)),
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault()
+      setDropTarget(null)
+      if (!dragging) return
+      const due = new Date(dragging.dateTime)
+      const next = target(due)
+      if (next.getTime() !== due.getTime()) onMoveTodo(dragging, next)
+    },
+  })
+
+  const renderTodo = (todo: Todo, compact: boolean) => {
+    const due = new Date(todo.dateTime)
+    return (
+      <button
+        key={todo.id}
+        type="button"
+        draggable
+        onDragStart={event => {
+          event.dataTransfer.effectAllowed = 'move'
+          event.dataTransfer.setData('text/plain', todo.id)
+          setDragging(todo)
+        }}
+        onDragEnd={() => {
+          setDragging(null)
+          setDropTarget(null)
+        }}
+        onClick={() => onSelectTodo(todo)}
+        title={`${format(due, 'p')} · ${todo.name}`}
+        className={cn(
+          'relative z-10 flex w-full items-center gap-1 truncate rounded border-l-2 bg-card px-1.5 py-0.5 text-left text-xs shadow-sm hover:bg-accent cursor-grab active:cursor-grabbing',
+          getPriorityOption(todo.priority).borderClass,
+          todo.isDone && 'line-through text-muted-foreground',
+          dragging?.id === todo.id && 'opacity-50',
+        )}
+      >
+        {!compact && <span className="shrink-0 text-muted-foreground">{format(due, 'p')}</span>}
+        <span className="truncate">{todo.name}</span>
+      </button>
+    )
+  }
+
+  // Sits behind a slot's todos so clicking anywhere empty adds a task there
+  const addButton = (start: Date, label: string) => (
+    <button
+      type="button"
+      onClick={() => onSelectSlot(start)}
+      aria-label={label}
+      className="absolute inset-0 w-full h-full rounded-none focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary"
+    />
+  )
+
+  if (view === 'month') {
+    return (
+      <div className="overflow-hidden border rounded-lg">
+        <div className="grid grid-cols-7 border-b bg-muted/40">
+          {WEEKDAYS.map(weekday => (
+            <div key={weekday} className="px-2 py-1.5 text-xs font-medium text-center text-muted-foreground">
+              {weekday}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map(day => {
+            const key = day.toISOString()
+            const dayTodos = dueOn(day)
+            const hidden = dayTodos.length - MONTH_CELL_LIMIT
+            return (
+              <div
+                key={key}
+                {...dropZone(key, due => new Date(day.getFullYear(), day.getMonth(), day.getDate(), due.getHours(), due.getMinutes()))}
+                className={cn(
+                  'relative min-h-24 sm:min-h-28 space-y-1 border-b border-r p-1 [&:nth-child(7n)]:border-r-0',
+                  !isSameMonth(day, month) && 'bg-muted/30 text-muted-foreground',
+                  dropTarget === key && 'bg-primary/10',
+                )}
+              >
+                {addButton(setHours(day, DEFAULT_HOUR), `Add task on ${format(day, 'PPPP')}`)}
+                <div
+                  className={cn(
+                    'relative z-10 w-fit px-1 text-xs font-medium pointer-events-none',
+                    isToday(day) && 'rounded-full bg-primary text-primary-foreground',
+                  )}
+                >
+                  {format(day, 'd')}
+                </div>
+                {dayTodos.slice(0, MONTH_CELL_LIMIT).map(todo => renderTodo(todo, true))}
+                {hidden > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => onShowDay(day)}
+                    className="relative z-10 px-1 text-xs font-medium text-muted-foreground hover:text-foreground"
+                  >
+                    +{hidden} more
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="overflow-hidden border rounded-lg">
+      <div className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] border-b bg-muted/40">
+        <div />
+        {days.map(day => (
+          <div key={day.toISOString()} className="px-1 py-1.5 text-xs font-medium text-center text-muted-foreground">
+            {format(day, 'EEE')}{' '}
+            <span className={cn('px-1', isToday(day) && 'rounded-full bg-primary text-primary-foreground')}>{format(day, 'd')}</span>
+          </div>
+        ))}
+      </div>
+      <div ref={scrollRef} className="max-h-[36rem] overflow-y-auto">
+        {HOURS.map(hour => (
+          <div key={hour} className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))]" style={{ minHeight: HOUR_ROW_PX }}>
+            <div className="pr-2 text-[11px] text-right border-r text-muted-foreground -translate-y-2">
+              {hour > 0 && format(setHours(days[0], hour), 'h a')}
+            </div>
+            {days.map(day => {
+              const start = setHours(day, hour)
+              const key = start.toISOString()
+              const slotTodos = dueOn(day).filter(todo => new Date(todo.dateTime).getHours() === hour)
+              return (
+                <div
+                  key={key}
+                  {...dropZone(key, due => new Date(start.getFullYear(), start.getMonth(), start.getDate(), hour, due.getMinutes()))}
+                  className={cn('relative space-y-1 border-b border-r p-0.5 last:border-r-0', dropTarget === key && 'bg-primary/10')}
+                >
+                  {addButton(start, `Add task on ${format(start, 'PPPP')} at ${format(start, 'p')}`)}
+                  {slotTodos.map(todo => renderTodo(todo, false))}
+                </div>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+import { useRef, useState } from 'react'
+import { useChecklist, type ChecklistItem } from '../hooks/useChecklist'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from './ui/Input'
+import { Button } from './ui/Button'
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react'
+import { cn } from '../lib/utils'
+
+export default function ChecklistEditor({ todoId }: { todoId: string }) {
+  const { items, isLoading, addItem, updateItem, removeItem, moveItem } = useChecklist(todoId)
+  const [newText, setNewText] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<unknown> | undefined, failure: string) => {
+    try {
+      await action()
+    } catch (error) {
+      console.error(failure, error)
+    }
+  }
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const text = newText.trim()
+    if (!text) return
+    setNewText('')
+    await run(() => addItem(text), 'Failed to add checklist item:')
+  }
+
+  if (isLoading) {
+    return <div className="w-4 h-4 border-2 rounded-full animate-spin border-primary border-t-transparent" />
+  }
+
+  return (
+    <div className="space-y-1">
+      <ul className="space-y-1">
+        {items.map((item, index) => (
+          <li key={item.id} className="flex items-center gap-2 group">
+            <Checkbox
+              checked={item.isDone}
+              onCheckedChange={checked => run(() => updateItem({ id: item.id, isDone: checked === true }), 'Failed to update checklist item:')}
+              aria-label={`Mark "${item.text}" as ${item.isDone ? 'not done' : 'done'}`}
+            />
+            {editingId === item.id ? (
+              <ItemTextInput
+                item={item}
+                onSave={text => {
+                  setEditingId(null)
+                  if (text !== item.text) run(() => updateItem({ id: item.id, text }), 'Failed to update checklist item:')
+                }}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => setEditingId(item.id)}
+                className={cn("flex-1 text-left text-xs sm:text-sm truncate", item.isDone && "line-through text-muted-foreground")}
+                title="Click to edit"
+              >
+                {item.text}
+              </button>
+            )}
+            <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="w-6 h-6"
+                disabled={index === 0}
+                onClick={() => run(() => moveItem(item.id, -1), 'Failed to reorder checklist:')}
+                aria-label={`Move "${item.text}" up`}
+              >
+                <ArrowUp className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="w-6 h-6"
+                disabled={index === items.length - 1}
+                onClick={() => run(() => moveItem(item.id, 1), 'Failed to reorder checklist:')}
+                aria-label={`Move "${item.text}" down`}
+              >
+                <ArrowDown className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="w-6 h-6 hover:text-destructive"
+                onClick={() => run(() => removeItem(item.id), 'Failed to delete checklist item:')}
+                aria-label={`Delete "${item.text}"`}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={add} className="flex items-center gap-2">
+        <Plus className="w-4 h-4 shrink-0 text-muted-foreground" />
+        <Input
+          value={newText}
+          onChange={e => setNewText(e.target.value)}
+          maxLength={200}
+          placeholder="Add an item"
+          aria-label="New checklist item"
+          className="h-8 text-xs sm:text-sm"
+        />
+      </form>
+    </div>
+  )
+}
+
+interface ItemTextInputProps {
+  item: ChecklistItem
+  onSave: (text: string) => void
+  onCancel: () => void
+}
+
+// Enter or blur saves, Escape cancels
+function ItemTextInput({ item, onSave, onCancel }: ItemTextInputProps) {
+  const [text, setText] = useState(item.text)
+  // Escape unmounts the input, which must not count as a blur-to-save
+  const finished = useRef(false)
+  const finish = (commit: boolean) => {
+    if (finished.current) return
+    finished.current = true
+    if (commit && text.trim()) onSave(text.trim())
+    else onCancel()
+  }
+
+  return (
+    <Input
+      value={text}
+      onChange={e => setText(e.target.value)}
+      onBlur={() => finish(true)}
+      onKeyDown={e => {
+        if (e.key === 'Enter') {
+          e.preventDefault()
+          finish(true)
+        } else if (e.key === 'Escape') {
+          finish(false)
+        }
+      }}
+      maxLength={200}
+      aria-label="Checklist item text"
+      className="flex-1 h-7 text-xs sm:text-sm"
+      autoFocus
+    />
+  )
+}
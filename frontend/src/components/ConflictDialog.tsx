@@ -0,0 +1,67 @@
+import { Button } from './ui/Button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { AlertTriangle } from 'lucide-react'
+import type { Todo } from '../contexts/TodoContext'
+import { getStatusOption } from '../lib/status'
+
+interface ConflictDialogProps {
+  // The server's current copy of the todo, or null when there is no conflict
+  serverTodo: Todo | null
+  onReload: () => void
+  onOverwrite: () => void
+  onCancel: () => void
+}
+
+export default function ConflictDialog({ serverTodo, onReload, onOverwrite, onCancel }: ConflictDialogProps) {
+  return (
+    <Dialog open={serverTodo !== null} onOpenChange={open => !open && onCancel()}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <div className="flex items-center justify-center w-8 h-8 rounded-lg bg-destructive/10">
+              <AlertTriangle className="w-4 h-4 text-destructive" />
+            </div>
+            <span>This task changed elsewhere</span>
+          </DialogTitle>
+          <DialogDescription>
+            Someone (maybe you, in another tab) updated this task after you loaded it. Reload to see their
+            changes, or overwrite them with yours.
+          </DialogDescription>
+        </DialogHeader>
+        {serverTodo && (
+          <div className="p-3 space-y-1 text-sm border rounded-md bg-muted/40">
+            <p className="font-medium">{serverTodo.name}</p>
+            {serverTodo.shortDescription && (
+              <p className="text-muted-foreground">{serverTodo.shortDescription}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {getStatusOption(serverTodo.status).label} · Due{' '}
+              {new Date(serverTodo.dateTime).toLocaleString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+                hour12: true,
+              })}
+            </p>
+          </div>
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onReload}>
+            Reload
+          </Button>
+          <Button variant="destructive" onClick={onOverwrite}>
+            Overwrite
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
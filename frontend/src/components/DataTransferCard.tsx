@@ -0,0 +1,158 @@
+import { useState } from 'react'
+import axios from 'axios'
+import { useQueryClient } from '@tanstack/react-query'
+import api from '../api/client'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/Card'
+import { Button } from './ui/Button'
+import { Checkbox } from './ui/checkbox'
+import { Label } from './ui/label'
+import { Download, FileUp } from 'lucide-react'
+import type { ImportReport } from '../lib/importReport'
+
+type DataFormat = 'csv' | 'json'
+
+const formatOf = (file: File): DataFormat => (file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv')
+
+const importFile = async (file: File, dryRun: boolean) => {
+  const format = formatOf(file)
+  const res = await api.post<ImportReport>('/todos/import', file, {
+    params: { format, dryRun },
+    // JSON goes as raw bytes so the server reads it with its larger upload limit
+    headers: { 'Content-Type': format === 'csv' ? 'text/csv' : 'application/octet-stream' },
+  })
+  return res.data
+}
+
+// File name from a `Content-Disposition: attachment; filename="..."` header
+const attachmentName = (header: unknown) => /filename="([^"]+)"/.exec(String(header ?? ''))?.[1]
+
+export default function DataTransferCard() {
+  const queryClient = useQueryClient()
+  const [includeDeleted, setIncludeDeleted] = useState(false)
+  const [exporting, setExporting] = useState<DataFormat | null>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [error, setError] = useState('')
+  const [isImporting, setIsImporting] = useState(false)
+
+  const download = async (format: DataFormat) => {
+    setExporting(format)
+    setError('')
+    try {
+      const res = await api.get<Blob>('/todos/export', { params: { format, includeDeleted }, responseType: 'blob' })
+      const url = URL.createObjectURL(res.data)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = attachmentName(res.headers['content-disposition']) ?? `todos.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Export failed:', err)
+      setError('Your tasks could not be exported. Please try again.')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  const runImport = async (selected: File, dryRun: boolean) => {
+    setIsImporting(true)
+    setError('')
+    try {
+      setReport(await importFile(selected, dryRun))
+      if (!dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['todos'] })
+        queryClient.invalidateQueries({ queryKey: ['projects'] })
+      }
+    } catch (err) {
+      console.error('Import failed:', err)
+      const message = axios.isAxiosError(err) ? (err.response?.data as { error?: string } | undefined)?.error : undefined
+      setError(message ?? 'The file could not be read as a CSV or JSON export.')
+      setReport(null)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  // Picking a file immediately previews it; nothing is created until the user confirms
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected) return
+    setFile(selected)
+    runImport(selected, true)
+  }
+
+  const failedRows = report?.rows.filter(row => row.status === 'error') ?? []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your Data</CardTitle>
+        <CardDescription>
+          Download all of your tasks, completed ones included, or load tasks from a CSV or JSON file exported here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <Label>Export my data</Label>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" onClick={() => download('csv')} disabled={exporting !== null}>
+              <Download className="w-4 h-4 mr-2" />
+              {exporting === 'csv' ? 'Exporting...' : 'CSV'}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => download('json')} disabled={exporting !== null}>
+              <Download className="w-4 h-4 mr-2" />
+              {exporting === 'json' ? 'Exporting...' : 'JSON'}
+            </Button>
+          </div>
+          <div className="flex items-center gap-3">
+            <Checkbox id="export-deleted" checked={includeDeleted} onCheckedChange={checked => setIncludeDeleted(checked === true)} />
+            <Label htmlFor="export-deleted" className="font-normal">Include tasks in the trash</Label>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Import</Label>
+          <label className="flex items-center justify-center gap-2 p-4 text-sm border border-dashed rounded-md cursor-pointer border-border hover:bg-muted">
+            <FileUp className="w-4 h-4" />
+            <span className="truncate">{file ? file.name : 'Choose a .csv or .json file'}</span>
+            <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} className="sr-only" />
+          </label>
+          {report && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {report.dryRun
+                  ? `${report.wouldCreate} of ${report.total} tasks ready to import, ${report.failed} with errors.`
+                  : `Imported ${report.created} tasks, ${report.failed} with errors.`}
+              </p>
+              {failedRows.length > 0 && (
+                <ul className="overflow-y-auto border divide-y rounded-md max-h-48 border-border">
+                  {failedRows.map(row => (
+                    <li key={row.index} className="px-3 py-2 text-sm">
+                      <span className="font-medium">{row.line ? `Line ${row.line}` : `Row ${row.index + 1}`}</span>
+                      {row.name && <span className="text-muted-foreground"> · {row.name}</span>}
+                      {row.errors?.map(message => (
+                        <p key={message} className="text-xs text-destructive">{message}</p>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {report.dryRun && (
+                <Button type="button" onClick={() => file && runImport(file, false)} disabled={isImporting || report.wouldCreate === 0}>
+                  {isImporting ? 'Importing...' : `Import ${report.wouldCreate} tasks`}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-3 text-sm font-medium border rounded-md text-destructive bg-destructive/10 border-destructive/30">
+            {error}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import { useDigestSettings, type DigestSettings } from '../hooks/useDigestSettings'
+import { browserTimeZone, formatHour, TIME_ZONES } from '../lib/timezones'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/Card'
+import { Button } from './ui/Button'
+import { Checkbox } from './ui/checkbox'
+import { Label } from './ui/label'
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+const selectClass = "flex w-full h-10 px-3 py-2 text-sm border rounded-md border-border bg-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+
+export default function DigestSettingsCard() {
+  const { settings } = useDigestSettings()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Digest</CardTitle>
+        <CardDescription>
+          Get a summary of what is due, overdue and recently completed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {settings ? <DigestSettingsForm settings={settings} /> : <p className="text-sm text-muted-foreground">Loading...</p>}
+      </CardContent>
+    </Card>
+  )
+}
+
+function DigestSettingsForm({ settings }: { settings: DigestSettings }) {
+  const { updateSettings, isSaving } = useDigestSettings()
+  const [dailyDigest, setDailyDigest] = useState(settings.dailyDigest)
+  const [weeklyDigest, setWeeklyDigest] = useState(settings.weeklyDigest)
+  const [digestHour, setDigestHour] = useState(settings.digestHour)
+  // A user who never picked a zone is still on the server default, so suggest the browser's
+  const [timezone, setTimezone] = useState(settings.dailyDigest || settings.weeklyDigest ? settings.timezone : browserTimeZone)
+  const [message, setMessage] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage('')
+    try {
+      await updateSettings({ dailyDigest, weeklyDigest, digestHour, timezone })
+      setMessage('Digest settings saved.')
+    } catch (error) {
+      console.error('Failed to save digest settings:', error)
+      setMessage('Failed to save digest settings. Please try again.')
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-3">
+        <div className="flex items-start gap-3">
+          <Checkbox id="daily-digest" checked={dailyDigest} onCheckedChange={checked => setDailyDigest(checked === true)} className="mt-0.5" />
+          <div className="space-y-1">
+            <Label htmlFor="daily-digest">Daily digest</Label>
+            <p className="text-xs text-muted-foreground">Today's tasks, overdue tasks and what you finished yesterday.</p>
+          </div>
+        </div>
+        <div className="flex items-start gap-3">
+          <Checkbox id="weekly-digest" checked={weeklyDigest} onCheckedChange={checked => setWeeklyDigest(checked === true)} className="mt-0.5" />
+          <div className="space-y-1">
+            <Label htmlFor="weekly-digest">Weekly summary</Label>
+            <p className="text-xs text-muted-foreground">Every Monday: the week ahead and the week you just finished.</p>
+          </div>
+        </div>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="digest-hour">Send at</Label>
+          <select id="digest-hour" value={digestHour} onChange={e => setDigestHour(Number(e.target.value))} className={selectClass}>
+            {HOURS.map(hour => (
+              <option key={hour} value={hour}>{formatHour(hour)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="digest-timezone">Time zone</Label>
+          <select id="digest-timezone" value={timezone} onChange={e => setTimezone(e.target.value)} className={selectClass}>
+            {TIME_ZONES.map(zone => (
+              <option key={zone} value={zone}>{zone}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+      <Button type="submit" disabled={isSaving}>
+        {isSaving ? 'Saving...' : 'Save Digest Settings'}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,24 @@
+interface HighlightedTextProps {
+  // Text returned by the search API, with matches wrapped in <mark></mark>
+  text: string
+  className?: string
+}
+
+// Renders search highlights as React nodes so the snippet is never injected as HTML
+export default function HighlightedText({ text, className }: HighlightedTextProps) {
+  const parts = text.split(/(<mark>.*?<\/mark>)/g)
+
+  return (
+    <span className={className}>
+      {parts.map((part, i) =>
+        part.startsWith('<mark>') ? (
+          <mark key={i} className="px-0.5 rounded-sm bg-yellow-200 text-foreground dark:bg-yellow-500/40">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  )
+}
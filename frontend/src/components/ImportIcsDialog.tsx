@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import axios from 'axios'
+import api from '../api/client'
+import { useTodos } from '../contexts/TodoContext'
+import { Button } from './ui/Button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
+import { CalendarPlus, FileUp } from 'lucide-react'
+import { cn } from '../lib/utils'
+import { STATUS_LABELS, type ImportReport } from '../lib/importReport'
+
+const importIcs = async (file: File, dryRun: boolean) =>
+  (await api.post<ImportReport>('/todos/import/ics', file, { params: { dryRun }, headers: { 'Content-Type': 'text/calendar' } })).data
+
+export default function ImportIcsDialog() {
+  const { refetch } = useTodos()
+  const [open, setOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [error, setError] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+
+  const reset = () => {
+    setFile(null)
+    setReport(null)
+    setError('')
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset()
+    setOpen(next)
+  }
+
+  const run = async (selected: File, dryRun: boolean) => {
+    setIsWorking(true)
+    setError('')
+    try {
+      setReport(await importIcs(selected, dryRun))
+      if (!dryRun) refetch()
+    } catch (err) {
+      console.error('Calendar import failed:', err)
+      const message = axios.isAxiosError(err) ? (err.response?.data as { error?: string } | undefined)?.error : undefined
+      setError(message ?? 'The file could not be read as an iCalendar (.ics) file.')
+      setReport(null)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  // Picking a file immediately previews it; nothing is created until the user confirms
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    if (!selected) return
+    setFile(selected)
+    run(selected, true)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="lg" variant="outline" className="w-full sm:w-auto">
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          Import .ics
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import from calendar</DialogTitle>
+          <DialogDescription>
+            Turn the events and tasks in an .ics file into tasks. You will see a preview before anything is created.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <label className="flex items-center justify-center gap-2 p-4 text-sm border border-dashed rounded-md cursor-pointer border-border hover:bg-muted">
+            <FileUp className="w-4 h-4" />
+            <span className="truncate">{file ? file.name : 'Choose an .ics file'}</span>
+            <input type="file" accept=".ics,text/calendar" onChange={handleFileChange} className="sr-only" />
+          </label>
+          {error && (
+            <div className="p-3 text-sm font-medium border rounded-md text-destructive bg-destructive/10 border-destructive/30">
+              {error}
+            </div>
+          )}
+          {report && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {report.dryRun
+                  ? `${report.wouldCreate} new, ${report.duplicates} already imported, ${report.failed} with errors.`
+                  : `Imported ${report.created} tasks. ${report.duplicates} already imported, ${report.failed} with errors.`}
+              </p>
+              <ul className="overflow-y-auto border divide-y rounded-md max-h-64 border-border">
+                {report.rows.map(row => (
+                  <li key={row.index} className="px-3 py-2 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate">{row.name ?? row.uid ?? `Entry ${row.index + 1}`}</span>
+                      <span className={cn("shrink-0 text-xs font-medium", STATUS_LABELS[row.status].className)}>
+                        {STATUS_LABELS[row.status].label}
+                      </span>
+                    </div>
+                    {row.dateTime && (
+                      <p className="text-xs text-muted-foreground">{new Date(row.dateTime).toLocaleString()}</p>
+                    )}
+                    {row.errors?.map(message => (
+                      <p key={message} className="text-xs text-destructive">{message}</p>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          <div className="flex gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} className="flex-1">
+              {report && !report.dryRun ? 'Done' : 'Cancel'}
+            </Button>
+            {report?.dryRun && (
+              <Button
+                type="button"
+                onClick={() => file && run(file, false)}
+                disabled={isWorking || report.wouldCreate === 0}
+                className="flex-1"
+              >
+                {isWorking ? 'Importing...' : `Import ${report.wouldCreate} tasks`}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import { cn } from '../lib/utils'
+
+interface InlineEditProps {
+  value: string
+  onSave: (value: string) => void
+  // Shown while not editing, e.g. with search matches highlighted
+  children: React.ReactNode
+  label: string
+  maxLength: number
+  multiline?: boolean
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Text that turns into a field when clicked. Enter or leaving the field saves,
+ * Escape cancels; in a multiline field Shift+Enter adds a new line. Clearing
+ * the text keeps the old value, since todos need both a name and a description.
+ */
+export default function InlineEdit({ value, onSave, children, label, maxLength, multiline, disabled, className }: InlineEditProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const save = () => {
+    if (draft === null) return
+    const next = draft.trim()
+    setDraft(null)
+    if (next && next !== value) onSave(next)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      setDraft(null)
+    } else if (event.key === 'Enter' && !(multiline && event.shiftKey)) {
+      event.preventDefault()
+      save()
+    }
+  }
+
+  if (draft !== null) {
+    const fieldProps = {
+      value: draft,
+      onChange: (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft(event.target.value),
+      onKeyDown: handleKeyDown,
+      onBlur: save,
+      maxLength,
+      autoFocus: true,
+      'aria-label': label,
+      className: cn('w-full rounded-md border border-border bg-background px-2 py-1 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary', className),
+    }
+    return multiline ? <textarea rows={3} {...fieldProps} /> : <input type="text" {...fieldProps} />
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => setDraft(value)}
+      disabled={disabled}
+      title={disabled ? undefined : 'Click to edit'}
+      className={cn('block w-full text-left rounded cursor-text hover:bg-muted/50 disabled:cursor-default disabled:hover:bg-transparent', className)}
+    >
+      {children}
+    </button>
+  )
+}
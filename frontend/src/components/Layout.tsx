@@ -1,6 +1,7 @@
 import { ReactNode } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import Header from './Header'
+import ProjectSidebar from './ProjectSidebar'
 
 interface LayoutProps {
   children: ReactNode
@@ -12,9 +13,16 @@ export default function Layout({ children }: LayoutProps) {
   return (
     <div className="min-h-screen bg-background text-foreground">
       {user && <Header />}
-      <main className={user ? "container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8" : ""}>
-        {children}
-      </main>
+      {user ? (
+        <div className="container mx-auto flex flex-col gap-6 px-4 py-6 sm:px-6 sm:py-8 md:flex-row lg:px-8">
+          <aside className="md:sticky md:top-24 md:w-56 md:shrink-0 md:self-start">
+            <ProjectSidebar />
+          </aside>
+          <main className="flex-1 min-w-0">{children}</main>
+        </div>
+      ) : (
+        <main>{children}</main>
+      )}
     </div>
   )
-} 
\ No newline at end of file
+}
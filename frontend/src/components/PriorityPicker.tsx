@@ -0,0 +1,31 @@
+import { PRIORITY_OPTIONS } from '../lib/priority'
+import type { TodoPriority } from '../contexts/TodoContext'
+import { cn } from '../lib/utils'
+
+interface PriorityPickerProps {
+  value: TodoPriority
+  onChange: (value: TodoPriority) => void
+}
+
+export default function PriorityPicker({ value, onChange }: PriorityPickerProps) {
+  return (
+    <div role="radiogroup" aria-label="Priority" className="grid grid-cols-5 gap-1 p-1 rounded-lg bg-muted">
+      {PRIORITY_OPTIONS.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          role="radio"
+          aria-checked={value === option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            "flex items-center justify-center gap-1.5 rounded-md px-2 py-1.5 text-xs font-medium transition-colors",
+            value === option.value ? "bg-background shadow-sm" : "text-muted-foreground hover:text-foreground"
+          )}
+        >
+          <span className={cn("h-2 w-2 rounded-full shrink-0", option.dotClass)} />
+          <span className="truncate">{option.label}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
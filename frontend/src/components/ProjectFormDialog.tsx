@@ -0,0 +1,123 @@
+import { useState } from 'react'
+import type { Project, ProjectInput } from '../hooks/useProjects'
+import { SWATCH_COLORS } from '../lib/colors'
+import { PROJECT_ICONS } from '../lib/projects'
+import { cn } from '../lib/utils'
+import { Button } from './ui/Button'
+import { Input } from './ui/Input'
+import { Label } from './ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+
+interface ProjectFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Pre-fills the form for editing; omit to create a project
+  project?: Project
+  onSubmit: (input: ProjectInput) => Promise<unknown>
+}
+
+export default function ProjectFormDialog({ open, onOpenChange, project, onSubmit }: ProjectFormDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>{project ? 'Edit project' : 'New project'}</DialogTitle>
+          <DialogDescription>
+            {project ? 'Rename or restyle this project.' : 'Group related tasks into their own list.'}
+          </DialogDescription>
+        </DialogHeader>
+        {/* Remount per open so the fields start from the project being edited */}
+        {open && <ProjectForm project={project} onSubmit={onSubmit} onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface ProjectFormProps {
+  project?: Project
+  onSubmit: (input: ProjectInput) => Promise<unknown>
+  onDone: () => void
+}
+
+function ProjectForm({ project, onSubmit, onDone }: ProjectFormProps) {
+  const [name, setName] = useState(project?.name ?? '')
+  const [color, setColor] = useState(project?.color ?? SWATCH_COLORS[0])
+  const [icon, setIcon] = useState(project?.icon ?? 'folder')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+    setIsSaving(true)
+    try {
+      await onSubmit({ name: name.trim(), color, icon })
+      onDone()
+    } catch (error) {
+      console.error('Failed to save project:', error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="space-y-2">
+        <Label htmlFor="project-name">Name</Label>
+        <Input
+          id="project-name"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          maxLength={100}
+          placeholder="e.g., Home renovation"
+          autoFocus
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Color</Label>
+        <div role="radiogroup" aria-label="Color" className="flex flex-wrap gap-2">
+          {SWATCH_COLORS.map(swatch => (
+            <button
+              key={swatch}
+              type="button"
+              role="radio"
+              aria-checked={color === swatch}
+              aria-label={swatch}
+              onClick={() => setColor(swatch)}
+              className={cn("w-7 h-7 rounded-full transition-transform", color === swatch && "ring-2 ring-offset-2 ring-foreground scale-110")}
+              style={{ backgroundColor: swatch }}
+            />
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Icon</Label>
+        <div role="radiogroup" aria-label="Icon" className="grid grid-cols-5 gap-2">
+          {Object.entries(PROJECT_ICONS).map(([key, Icon]) => (
+            <button
+              key={key}
+              type="button"
+              role="radio"
+              aria-checked={icon === key}
+              aria-label={key}
+              onClick={() => setIcon(key)}
+              className={cn(
+                "flex items-center justify-center h-9 rounded-md border transition-colors",
+                icon === key ? "border-foreground bg-muted" : "border-transparent hover:bg-muted"
+              )}
+            >
+              <Icon className="w-4 h-4" style={{ color }} />
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex gap-3 pt-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" className="flex-1" disabled={!name.trim() || isSaving}>
+          {project ? 'Save' : 'Create project'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,179 @@
+import { useState } from 'react'
+import { Link, useLocation, useSearchParams } from 'react-router-dom'
+import { useProjects, type Project } from '../hooks/useProjects'
+import { getProjectIcon } from '../lib/projects'
+import { cn } from '../lib/utils'
+import ProjectFormDialog from './ProjectFormDialog'
+import { Button } from './ui/Button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu'
+import { Archive, ArchiveRestore, CalendarDays, ChevronRight, Columns3, Inbox, LayoutList, MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react'
+
+export default function ProjectSidebar() {
+  const { projects, archivedProjects, createProject, updateProject, deleteProject } = useProjects()
+  const { pathname } = useLocation()
+  const [searchParams] = useSearchParams()
+  const [editing, setEditing] = useState<Project | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [showArchived, setShowArchived] = useState(false)
+
+  // The selected project only applies on the dashboard
+  const current = pathname === '/' ? searchParams.get('project') ?? 'all' : null
+
+  const remove = async (project: Project) => {
+    if (!window.confirm(`Delete "${project.name}"? Its tasks will move to the inbox.`)) return
+    try {
+      await deleteProject(project.id)
+    } catch (error) {
+      console.error('Failed to delete project:', error)
+    }
+  }
+
+  const setArchived = async (project: Project, isArchived: boolean) => {
+    try {
+      await updateProject({ id: project.id, isArchived })
+    } catch (error) {
+      console.error('Failed to update project:', error)
+    }
+  }
+
+  const renderProject = (project: Project) => {
+    const Icon = getProjectIcon(project.icon)
+    return (
+      <li key={project.id} className="group relative">
+        <NavLink to={`/?project=${project.id}`} active={current === project.id}>
+          <Icon className="w-4 h-4 shrink-0" style={{ color: project.color }} />
+          <span className="flex-1 truncate">{project.name}</span>
+          {project.openCount > 0 && (
+            <span className="text-xs text-muted-foreground group-hover:invisible">{project.openCount}</span>
+          )}
+        </NavLink>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="absolute right-1 top-1/2 -translate-y-1/2 h-6 w-6 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+              aria-label={`Actions for ${project.name}`}
+            >
+              <MoreHorizontal className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-44">
+            <DropdownMenuItem onClick={() => setEditing(project)}>
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit
+            </DropdownMenuItem>
+            {project.isArchived ? (
+              <DropdownMenuItem onClick={() => setArchived(project, false)}>
+                <ArchiveRestore className="w-4 h-4 mr-2" />
+                Unarchive
+              </DropdownMenuItem>
+            ) : (
+              <DropdownMenuItem onClick={() => setArchived(project, true)}>
+                <Archive className="w-4 h-4 mr-2" />
+                Archive
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => remove(project)} className="text-red-600 focus:text-red-600">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </li>
+    )
+  }
+
+  return (
+    <nav aria-label="Projects" className="space-y-4 text-sm">
+      <ul className="space-y-1">
+        <li>
+          <NavLink to="/" active={current === 'all'}>
+            <LayoutList className="w-4 h-4 shrink-0" />
+            <span className="flex-1">All tasks</span>
+          </NavLink>
+        </li>
+        <li>
+          <NavLink to="/?project=none" active={current === 'none'}>
+            <Inbox className="w-4 h-4 shrink-0" />
+            <span className="flex-1">Inbox</span>
+          </NavLink>
+        </li>
+        <li>
+          <NavLink to="/calendar" active={pathname === '/calendar'}>
+            <CalendarDays className="w-4 h-4 shrink-0" />
+            <span className="flex-1">Calendar</span>
+          </NavLink>
+        </li>
+        <li>
+          <NavLink to="/board" active={pathname === '/board'}>
+            <Columns3 className="w-4 h-4 shrink-0" />
+            <span className="flex-1">Board</span>
+          </NavLink>
+        </li>
+      </ul>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between px-2">
+          <span className="text-xs font-semibold tracking-wide uppercase text-muted-foreground">Projects</span>
+          <Button variant="ghost" size="icon" className="w-6 h-6" onClick={() => setCreating(true)} aria-label="New project">
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+        <ul className="space-y-1">
+          {projects.map(renderProject)}
+          {projects.length === 0 && (
+            <li className="px-2 py-1 text-xs text-muted-foreground">No projects yet.</li>
+          )}
+        </ul>
+      </div>
+
+      {archivedProjects.length > 0 && (
+        <div className="space-y-1">
+          <button
+            type="button"
+            onClick={() => setShowArchived(!showArchived)}
+            aria-expanded={showArchived}
+            className="flex items-center gap-1 px-2 text-xs font-semibold tracking-wide uppercase text-muted-foreground hover:text-foreground"
+          >
+            <ChevronRight className={cn("w-3 h-3 transition-transform", showArchived && "rotate-90")} />
+            Archived ({archivedProjects.length})
+          </button>
+          {showArchived && <ul className="space-y-1 opacity-70">{archivedProjects.map(renderProject)}</ul>}
+        </div>
+      )}
+
+      <ProjectFormDialog open={creating} onOpenChange={setCreating} onSubmit={createProject} />
+      {editing && (
+        <ProjectFormDialog
+          open
+          onOpenChange={open => !open && setEditing(null)}
+          project={editing}
+          onSubmit={input => updateProject({ id: editing.id, ...input })}
+        />
+      )}
+    </nav>
+  )
+}
+
+function NavLink({ to, active, children }: { to: string; active: boolean; children: React.ReactNode }) {
+  return (
+    <Link
+      to={to}
+      aria-current={active ? 'page' : undefined}
+      className={cn(
+        "flex items-center gap-2 rounded-md px-2 py-1.5 pr-8 transition-colors",
+        active ? "bg-secondary text-secondary-foreground font-medium" : "text-muted-foreground hover:bg-muted hover:text-foreground"
+      )}
+    >
+      {children}
+    </Link>
+  )
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import { Input } from './ui/Input'
+import { cn } from '../lib/utils'
+import { getRecurrenceMode, getWeeklyDays, weeklyRule, WEEKDAYS, type RecurrenceMode } from '../lib/recurrence'
+
+interface RecurrencePickerProps {
+  // RRULE such as "FREQ=WEEKLY;BYDAY=MO", or '' for a one-off task
+  value: string
+  onChange: (value: string) => void
+}
+
+const MODES: { value: RecurrenceMode; label: string }[] = [
+  { value: 'none', label: 'Never' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Custom' },
+]
+
+const PRESET_RULES: Record<Exclude<RecurrenceMode, 'weekly' | 'custom'>, string> = {
+  none: '',
+  daily: 'FREQ=DAILY',
+  monthly: 'FREQ=MONTHLY',
+}
+
+export default function RecurrencePicker({ value, onChange }: RecurrencePickerProps) {
+  // Custom is sticky so typing a rule that happens to match a preset does not swap the editor out
+  const [custom, setCustom] = useState(() => getRecurrenceMode(value) === 'custom')
+  const mode = custom ? 'custom' : getRecurrenceMode(value)
+  const days = getWeeklyDays(value)
+
+  const selectMode = (next: RecurrenceMode) => {
+    setCustom(next === 'custom')
+    if (next === 'weekly') onChange(weeklyRule(days))
+    else if (next !== 'custom') onChange(PRESET_RULES[next])
+  }
+
+  const toggleDay = (code: string) =>
+    onChange(weeklyRule(days.includes(code) ? days.filter(day => day !== code) : [...days, code]))
+
+  return (
+    <div className="space-y-2">
+      <div role="radiogroup" aria-label="Repeat" className="grid grid-cols-5 gap-1 p-1 rounded-lg bg-muted">
+        {MODES.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={mode === option.value}
+            onClick={() => selectMode(option.value)}
+            className={cn(
+              "rounded-md px-2 py-1.5 text-xs font-medium transition-colors",
+              mode === option.value ? "bg-background shadow-sm" : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {mode === 'weekly' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map(day => (
+            <button
+              key={day.code}
+              type="button"
+              aria-pressed={days.includes(day.code)}
+              onClick={() => toggleDay(day.code)}
+              className={cn(
+                "h-8 w-11 rounded-md border text-xs font-medium transition-colors",
+                days.includes(day.code) ? "border-primary bg-primary text-primary-foreground" : "border-border hover:bg-muted"
+              )}
+            >
+              {day.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {mode === 'weekly' && days.length === 0 && (
+        <p className="text-xs text-muted-foreground">Repeats on the due date's weekday</p>
+      )}
+      {mode === 'custom' && (
+        <Input
+          value={value}
+          onChange={event => onChange(event.target.value.trim().replace(/^RRULE:/i, ''))}
+          placeholder="e.g., FREQ=MONTHLY;BYDAY=1MO"
+          aria-label="Custom recurrence rule"
+          className="h-11 font-mono text-xs"
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import { REMINDER_OPTIONS } from '../lib/reminders'
+import { cn } from '../lib/utils'
+
+interface ReminderPickerProps {
+  // Minutes before the due date
+  value: number[]
+  onChange: (value: number[]) => void
+}
+
+export default function ReminderPicker({ value, onChange }: ReminderPickerProps) {
+  const toggle = (offset: number) =>
+    onChange(value.includes(offset) ? value.filter(v => v !== offset) : [...value, offset].sort((a, b) => a - b))
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {REMINDER_OPTIONS.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          aria-pressed={value.includes(option.value)}
+          onClick={() => toggle(option.value)}
+          className={cn(
+            "rounded-full border px-3 py-1 text-xs font-medium transition-colors",
+            value.includes(option.value) ? "border-primary bg-primary text-primary-foreground" : "border-border text-muted-foreground hover:bg-muted hover:text-foreground"
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import { useTodos, type Todo } from '../contexts/TodoContext'
+import { useOutbox } from '../hooks/useOutbox'
+import { cn } from '../lib/utils'
+import TodoItem from './TodoItem'
+import { GripVertical } from 'lucide-react'
+
+// A todo being moved: the index it started at and the one it would end up at
+interface Move {
+  todo: Todo
+  from: number
+  to: number
+}
+
+const describePosition = (index: number, count: number) => `position ${index + 1} of ${count}`
+
+/**
+ * The todo list in manual order. A task's handle can be dragged with the mouse,
+ * or picked up with Space or Enter, moved with the arrow keys and dropped with
+ * Space or Enter again; Escape puts it back.
+ */
+export default function ReorderableTodoList({ todos }: { todos: Todo[] }) {
+  const { moveTodo } = useTodos()
+  const { entries } = useOutbox()
+  const [dragging, setDragging] = useState<Move | null>(null)
+  const [lifted, setLifted] = useState<Move | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  const instructionsId = useId()
+  const handles = useRef(new Map<string, HTMLButtonElement>())
+  // Reordering the list can take focus away from the handle of the task that moved
+  const refocusId = useRef<string | null>(null)
+
+  // Tasks created offline aren't on the server yet, so they can't be moved or be moved next to.
+  // They sort last, so every other task fits above them.
+  const localIds = new Set(entries.filter(entry => entry.kind === 'create').map(entry => entry.todoId))
+  const lastIndex = todos.filter(todo => !localIds.has(todo.id)).length - 1
+  const move = dragging ?? lifted
+  // The gap the moving task would drop into: before the task at this index, or after the last one
+  const gap = move && move.to !== move.from ? (move.to > move.from ? move.to + 1 : move.to) : null
+
+  useEffect(() => {
+    if (!refocusId.current) return
+    handles.current.get(refocusId.current)?.focus()
+    refocusId.current = null
+  }, [todos])
+
+  const drop = async ({ todo, from, to }: Move) => {
+    if (from === to) return
+    const others = todos.filter(item => item.id !== todo.id && !localIds.has(item.id))
+    try {
+      await moveTodo({ todo, before: others[to - 1] ?? null, after: others[to] ?? null })
+    } catch {
+      // Rolled back and reported by TodoContext
+    }
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent, todo: Todo, index: number) => {
+    const isToggle = event.key === ' ' || event.key === 'Enter'
+    if (!lifted) {
+      if (!isToggle) return
+      event.preventDefault()
+      setLifted({ todo, from: index, to: index })
+      setAnnouncement(`Picked up "${todo.name}" at ${describePosition(index, todos.length)}. Use the arrow keys to move it, Space or Enter to drop it, or Escape to cancel.`)
+      return
+    }
+    if (isToggle) {
+      event.preventDefault()
+      setLifted(null)
+      setAnnouncement(`Dropped "${todo.name}" at ${describePosition(lifted.to, todos.length)}.`)
+      refocusId.current = todo.id
+      drop(lifted)
+    } else if (event.key === 'Escape') {
+      event.preventDefault()
+      setLifted(null)
+      setAnnouncement(`Move cancelled. "${todo.name}" is back at ${describePosition(lifted.from, todos.length)}.`)
+    } else {
+      const targets: Record<string, number> = { ArrowUp: lifted.to - 1, ArrowDown: lifted.to + 1, Home: 0, End: lastIndex }
+      if (!(event.key in targets)) return
+      event.preventDefault()
+      const to = Math.min(Math.max(targets[event.key], 0), lastIndex)
+      setLifted({ ...lifted, to })
+      setAnnouncement(describePosition(to, todos.length))
+      handles.current.get(todos[to].id)?.scrollIntoView({ block: 'nearest' })
+    }
+  }
+
+  return (
+    <>
+      <p id={instructionsId} className="sr-only">
+        Press Space or Enter to pick up a task, the arrow keys to move it and Space or Enter again to drop it. Escape cancels the move.
+      </p>
+      <div aria-live="assertive" className="sr-only">
+        {announcement}
+      </div>
+      <ul className="space-y-3 sm:space-y-4">
+        {todos.map((todo, index) => {
+          const movable = !localIds.has(todo.id)
+          return (
+            <li
+              key={todo.id}
+              onDragOver={event => {
+                if (!dragging) return
+                event.preventDefault()
+                event.dataTransfer.dropEffect = 'move'
+                // The upper half of a task drops above it, the lower half below
+                const rect = event.currentTarget.getBoundingClientRect()
+                const target = index + (event.clientY > rect.top + rect.height / 2 ? 1 : 0)
+                const to = Math.min(target > dragging.from ? target - 1 : target, lastIndex)
+                if (to !== dragging.to) setDragging({ ...dragging, to })
+              }}
+              onDrop={event => {
+                event.preventDefault()
+                if (dragging) drop(dragging)
+                setDragging(null)
+              }}
+              className={cn(
+                'relative flex items-start gap-1',
+                dragging?.todo.id === todo.id && 'opacity-50',
+                lifted?.todo.id === todo.id && 'rounded-lg ring-2 ring-primary',
+              )}
+            >
+              {gap === index && <span aria-hidden className="absolute inset-x-0 h-0.5 rounded -top-2 bg-primary" />}
+              <button
+                type="button"
+                ref={element => {
+                  if (element) handles.current.set(todo.id, element)
+                  else handles.current.delete(todo.id)
+                }}
+                draggable={movable}
+                disabled={!movable}
+                onDragStart={event => {
+                  event.dataTransfer.effectAllowed = 'move'
+                  event.dataTransfer.setData('text/plain', todo.id)
+                  // Show the whole task under the pointer, not just the handle
+                  const row = event.currentTarget.parentElement
+                  if (row) event.dataTransfer.setDragImage(row, 16, 16)
+                  setDragging({ todo, from: index, to: index })
+                }}
+                onDragEnd={() => setDragging(null)}
+                onKeyDown={event => handleKeyDown(event, todo, index)}
+                onBlur={() => {
+                  if (lifted?.todo.id === todo.id) {
+                    setLifted(null)
+                    setAnnouncement(`Move cancelled. "${todo.name}" is back at ${describePosition(lifted.from, todos.length)}.`)
+                  }
+                }}
+                aria-label={`Reorder "${todo.name}"`}
+                aria-describedby={instructionsId}
+                title={movable ? 'Drag to reorder' : 'Can be reordered once synced'}
+                className="flex items-center justify-center w-6 h-8 mt-4 rounded shrink-0 text-muted-foreground cursor-grab hover:text-foreground active:cursor-grabbing focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                <GripVertical className="w-4 h-4" />
+              </button>
+              <div className="flex-1 min-w-0">
+                <TodoItem todo={todo} />
+              </div>
+              {gap === todos.length && index === todos.length - 1 && (
+                <span aria-hidden className="absolute inset-x-0 h-0.5 rounded -bottom-2 bg-primary" />
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </>
+  )
+}
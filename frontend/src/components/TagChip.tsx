@@ -0,0 +1,34 @@
+import type { Tag } from '../contexts/TodoContext'
+import { cn } from '../lib/utils'
+import { X } from 'lucide-react'
+
+interface TagChipProps {
+  tag: Tag
+  onClick?: () => void
+  onRemove?: () => void
+  className?: string
+}
+
+export default function TagChip({ tag, onClick, onRemove, className }: TagChipProps) {
+  const Wrapper = onClick ? 'button' : 'span'
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium max-w-[10rem]", className)}
+      // 1A = ~10% alpha on the tag's own color
+      style={{ borderColor: tag.color, backgroundColor: `${tag.color}1A`, color: tag.color }}
+    >
+      <Wrapper
+        {...(onClick && { type: 'button' as const, onClick })}
+        className={cn("truncate", onClick && "hover:underline")}
+        title={tag.name}
+      >
+        {tag.name}
+      </Wrapper>
+      {onRemove && (
+        <button type="button" onClick={onRemove} aria-label={`Remove tag ${tag.name}`} className="shrink-0 hover:opacity-70">
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </span>
+  )
+}
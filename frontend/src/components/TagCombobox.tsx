@@ -0,0 +1,104 @@
+import { useState } from 'react'
+import { useTags } from '../hooks/useTags'
+import TagChip from './TagChip'
+import { Input } from './ui/Input'
+import { Button } from './ui/Button'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Check, Plus, Tags } from 'lucide-react'
+import { cn } from '../lib/utils'
+
+interface TagComboboxProps {
+  value: string[]
+  onChange: (tagIds: string[]) => void
+  // Offer to create a tag when the typed name doesn't exist yet
+  allowCreate?: boolean
+  placeholder?: string
+}
+
+export default function TagCombobox({ value, onChange, allowCreate = false, placeholder = 'Add tags' }: TagComboboxProps) {
+  const { tags, createTag, isCreating } = useTags()
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+
+  const name = query.trim()
+  const matches = tags.filter(tag => tag.name.toLowerCase().includes(name.toLowerCase()))
+  const exactMatch = tags.find(tag => tag.name.toLowerCase() === name.toLowerCase())
+  const canCreate = allowCreate && name.length > 0 && name.length <= 50 && !exactMatch
+  const selected = tags.filter(tag => value.includes(tag.id))
+
+  const toggle = (tagId: string) =>
+    onChange(value.includes(tagId) ? value.filter(id => id !== tagId) : [...value, tagId])
+
+  const create = async () => {
+    try {
+      const tag = await createTag(name)
+      onChange([...value, tag.id])
+      setQuery('')
+    } catch (error) {
+      console.error('Failed to create tag:', error)
+    }
+  }
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return
+    // Keep Enter from submitting the surrounding form
+    e.preventDefault()
+    if (exactMatch) {
+      if (!value.includes(exactMatch.id)) toggle(exactMatch.id)
+      setQuery('')
+    } else if (canCreate) {
+      create()
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {selected.map(tag => (
+        <TagChip key={tag.id} tag={tag} onRemove={() => toggle(tag.id)} />
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="h-7 px-2 text-xs">
+            <Tags className="w-3.5 h-3.5 mr-1" />
+            {placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 p-2 space-y-2">
+          <Input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={onKeyDown}
+            placeholder={allowCreate ? 'Search or create...' : 'Search tags...'}
+            aria-label="Search tags"
+            className="h-8"
+          />
+          <div role="listbox" aria-multiselectable className="overflow-y-auto max-h-48">
+            {matches.map(tag => (
+              <button
+                key={tag.id}
+                type="button"
+                role="option"
+                aria-selected={value.includes(tag.id)}
+                onClick={() => toggle(tag.id)}
+                className="flex items-center w-full gap-2 px-2 py-1.5 text-sm rounded-md hover:bg-muted"
+              >
+                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: tag.color }} />
+                <span className="flex-1 text-left truncate">{tag.name}</span>
+                <Check className={cn("w-4 h-4", !value.includes(tag.id) && "invisible")} />
+              </button>
+            ))}
+            {matches.length === 0 && !canCreate && (
+              <p className="px-2 py-1.5 text-sm text-muted-foreground">No tags found.</p>
+            )}
+          </div>
+          {canCreate && (
+            <Button type="button" variant="ghost" size="sm" className="justify-start w-full" onClick={create} disabled={isCreating}>
+              <Plus className="w-4 h-4 mr-1" />
+              <span className="truncate">Create "{name}"</span>
+            </Button>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
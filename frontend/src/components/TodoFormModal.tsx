@@ -2,13 +2,22 @@ import { useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import * as z from 'zod'
-import api from '../api/client'
-import { useTodos } from '../contexts/TodoContext'
+import axios from 'axios'
+import { useTodos, type Todo } from '../contexts/TodoContext'
+import { toastError } from '../lib/toast'
+import { getConflictingTodo } from '../lib/conflict'
+import ConflictDialog from './ConflictDialog'
 import { Button } from './ui/Button'
 import { Input } from './ui/Input'
 import { Textarea } from './ui/Textarea'
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from './ui/form'
 import { DateTimePicker } from './ui/date-time-picker'
+import PriorityPicker from './PriorityPicker'
+import TagCombobox from './TagCombobox'
+import RecurrencePicker from './RecurrencePicker'
+import ReminderPicker from './ReminderPicker'
+import { useProjects } from '../hooks/useProjects'
+import { useTags } from '../hooks/useTags'
 import {
   Dialog,
   DialogContent,
@@ -17,67 +26,181 @@ import {
   DialogTitle,
   DialogTrigger,
 } from './ui/dialog'
-import { Plus, Calendar, FileText, Tag } from 'lucide-react'
+import { Plus, Bell, Calendar, FileText, Flag, Folder, Pencil, Repeat, Save, Tag, Tags } from 'lucide-react'
 
 const todoSchema = z.object({
   name: z.string().min(1, 'Task name is required').max(100, 'Task name is too long'),
   shortDescription: z.string().min(1, 'Description is required').max(500, 'Description is too long'),
   dateTime: z.string().nonempty('Date and time is required'),
+  priority: z.enum(['none', 'low', 'medium', 'high', 'urgent']),
+  // RRULE, or '' for a one-off task
+  recurrence: z.string().max(500, 'Rule is too long'),
+  // Minutes before the due date to send an email reminder
+  reminderOffsets: z.array(z.number()).max(5, 'Pick at most 5 reminders'),
+  tagIds: z.array(z.string()),
+  // '' keeps the task in the inbox
+  projectId: z.string(),
 })
 
 type TodoFormValues = z.infer<typeof todoSchema>
 
 interface TodoFormModalProps {
   trigger?: React.ReactNode
+  // Edit this todo instead of creating a new one
+  todo?: Todo
+  // Makes the dialog controlled, e.g. when a TodoItem opens it for editing
+  open?: boolean
+  onOpenChange?: (open: boolean) => void
+  // Due date for a new todo, as a UTC "YYYY-MM-DDTHH:mm" string like the date picker's
+  defaultDateTime?: string
 }
 
-export default function TodoFormModal({ trigger }: TodoFormModalProps) {
-  const { refetch } = useTodos()
-  const [open, setOpen] = useState(false)
+// Form values for an existing todo; the picker works with UTC "YYYY-MM-DDTHH:mm" strings
+const valuesFromTodo = (todo: Todo): TodoFormValues => ({
+  name: todo.name,
+  shortDescription: todo.shortDescription,
+  dateTime: new Date(todo.dateTime).toISOString().slice(0, 16),
+  priority: todo.priority,
+  recurrence: todo.recurrence ?? '',
+  reminderOffsets: todo.reminderOffsets,
+  tagIds: todo.tags.map(tag => tag.id),
+  projectId: todo.projectId ?? '',
+})
+
+export default function TodoFormModal({ trigger, todo, open: controlledOpen, onOpenChange, defaultDateTime = '' }: TodoFormModalProps) {
+  const { createTodo, updateTodo, projectId } = useTodos()
+  const { projects, archivedProjects } = useProjects()
+  const { tags } = useTags()
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false)
+  const open = controlledOpen ?? uncontrolledOpen
+  const setOpen = (next: boolean) => {
+    setUncontrolledOpen(next)
+    onOpenChange?.(next)
+  }
+  // The copy of the todo being edited; replaced by the server's when the user reloads after a conflict
+  const [base, setBase] = useState(todo)
+  const [conflict, setConflict] = useState<{ data: TodoFormValues; server: Todo } | null>(null)
+  // New tasks land in the project currently shown on the dashboard
+  const currentProjectId = projectId && projectId !== 'none' ? projectId : ''
   const form = useForm<TodoFormValues>({
     resolver: zodResolver(todoSchema),
-    defaultValues: {
-      name: '',
-      shortDescription: '',
-      dateTime: '',
-    },
+    defaultValues: todo
+      ? valuesFromTodo(todo)
+      : {
+          name: '',
+          shortDescription: '',
+          dateTime: defaultDateTime,
+          priority: 'none',
+          recurrence: '',
+          reminderOffsets: [],
+          tagIds: [],
+          projectId: currentProjectId,
+        },
   })
+  // Keep a todo's archived project selectable rather than silently showing "Inbox"
+  const projectOptions = [...projects, ...archivedProjects.filter(project => project.id === form.getValues('projectId'))]
 
-  const onSubmit = async (data: TodoFormValues) => {
-    try {
-      await api.post('/todos', data)
+  const handleOpenChange = (next: boolean) => {
+    if (next && !todo && !form.formState.isDirty) form.setValue('projectId', currentProjectId)
+    setOpen(next)
+  }
+
+  // The fields of a todo as the form describes them, for showing it before the server answers
+  const previewFields = (data: TodoFormValues) => ({
+    name: data.name,
+    shortDescription: data.shortDescription,
+    dateTime: new Date(`${data.dateTime}Z`).toISOString(),
+    priority: data.priority,
+    recurrence: data.recurrence || null,
+    reminderOffsets: [...data.reminderOffsets].sort((a, b) => a - b),
+    projectId: data.projectId || null,
+    tags: tags.filter(tag => data.tagIds.includes(tag.id)),
+  })
+
+  // How the task shows up in the list while it waits in the offline outbox
+  const localTodo = (data: TodoFormValues): Todo => ({
+    ...previewFields(data),
+    id: crypto.randomUUID(),
+    status: 'todo',
+    isDone: false,
+    // Sorts after every real rank, where the server will append it
+    position: '~',
+    checklistProgress: { done: 0, total: 0 },
+    version: 0,
+  })
+
+  const save = async (data: TodoFormValues, version?: number) => {
+    if (base) {
+      // PUT replaces every field, so carry over the one the form doesn't show
+      const body = { ...data, status: base.status, projectId: data.projectId || null, recurrence: data.recurrence || null }
+      await updateTodo({ todo: base, changes: previewFields(data), body, replace: true, version })
+    } else {
+      const body = { ...data, projectId: data.projectId || undefined, recurrence: data.recurrence || undefined }
+      await createTodo({ body, preview: localTodo(data) })
       form.reset()
-      await refetch()
-      setOpen(false)
+    }
+    setOpen(false)
+  }
+
+  const onSubmit = async (data: TodoFormValues, version?: number) => {
+    try {
+      await save(data, version)
     } catch (error) {
-      console.error('Failed to create todo:', error)
+      const server = getConflictingTodo(error)
+      if (server) {
+        setConflict({ data, server })
+        return
+      }
+      // Custom rules are only fully validated by the API; other failures were already reported by TodoContext
+      const errors = axios.isAxiosError(error) ? (error.response?.data as { errors?: { property: string; constraints: Record<string, string> }[] })?.errors : undefined
+      if (!errors) return
+      const fields = form.getValues()
+      errors.forEach(({ property, constraints }) => {
+        if (property in fields) form.setError(property as keyof TodoFormValues, { type: 'manual', message: Object.values(constraints)[0] })
+      })
+      if (errors.some(({ property }) => !(property in fields))) toastError(base ? "Couldn't save the task" : "Couldn't add the task", error)
     }
   }
 
+  const reloadFromServer = () => {
+    if (!conflict) return
+    setBase(conflict.server)
+    form.reset(valuesFromTodo(conflict.server))
+    setConflict(null)
+  }
+
+  const overwrite = () => {
+    if (!conflict) return
+    setConflict(null)
+    onSubmit(conflict.data, conflict.server.version)
+  }
+
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        {trigger || (
-          <Button className="h-11">
-            <Plus className="w-4 h-4 mr-2" />
-            Add New Task
-          </Button>
-        )}
-      </DialogTrigger>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      {(trigger || (!todo && controlledOpen === undefined)) && (
+        <DialogTrigger asChild>
+          {trigger || (
+            <Button className="h-11">
+              <Plus className="w-4 h-4 mr-2" />
+              Add New Task
+            </Button>
+          )}
+        </DialogTrigger>
+      )}
       <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center space-x-2">
             <div className="flex items-center justify-center w-8 h-8 rounded-lg bg-primary/10">
-              <Plus className="w-4 h-4 text-primary" />
+              {todo ? <Pencil className="w-4 h-4 text-primary" /> : <Plus className="w-4 h-4 text-primary" />}
             </div>
-            <span>Add New Task</span>
+            <span>{todo ? 'Edit Task' : 'Add New Task'}</span>
           </DialogTitle>
           <DialogDescription>
-            Create a new task to stay organized and productive.
+            {todo ? 'Update the details of this task.' : 'Create a new task to stay organized and productive.'}
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <form onSubmit={form.handleSubmit(data => onSubmit(data))} className="space-y-6">
             <FormField
               control={form.control}
               name="name"
@@ -138,6 +261,94 @@ export default function TodoFormModal({ trigger }: TodoFormModalProps) {
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="priority"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center space-x-2">
+                    <Flag className="w-4 h-4" />
+                    <span>Priority</span>
+                  </FormLabel>
+                  <FormControl>
+                    <PriorityPicker value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="reminderOffsets"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center space-x-2">
+                    <Bell className="w-4 h-4" />
+                    <span>Email Reminders</span>
+                  </FormLabel>
+                  <FormControl>
+                    <ReminderPicker value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="recurrence"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center space-x-2">
+                    <Repeat className="w-4 h-4" />
+                    <span>Repeat</span>
+                  </FormLabel>
+                  <FormControl>
+                    <RecurrencePicker value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="tagIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center space-x-2">
+                    <Tags className="w-4 h-4" />
+                    <span>Tags</span>
+                  </FormLabel>
+                  <FormControl>
+                    <TagCombobox value={field.value} onChange={field.onChange} allowCreate />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="projectId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center space-x-2">
+                    <Folder className="w-4 h-4" />
+                    <span>Project</span>
+                  </FormLabel>
+                  <FormControl>
+                    <select
+                      {...field}
+                      className="flex w-full h-11 px-3 py-2 text-sm border rounded-md border-border bg-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                    >
+                      <option value="">Inbox</option>
+                      {projectOptions.map(project => (
+                        <option key={project.id} value={project.id}>{project.name}</option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             <div className="flex gap-3 pt-4">
               <Button 
                 type="button" 
@@ -155,7 +366,12 @@ export default function TodoFormModal({ trigger }: TodoFormModalProps) {
                 {form.formState.isSubmitting ? (
                   <>
                     <div className="w-4 h-4 mr-2 border-2 rounded-full animate-spin border-background border-t-transparent" />
-                    Adding...
+                    {todo ? 'Saving...' : 'Adding...'}
+                  </>
+                ) : todo ? (
+                  <>
+                    <Save className="w-4 h-4 mr-2" />
+                    Save Changes
                   </>
                 ) : (
                   <>
@@ -168,6 +384,12 @@ export default function TodoFormModal({ trigger }: TodoFormModalProps) {
           </form>
         </Form>
       </DialogContent>
+      <ConflictDialog
+        serverTodo={conflict?.server ?? null}
+        onReload={reloadFromServer}
+        onOverwrite={overwrite}
+        onCancel={() => setConflict(null)}
+      />
     </Dialog>
   )
 } 
\ No newline at end of file
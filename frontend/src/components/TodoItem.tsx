@@ -1,42 +1,71 @@
-import api from '../api/client'
-import { useTodos } from '../contexts/TodoContext'
+import { useState } from 'react'
+import { useTodos, type Todo, type TodoHighlights } from '../contexts/TodoContext'
+import { getConflictingTodo } from '../lib/conflict'
+import { discardEntry, overwriteConflict } from '../lib/outbox'
+import { useOutbox } from '../hooks/useOutbox'
+import HighlightedText from './HighlightedText'
+import ConflictDialog from './ConflictDialog'
+import TagChip from './TagChip'
+import ChecklistEditor from './ChecklistEditor'
+import InlineEdit from './InlineEdit'
+import TodoFormModal from './TodoFormModal'
+import { useProjects } from '../hooks/useProjects'
+import { getProjectIcon } from '../lib/projects'
 import { Card, CardContent } from './ui/Card'
 import { Button } from './ui/Button'
 import { Checkbox } from '@/components/ui/checkbox'
-import { Trash2, Clock, Calendar } from 'lucide-react'
+import { Pencil, Trash2, Clock, Calendar, Flag, ListChecks, ChevronDown, Repeat, Bell, CloudOff, AlertTriangle } from 'lucide-react'
 import { cn } from '../lib/utils'
+import { getPriorityOption } from '../lib/priority'
+import { getStatusOption, statusChanges } from '../lib/status'
+import { describeRecurrence } from '../lib/recurrence'
+import { formatReminderOffset } from '../lib/reminders'
 
-interface Todo {
-  id: string
-  name: string
-  shortDescription: string
-  dateTime: string
-  isDone: boolean
+interface TodoItemProps {
+  todo: Todo
+  highlights?: TodoHighlights
 }
 
-export default function TodoItem({ todo }: { todo: Todo }) {
-  const { refetch } = useTodos()
+export default function TodoItem({ todo, highlights }: TodoItemProps) {
+  const { refetch, projectId, tagFilter, setTagFilter, updateTodo, toggleTodo, deleteTodo } = useTodos()
+  const { projects, archivedProjects } = useProjects()
+  // Only label the project when the list mixes todos from several projects
+  const project = projectId ? undefined : [...projects, ...archivedProjects].find(p => p.id === todo.projectId)
+  const ProjectIcon = project && getProjectIcon(project.icon)
+  const [showChecklist, setShowChecklist] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [conflict, setConflict] = useState<{ changes: Partial<Todo>; server: Todo } | null>(null)
+  const [showQueuedConflict, setShowQueuedConflict] = useState(false)
+  const { entries } = useOutbox()
+  const queued = entries.filter(entry => entry.todoId === todo.id)
+  // Only exists on this device until the outbox is replayed, so the server knows nothing about it yet
+  const isLocalOnly = queued.some(entry => entry.kind === 'create')
+  const stuck = queued.find(entry => entry.status !== 'pending')
 
-  const toggleDone = async () => {
-    try {
-      await api.put(`/todos/${todo.id}`, { isDone: !todo.isDone })
-      refetch()
-    } catch (error) {
-      console.error("Failed to toggle todo status:", error)
-      // Optionally, show an error message to the user
-    }
+  // Other failures are rolled back and reported by TodoContext; only conflicts need handling here
+  const handleConflict = (changes: Partial<Todo>) => (error: unknown) => {
+    const server = getConflictingTodo(error)
+    if (server) setConflict({ changes, server })
   }
 
-  const deleteTodo = async () => {
-    try {
-      await api.delete(`/todos/${todo.id}`)
-      refetch()
-    } catch (error) {
-      console.error("Failed to delete todo:", error)
-      // Optionally, show an error message to the user
-    }
+  const overwrite = async () => {
+    if (!conflict) return
+    const { changes, server } = conflict
+    setConflict(null)
+    await updateTodo({ todo, changes, version: server.version }).catch(handleConflict(changes))
   }
 
+  // Clicking a chip narrows the list to that tag
+  const filterByTag = (tagId: string) => {
+    if (!tagFilter.includes(tagId)) setTagFilter([...tagFilter, tagId])
+  }
+
+  const toggleDone = () => toggleTodo(todo).catch(handleConflict(statusChanges(todo.isDone ? 'todo' : 'done')))
+
+  const saveField = (changes: Partial<Todo>) => updateTodo({ todo, changes }).catch(handleConflict(changes))
+
+  const remove = () => deleteTodo(todo).catch(() => {})
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
     const now = new Date()
@@ -56,13 +85,17 @@ export default function TodoItem({ todo }: { todo: Todo }) {
   }
 
   const { formatted: formattedDate, isOverdue } = formatDate(todo.dateTime)
+  const priority = getPriorityOption(todo.priority)
+  const status = getStatusOption(todo.status)
+  const checklist = todo.checklistProgress
 
   return (
     <Card className={cn(
       "overflow-hidden transition-all duration-200 hover:shadow-md border-l-4",
       todo.isDone && "bg-muted/30 border-muted border-l-muted",
       isOverdue && !todo.isDone && "border-destructive/50 bg-destructive/5 border-l-destructive",
-      !todo.isDone && !isOverdue && "border-l-primary/30"
+      // The left accent reflects priority; unprioritized todos keep the plain/overdue accent
+      !todo.isDone && (todo.priority !== 'none' || !isOverdue) && priority.borderClass
     )}>
       <CardContent className="p-4 sm:p-6">
         <div className="flex items-start gap-3 sm:gap-4">
@@ -70,27 +103,43 @@ export default function TodoItem({ todo }: { todo: Todo }) {
             id={`todo-${todo.id}`}
             checked={todo.isDone}
             onCheckedChange={toggleDone}
+            aria-labelledby={`todo-${todo.id}-name`}
             className="mt-1 shrink-0"
           />
           <div className="flex-1 space-y-2 min-w-0 text-left">
-            <label
-              htmlFor={`todo-${todo.id}`}
+            {/* Clicking the title edits it, so it no longer toggles the checkbox like a label would */}
+            <InlineEdit
+              value={todo.name}
+              onSave={name => saveField({ name })}
+              label="Task name"
+              maxLength={100}
               className={cn(
-                "font-medium cursor-pointer text-sm sm:text-base leading-tight block text-left",
+                "font-medium text-sm sm:text-base leading-tight",
                 todo.isDone && "line-through text-muted-foreground"
               )}
             >
-              {todo.name}
-            </label>
+              <span id={`todo-${todo.id}-name`}>
+                {highlights?.name ? <HighlightedText text={highlights.name} /> : todo.name}
+              </span>
+            </InlineEdit>
             {todo.shortDescription && (
-              <p
+              <InlineEdit
+                value={todo.shortDescription}
+                onSave={shortDescription => saveField({ shortDescription })}
+                label="Task description"
+                maxLength={500}
+                multiline
                 className={cn(
-                  "text-xs sm:text-sm text-muted-foreground leading-relaxed text-left",
+                  "text-xs sm:text-sm text-muted-foreground leading-relaxed whitespace-pre-line",
                   todo.isDone && "line-through"
                 )}
               >
-                {todo.shortDescription}
-              </p>
+                {highlights?.shortDescription ? (
+                  <HighlightedText text={highlights.shortDescription} />
+                ) : (
+                  todo.shortDescription
+                )}
+              </InlineEdit>
             )}
             <div className={cn(
               "flex items-center space-x-2 text-xs",
@@ -114,12 +163,103 @@ export default function TodoItem({ todo }: { todo: Todo }) {
                   })}
                 </span>
               </span>
+              {todo.priority !== 'none' && (
+                <span className={cn("flex items-center gap-1 font-medium shrink-0", priority.textClass)}>
+                  <Flag className="h-3 w-3" />
+                  {priority.label}
+                </span>
+              )}
+              {/* The checkbox already shows todo vs. done; other statuses get a label */}
+              {todo.status !== 'todo' && todo.status !== 'done' && (
+                <span className="flex items-center gap-1 font-medium shrink-0">
+                  <span className={cn("h-2 w-2 rounded-full", status.dotClass)} />
+                  {status.label}
+                </span>
+              )}
+              {todo.recurrence && (
+                <span className="flex items-center gap-1 shrink-0" title={todo.recurrence}>
+                  <Repeat className="h-3 w-3" />
+                  <span className="hidden sm:inline">{describeRecurrence(todo.recurrence)}</span>
+                </span>
+              )}
+              {todo.reminderOffsets.length > 0 && !todo.isDone && (
+                <span
+                  className="flex items-center gap-1 shrink-0"
+                  title={`Email reminders: ${todo.reminderOffsets.map(formatReminderOffset).join(', ')}`}
+                >
+                  <Bell className="h-3 w-3" />
+                  <span className="hidden sm:inline">{todo.reminderOffsets.length}</span>
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => setShowChecklist(!showChecklist)}
+                disabled={isLocalOnly}
+                aria-expanded={showChecklist}
+                aria-label={checklist.total > 0 ? `Checklist, ${checklist.done} of ${checklist.total} done` : 'Add checklist'}
+                className={cn(
+                  "flex items-center gap-1 font-medium shrink-0 rounded hover:text-foreground",
+                  checklist.total > 0 && checklist.done === checklist.total && "text-green-600"
+                )}
+              >
+                <ListChecks className="h-3 w-3" />
+                {checklist.total > 0 && `${checklist.done}/${checklist.total}`}
+                <ChevronDown className={cn("h-3 w-3 transition-transform", showChecklist && "rotate-180")} />
+              </button>
+              {project && ProjectIcon && (
+                <span className="flex items-center gap-1 truncate text-muted-foreground">
+                  <ProjectIcon className="h-3 w-3 shrink-0" style={{ color: project.color }} />
+                  <span className="truncate">{project.name}</span>
+                </span>
+              )}
             </div>
+            {queued.length > 0 && !stuck && (
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-muted text-muted-foreground">
+                <CloudOff className="h-3 w-3" />
+                Waiting to sync
+              </span>
+            )}
+            {stuck?.status === 'conflict' && (
+              <button
+                type="button"
+                onClick={() => setShowQueuedConflict(true)}
+                className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-destructive/10 text-destructive hover:bg-destructive/20"
+              >
+                <AlertTriangle className="h-3 w-3" />
+                Sync conflict · Resolve
+              </button>
+            )}
+            {stuck?.status === 'failed' && (
+              <div className="flex flex-wrap items-center gap-2 text-xs text-destructive">
+                <AlertTriangle className="h-3 w-3 shrink-0" />
+                <span>Couldn't sync: {stuck.error}</span>
+                <button type="button" onClick={() => discardEntry(stuck.id)} className="font-medium underline underline-offset-2">
+                  Discard change
+                </button>
+              </div>
+            )}
+            {showChecklist && <ChecklistEditor todoId={todo.id} />}
+            {todo.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {todo.tags.map(tag => (
+                  <TagChip key={tag.id} tag={tag} onClick={() => filterByTag(tag.id)} />
+                ))}
+              </div>
+            )}
           </div>
           <Button
             variant="ghost"
             size="icon"
-            onClick={deleteTodo}
+            onClick={() => setEditing(true)}
+            className="shrink-0 text-muted-foreground hover:text-foreground rounded-full h-8 w-8 sm:h-9 sm:w-9 transition-colors"
+            aria-label="Edit task"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={remove}
             className="shrink-0 text-muted-foreground hover:text-destructive hover:bg-destructive/10 rounded-full h-8 w-8 sm:h-9 sm:w-9 transition-colors"
             aria-label="Delete task"
           >
@@ -127,6 +267,29 @@ export default function TodoItem({ todo }: { todo: Todo }) {
           </Button>
         </div>
       </CardContent>
+      {editing && <TodoFormModal todo={todo} open onOpenChange={setEditing} />}
+      <ConflictDialog
+        serverTodo={conflict?.server ?? null}
+        onReload={() => {
+          setConflict(null)
+          refetch()
+        }}
+        onOverwrite={overwrite}
+        onCancel={() => setConflict(null)}
+      />
+      <ConflictDialog
+        serverTodo={showQueuedConflict && stuck?.status === 'conflict' ? stuck.server ?? null : null}
+        onReload={() => {
+          setShowQueuedConflict(false)
+          if (stuck) discardEntry(stuck.id)
+          refetch()
+        }}
+        onOverwrite={() => {
+          setShowQueuedConflict(false)
+          if (stuck) overwriteConflict(stuck)
+        }}
+        onCancel={() => setShowQueuedConflict(false)}
+      />
     </Card>
   )
 } 
\ No newline at end of file
@@ -1,28 +1,72 @@
-import { useTodos } from '../contexts/TodoContext'
+import { useEffect, useRef } from 'react'
+import { useTodos, type FilterType, type SortType } from '../contexts/TodoContext'
 import TodoItem from './TodoItem'
+import ReorderableTodoList from './ReorderableTodoList'
+import TrashItem from './TrashItem'
+import TagCombobox from './TagCombobox'
+import { useProjects } from '../hooks/useProjects'
+import { useOutbox } from '../hooks/useOutbox'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from './ui/Card'
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { CheckSquare, Clock, List } from 'lucide-react'
+import { Input } from './ui/Input'
+import { Button } from './ui/Button'
+import { ArrowUpDown, CheckSquare, Clock, CloudOff, List, Search, Trash2, X } from 'lucide-react'
 
 export default function TodoList() {
-  const { todos, filter, setFilter } = useTodos()
+  const {
+    projectId,
+    todos,
+    total,
+    filter,
+    setFilter,
+    sort,
+    setSort,
+    tagFilter,
+    setTagFilter,
+    tagMatch,
+    setTagMatch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    searchQuery,
+    setSearchQuery,
+    searchResults,
+    isSearching,
+  } = useTodos()
+  const { projects, archivedProjects } = useProjects()
+  const { entries: outbox } = useOutbox()
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+  const project = [...projects, ...archivedProjects].find(p => p.id === projectId)
+  const title = project?.name ?? (projectId === 'none' ? 'Inbox' : 'Your Tasks')
+  const description = project
+    ? 'Tasks in this project.'
+    : projectId === 'none'
+      ? 'Tasks that are not in any project.'
+      : 'Manage and track your progress across all your tasks.'
+
+  // Load the next page when the sentinel below the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !hasNextPage || searchResults) return
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage()
+    }, { rootMargin: '200px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage, searchResults])
   
   const filterOptions = [
     { key: 'ALL', label: 'All', shortLabel: 'All', icon: List },
     { key: 'UPCOMING', label: 'Pending', shortLabel: 'Pending', icon: Clock },
     { key: 'COMPLETED', label: 'Completed', shortLabel: 'Done', icon: CheckSquare },
+    { key: 'TRASH', label: 'Trash', shortLabel: 'Trash', icon: Trash2 },
   ]
 
-  const getTaskCount = () => {
-    switch (filter) {
-      case 'COMPLETED':
-        return todos.filter(todo => todo.isDone).length
-      case 'UPCOMING':
-        return todos.filter(todo => !todo.isDone).length
-      default:
-        return todos.length
-    }
-  }
+  const sortOptions: { key: SortType; label: string }[] = [
+    { key: 'DATE', label: 'Due date' },
+    { key: 'PRIORITY', label: 'Priority' },
+    { key: 'MANUAL', label: 'Manual' },
+  ]
 
   return (
     <Card className="w-full">
@@ -33,20 +77,56 @@ export default function TodoList() {
               <List className="w-4 h-4 text-primary" />
             </div>
             <div>
-              <CardTitle className="text-xl">Your Tasks</CardTitle>
+              <CardTitle className="text-xl">{title}</CardTitle>
               <CardDescription className="mt-1">
-                Manage and track your progress across all your tasks.
+                {description}
               </CardDescription>
             </div>
           </div>
-          <div className="text-sm text-muted-foreground whitespace-nowrap">
-            {getTaskCount()} {getTaskCount() === 1 ? 'task' : 'tasks'}
+          <div className="space-y-1 text-sm text-muted-foreground whitespace-nowrap sm:text-right">
+            <div>
+              {searchResults
+                ? `${searchResults.length} ${searchResults.length === 1 ? 'match' : 'matches'}`
+                : `${total} ${total === 1 ? 'task' : 'tasks'}`}
+            </div>
+            {outbox.length > 0 && (
+              <div className="flex items-center gap-1 text-xs sm:justify-end">
+                <CloudOff className="w-3 h-3" />
+                {outbox.length} {outbox.length === 1 ? 'change' : 'changes'} waiting to sync
+              </div>
+            )}
           </div>
         </div>
         
+        {/* Search */}
+        {filter !== 'TRASH' && (
+          <div className="relative">
+            <Search className="absolute w-4 h-4 -translate-y-1/2 left-3 top-1/2 text-muted-foreground" />
+            <Input
+              value={searchQuery}
+              onChange={e => setSearchQuery(e.target.value)}
+              placeholder="Search tasks..."
+              aria-label="Search tasks"
+              className="pl-9 pr-9 h-11"
+            />
+            {isSearching ? (
+              <div className="absolute w-4 h-4 -translate-y-1/2 border-2 rounded-full right-3 top-1/2 animate-spin border-primary border-t-transparent" />
+            ) : searchQuery && (
+              <button
+                type="button"
+                onClick={() => setSearchQuery('')}
+                className="absolute -translate-y-1/2 right-3 top-1/2 text-muted-foreground hover:text-foreground"
+                aria-label="Clear search"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Filter Tabs */}
-        <Tabs value={filter} onValueChange={(value) => setFilter(value as 'ALL' | 'COMPLETED' | 'UPCOMING')} className="w-full">
-          <TabsList className="grid w-full grid-cols-3 h-11">
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as FilterType)} className="w-full">
+          <TabsList className="grid w-full grid-cols-4 h-11">
             {filterOptions.map(({ key, label, shortLabel, icon: Icon }) => (
               <TabsTrigger key={key} value={key} className="flex items-center justify-center px-2 space-x-1 text-xs sm:space-x-2 sm:text-sm">
                 <Icon className="flex-shrink-0 w-3 h-3 sm:h-4 sm:w-4" />
@@ -56,14 +136,86 @@ export default function TodoList() {
             ))}
           </TabsList>
         </Tabs>
+
+        {/* Tag filter and sort */}
+        {filter !== 'TRASH' && (
+          <div className="flex flex-col gap-2 text-sm sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex flex-wrap items-center gap-2">
+              <TagCombobox value={tagFilter} onChange={setTagFilter} placeholder="Filter by tag" />
+              {tagFilter.length > 1 && (
+                <div className="flex items-center gap-1">
+                  <span className="text-muted-foreground">Match</span>
+                  {(['any', 'all'] as const).map(match => (
+                    <Button
+                      key={match}
+                      variant={tagMatch === match ? 'secondary' : 'ghost'}
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => setTagMatch(match)}
+                    >
+                      {match === 'any' ? 'Any' : 'All'}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              {tagFilter.length > 0 && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setTagFilter([])}>
+                  Clear
+                </Button>
+              )}
+            </div>
+            {!searchResults && (
+              <div className="flex items-center justify-end gap-2">
+                <ArrowUpDown className="w-4 h-4 text-muted-foreground" />
+                <span className="text-muted-foreground">Sort by</span>
+                {sortOptions.map(({ key, label }) => (
+                  <Button
+                    key={key}
+                    variant={sort === key ? 'secondary' : 'ghost'}
+                    size="sm"
+                    className="h-8"
+                    onClick={() => setSort(key)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </CardHeader>
       
       <CardContent className="p-4 space-y-4 sm:p-6">
-        {todos.length > 0 ? (
+        {searchResults ? (
+          searchResults.length > 0 ? (
+            <div className="space-y-3 sm:space-y-4">
+              {searchResults.map(result => (
+                <TodoItem key={result.id} todo={result} highlights={result.highlights} />
+              ))}
+            </div>
+          ) : (
+            <div className="py-12 text-center sm:py-16">
+              <div className="flex items-center justify-center w-12 h-12 mx-auto mb-4 rounded-full sm:h-16 sm:w-16 bg-muted">
+                <Search className="w-6 h-6 sm:h-8 sm:w-8 text-muted-foreground" />
+              </div>
+              <h3 className="mb-2 text-lg font-medium sm:text-xl">No matching tasks</h3>
+              <p className="max-w-md mx-auto text-sm sm:text-base text-muted-foreground">
+                Try different keywords or clear the search.
+              </p>
+            </div>
+          )
+        ) : todos.length > 0 ? (
           <div className="space-y-3 sm:space-y-4">
-            {todos.map(todo => (
-              <TodoItem key={todo.id} todo={todo} />
-            ))}
+            {filter === 'TRASH'
+              ? todos.map(todo => <TrashItem key={todo.id} todo={todo} />)
+              : sort === 'MANUAL'
+                ? <ReorderableTodoList todos={todos} />
+                : todos.map(todo => <TodoItem key={todo.id} todo={todo} />)}
+            <div ref={loadMoreRef} className="flex justify-center py-2 text-sm text-muted-foreground">
+              {isFetchingNextPage && (
+                <div className="w-5 h-5 border-2 rounded-full animate-spin border-primary border-t-transparent" />
+              )}
+            </div>
           </div>
         ) : (
           <div className="py-12 text-center sm:py-16">
@@ -73,12 +225,16 @@ export default function TodoList() {
             <h3 className="mb-2 text-lg font-medium sm:text-xl">
               {filter === 'ALL'
                 ? "No tasks yet"
-                : `No ${filter.toLowerCase()} tasks`}
+                : filter === 'TRASH'
+                  ? "Trash is empty"
+                  : `No ${filter.toLowerCase()} tasks`}
             </h3>
             <p className="max-w-md mx-auto text-sm sm:text-base text-muted-foreground">
               {filter === 'ALL'
                 ? "Add your first task to get started!"
-                : `You don't have any ${filter.toLowerCase()} tasks right now.`}
+                : filter === 'TRASH'
+                  ? "Deleted tasks stay here until you restore them or they are purged."
+                  : `You don't have any ${filter.toLowerCase()} tasks right now.`}
             </p>
           </div>
         )}
@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import api from '../api/client'
+import { useTodos, type Todo } from '../contexts/TodoContext'
+import { Card, CardContent } from './ui/Card'
+import { Button } from './ui/Button'
+import { RotateCcw, Trash2 } from 'lucide-react'
+
+export default function TrashItem({ todo }: { todo: Todo }) {
+  const { refetch } = useTodos()
+  const [confirming, setConfirming] = useState(false)
+
+  const restore = async () => {
+    try {
+      await api.post(`/todos/${todo.id}/restore`)
+      refetch()
+    } catch (error) {
+      console.error("Failed to restore todo:", error)
+    }
+  }
+
+  const deleteForever = async () => {
+    try {
+      await api.delete(`/todos/${todo.id}/permanent`)
+      refetch()
+    } catch (error) {
+      console.error("Failed to permanently delete todo:", error)
+    }
+  }
+
+  const deletedOn = todo.deletedAt
+    ? new Date(todo.deletedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : null
+
+  return (
+    <Card className="overflow-hidden border-l-4 border-l-muted bg-muted/30">
+      <CardContent className="p-4 sm:p-6">
+        <div className="flex items-start gap-3 sm:gap-4">
+          <div className="flex-1 space-y-2 min-w-0 text-left">
+            <p className="font-medium text-sm sm:text-base leading-tight text-muted-foreground">{todo.name}</p>
+            {todo.shortDescription && (
+              <p className="text-xs sm:text-sm text-muted-foreground leading-relaxed">{todo.shortDescription}</p>
+            )}
+            {deletedOn && (
+              <p className="text-xs text-muted-foreground/80">Deleted {deletedOn}</p>
+            )}
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            {confirming ? (
+              <>
+                <Button variant="destructive" size="sm" onClick={deleteForever}>
+                  Delete forever
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setConfirming(false)}>
+                  Cancel
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={restore}
+                  className="rounded-full h-8 w-8 sm:h-9 sm:w-9"
+                  aria-label="Restore task"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setConfirming(true)}
+                  className="text-muted-foreground hover:text-destructive hover:bg-destructive/10 rounded-full h-8 w-8 sm:h-9 sm:w-9 transition-colors"
+                  aria-label="Delete task permanently"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,243 @@
+import { useState } from 'react'
+import axios from 'axios'
+import { useWebhookDeliveries, useWebhooks, WEBHOOK_EVENTS, type Webhook, type WebhookEvent } from '../hooks/useWebhooks'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/Card'
+import { Button } from './ui/Button'
+import { Input } from './ui/Input'
+import { Label } from './ui/label'
+import { Checkbox } from './ui/checkbox'
+import { Check, Copy, History, Send, Trash2 } from 'lucide-react'
+import { cn } from '../lib/utils'
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'todo.created': 'Created',
+  'todo.updated': 'Updated',
+  'todo.completed': 'Completed',
+  'todo.deleted': 'Deleted',
+}
+
+const DELIVERY_STATUS_CLASSES = {
+  pending: 'text-muted-foreground',
+  succeeded: 'text-green-600',
+  failed: 'text-destructive',
+}
+
+// First server-side message from a failed request, if there is one
+const errorMessage = (err: unknown, fallback: string) => {
+  if (!axios.isAxiosError(err)) return fallback
+  const data = err.response?.data as { error?: string; errors?: { constraints: Record<string, string> }[] } | undefined
+  return data?.error ?? (data?.errors?.[0] && Object.values(data.errors[0].constraints)[0]) ?? fallback
+}
+
+function EventToggles({ idPrefix, events, onChange }: { idPrefix: string; events: WebhookEvent[]; onChange: (events: WebhookEvent[]) => void }) {
+  const toggle = (event: WebhookEvent, checked: boolean) =>
+    onChange(checked ? WEBHOOK_EVENTS.filter(e => e === event || events.includes(e)) : events.filter(e => e !== event))
+
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-2">
+      {WEBHOOK_EVENTS.map(event => (
+        <div key={event} className="flex items-center gap-2">
+          <Checkbox id={`${idPrefix}-${event}`} checked={events.includes(event)} onCheckedChange={checked => toggle(event, checked === true)} />
+          <Label htmlFor={`${idPrefix}-${event}`} className="font-normal">{EVENT_LABELS[event]}</Label>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const { deliveries, isLoading } = useWebhookDeliveries(webhookId, true)
+
+  if (isLoading) return <p className="text-xs text-muted-foreground">Loading...</p>
+  if (deliveries.length === 0) return <p className="text-xs text-muted-foreground">Nothing delivered yet.</p>
+  return (
+    <ul className="overflow-y-auto border divide-y rounded-md max-h-56 border-border">
+      {deliveries.map(delivery => (
+        <li key={delivery.id} className="px-3 py-2 text-xs">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-mono">{delivery.event}</span>
+            <span className={cn('font-medium', DELIVERY_STATUS_CLASSES[delivery.status])}>
+              {delivery.responseStatus ?? '—'} · {delivery.status}
+            </span>
+          </div>
+          <p className="text-muted-foreground">
+            {new Date(delivery.createdAt).toLocaleString()} · {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+            {delivery.durationMs !== null && ` · ${delivery.durationMs} ms`}
+            {delivery.status === 'pending' && delivery.nextAttemptAt && ` · next try ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+          </p>
+          {delivery.error && <p className="text-destructive">{delivery.error}</p>}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+interface WebhookRowProps {
+  webhook: Webhook
+  // The secret just created or rotated, shown until dismissed; the server never sends it again
+  secret: string | null
+  onSecretChange: (secret: string | null) => void
+}
+
+function WebhookRow({ webhook, secret, onSecretChange }: WebhookRowProps) {
+  const { updateWebhook, rotateSecret, deleteWebhook, sendTestEvent } = useWebhooks()
+  const [showLog, setShowLog] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState('')
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setError('')
+    try {
+      await action()
+    } catch (err) {
+      console.error(fallback, err)
+      setError(errorMessage(err, fallback))
+    }
+  }
+
+  const copySecret = async () => {
+    if (!secret) return
+    try {
+      await navigator.clipboard.writeText(secret)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy secret:', err)
+    }
+  }
+
+  const sendTest = () =>
+    run(async () => {
+      await sendTestEvent(webhook.id)
+      setShowLog(true)
+    }, 'Could not send a test event.')
+
+  const rotate = () => {
+    if (!window.confirm('Deliveries will be signed with a new secret from now on. Rotate it?')) return
+    run(async () => {
+      const rotated = await rotateSecret(webhook.id)
+      setCopied(false)
+      onSecretChange(rotated.secret)
+    }, 'Could not rotate the secret.')
+  }
+
+  const remove = () => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url}? Its delivery log is deleted too.`)) return
+    run(() => deleteWebhook(webhook.id), 'Could not delete the webhook.')
+  }
+
+  return (
+    <li className="p-3 space-y-3 border rounded-md border-border">
+      <div className="flex items-start justify-between gap-2">
+        <p className={cn('font-mono text-xs break-all', !webhook.isActive && 'text-muted-foreground line-through')}>{webhook.url}</p>
+        <Button type="button" variant="ghost" size="icon" onClick={remove} aria-label="Delete webhook" className="shrink-0 text-destructive hover:text-destructive">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+      <EventToggles
+        idPrefix={webhook.id}
+        events={webhook.events}
+        onChange={events => events.length > 0 && run(() => updateWebhook({ id: webhook.id, events }), 'Could not update the events.')}
+      />
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id={`${webhook.id}-active`}
+          checked={webhook.isActive}
+          onCheckedChange={checked => run(() => updateWebhook({ id: webhook.id, isActive: checked === true }), 'Could not update the webhook.')}
+        />
+        <Label htmlFor={`${webhook.id}-active`} className="font-normal">Active</Label>
+      </div>
+      {secret && (
+        <div className="p-3 space-y-2 border rounded-md border-primary/30 bg-primary/5">
+          <p className="text-sm font-medium">Copy the signing secret now. You won't be able to see it again.</p>
+          <div className="flex gap-2">
+            <Input value={secret} readOnly onFocus={e => e.target.select()} aria-label="Signing secret" className="font-mono text-xs" />
+            <Button type="button" variant="outline" size="icon" onClick={copySecret} aria-label="Copy secret" className="shrink-0">
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </Button>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onSecretChange(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={sendTest}>
+          <Send className="w-4 h-4 mr-2" />
+          Send test event
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => setShowLog(show => !show)}>
+          <History className="w-4 h-4 mr-2" />
+          {showLog ? 'Hide deliveries' : 'Deliveries'}
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={rotate}>
+          Rotate secret
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      {showLog && <DeliveryLog webhookId={webhook.id} />}
+    </li>
+  )
+}
+
+export default function WebhooksCard() {
+  const { webhooks, isLoading, createWebhook, isCreating } = useWebhooks()
+  const [url, setUrl] = useState('')
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS])
+  const [newSecret, setNewSecret] = useState<{ webhookId: string; secret: string } | null>(null)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    try {
+      const created = await createWebhook({ url: url.trim(), events })
+      setNewSecret({ webhookId: created.id, secret: created.secret })
+      setUrl('')
+      setEvents([...WEBHOOK_EVENTS])
+    } catch (err) {
+      console.error('Failed to add webhook:', err)
+      setError(errorMessage(err, 'Could not add the webhook.'))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>
+          Get an HTTP POST when your tasks are created, updated, completed or deleted. Each request is signed with the webhook's secret (HMAC-SHA256).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          webhooks.length > 0 && (
+            <ul className="space-y-3">
+              {webhooks.map(webhook => (
+                <WebhookRow
+                  key={webhook.id}
+                  webhook={webhook}
+                  secret={newSecret?.webhookId === webhook.id ? newSecret.secret : null}
+                  onSecretChange={secret => setNewSecret(secret ? { webhookId: webhook.id, secret } : null)}
+                />
+              ))}
+            </ul>
+          )
+        )}
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">Payload URL</Label>
+            <Input id="webhook-url" type="url" value={url} onChange={e => setUrl(e.target.value)} placeholder="https://example.com/hooks/todos" required />
+          </div>
+          <EventToggles idPrefix="new-webhook" events={events} onChange={setEvents} />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" disabled={isCreating || !url.trim() || events.length === 0}>
+            {isCreating ? 'Adding...' : 'Add Webhook'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -24,17 +24,16 @@ export function DateTimePicker({
   placeholder = "Pick a date and time",
   className,
 }: DateTimePickerProps) {
-  const [date, setDate] = React.useState<Date | undefined>(
-    value ? new Date(value) : undefined
-  )
-  const [time, setTime] = React.useState<string>(
-    value ? format(new Date(value), "HH:mm") : "09:00"
-  )
+  // `value` is in UTC without the "Z"; shown and picked in local time. Both are read
+  // from `value` on every render so a form reset shows here too; only a time picked
+  // before any date needs keeping until the date arrives.
+  const date = value ? new Date(`${value}Z`) : undefined
+  const [timeWithoutDate, setTimeWithoutDate] = React.useState("09:00")
+  const time = date ? format(date, "HH:mm") : timeWithoutDate
   const [open, setOpen] = React.useState(false)
 
   const handleDateSelect = (selectedDate: Date | undefined) => {
     if (selectedDate) {
-      setDate(selectedDate)
       const [hours, minutes] = time.split(":")
       const newDateTime = new Date(selectedDate)
       newDateTime.setHours(parseInt(hours), parseInt(minutes))
@@ -43,12 +42,13 @@ export function DateTimePicker({
   }
 
   const handleTimeChange = (newTime: string) => {
-    setTime(newTime)
     if (date) {
       const [hours, minutes] = newTime.split(":")
       const newDateTime = new Date(date)
       newDateTime.setHours(parseInt(hours), parseInt(minutes))
       onChange?.(newDateTime.toISOString().slice(0, 16))
+    } else {
+      setTimeWithoutDate(newTime)
     }
   }
 
@@ -0,0 +1,43 @@
+import { useSyncExternalStore } from "react"
+import { X } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import { dismissToast, getToasts, subscribeToasts } from "@/lib/toast"
+
+function Toaster() {
+  const toasts = useSyncExternalStore(subscribeToasts, getToasts)
+
+  return (
+    <div
+      aria-live="polite"
+      className="fixed bottom-0 right-0 z-[100] flex w-full flex-col gap-2 p-4 sm:max-w-sm"
+    >
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          role={toast.variant === "destructive" ? "alert" : "status"}
+          data-slot="toast"
+          className={cn(
+            "flex items-start gap-3 rounded-lg border p-4 shadow-lg bg-background text-foreground",
+            toast.variant === "destructive" && "border-destructive/50 text-destructive"
+          )}
+        >
+          <div className="flex-1 space-y-1">
+            <p className="text-sm font-medium">{toast.title}</p>
+            {toast.description && <p className="text-xs opacity-90">{toast.description}</p>}
+          </div>
+          <button
+            type="button"
+            onClick={() => dismissToast(toast.id)}
+            aria-label="Dismiss notification"
+            className="rounded-sm opacity-70 hover:opacity-100"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export { Toaster }
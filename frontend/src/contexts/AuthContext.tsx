@@ -1,5 +1,7 @@
 import { createContext, useContext, useEffect, useState } from 'react';
+import axios from 'axios'
 import api from '../api/client'
+import { clearOutbox } from '../lib/outbox'
 
 interface User {
   id: string
@@ -20,6 +22,8 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined)
 // Token management
 const TOKEN_KEY = 'accessToken'
 const REFRESH_TOKEN_KEY = 'refreshToken'
+// Last profile fetched, so the app still opens signed in without a connection
+const USER_KEY = 'user'
 
 const getToken = () => localStorage.getItem(TOKEN_KEY)
 const getRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY)
@@ -30,6 +34,14 @@ const setTokens = (accessToken: string, refreshToken: string) => {
 const clearTokens = () => {
   localStorage.removeItem(TOKEN_KEY)
   localStorage.removeItem(REFRESH_TOKEN_KEY)
+  localStorage.removeItem(USER_KEY)
+}
+const getCachedUser = (): User | null => {
+  try {
+    return JSON.parse(localStorage.getItem(USER_KEY) ?? 'null')
+  } catch {
+    return null
+  }
 }
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
@@ -78,6 +90,11 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         } else {
           console.log('ℹ️ No refresh token available')
         }
+      } else if (axios.isAxiosError(error) && !error.response && getCachedUser()) {
+        // Offline: keep the session and queue changes until the server is reachable again
+        console.log('📴 Server unreachable, using the cached profile')
+        setUser(getCachedUser())
+        return
       } else {
         console.log('❌ Network or other error fetching user profile')
       }
@@ -118,6 +135,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     console.log('✅ Tokens refreshed successfully')
   }
 
+  useEffect(() => {
+    if (user) localStorage.setItem(USER_KEY, JSON.stringify(user))
+  }, [user])
+
   useEffect(() => { 
     // Set up token from localStorage on app start
     const token = getToken()
@@ -176,6 +197,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       clearTokens()
       delete api.defaults.headers.common['Authorization']
       setUser(null)
+      // Changes queued offline belong to this account; don't replay them as the next one
+      await clearOutbox().catch(err => console.error('Failed to clear the offline outbox:', err))
     }
   }
 
@@ -1,37 +1,428 @@
-import { createContext, useContext, useMemo, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import type { ReactNode } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import type { QueryKey } from '@tanstack/react-query';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import { useSearchParams } from 'react-router-dom';
 import api from '../api/client';
+import { openEventStream } from '../lib/eventStream';
+import { getConflictingTodo, ifMatch } from '../lib/conflict';
+import { applyOutbox, replayOutbox, sendOrQueue, subscribeOutbox } from '../lib/outbox';
+import { statusChanges } from '../lib/status';
+import { toastError } from '../lib/toast';
+import { compareTodos, findCachedTodo, matchesList, moveInTodoCaches, patchTodoCaches, removeFromTodoCaches } from '../lib/todoCache';
+import { useOutbox } from '../hooks/useOutbox';
 
-export type FilterType = 'ALL' | 'COMPLETED' | 'UPCOMING';
+export type FilterType = 'ALL' | 'COMPLETED' | 'UPCOMING' | 'TRASH';
+export type SortType = 'DATE' | 'PRIORITY' | 'MANUAL';
+export type TodoPriority = 'none' | 'low' | 'medium' | 'high' | 'urgent';
+export type TodoStatus = 'backlog' | 'todo' | 'in_progress' | 'blocked' | 'done';
+export type TagMatch = 'any' | 'all';
 
-interface Todo {
+// `sort` query param sent to GET /todos for each sort mode
+const SORT_PARAMS: Record<SortType, string> = {
+  DATE: 'dateTime',
+  PRIORITY: 'priority,dateTime',
+  MANUAL: 'position',
+};
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+// How often queued offline changes are retried while some are still waiting
+const OUTBOX_RETRY_MS = 30 * 1000;
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface Todo {
   id: string;
   name: string;
   shortDescription: string;
   dateTime: string;
+  status: TodoStatus;
+  // Derived from status: true exactly when it is 'done'
   isDone: boolean;
+  priority: TodoPriority;
+  // Rank in the manual order; compared as plain strings
+  position: string;
+  // RFC 5545 RRULE the todo repeats by, e.g. "FREQ=WEEKLY;BYDAY=MO"
+  recurrence: string | null;
+  // Minutes before dateTime that email reminders go out
+  reminderOffsets: number[];
+  projectId: string | null;
+  tags: Tag[];
+  checklistProgress: { done: number; total: number };
+  deletedAt?: string | null;
+  version: number;
+}
+
+// Excerpts with matched terms wrapped in <mark></mark>
+export interface TodoHighlights {
+  name: string | null;
+  shortDescription: string | null;
+}
+
+export interface TodoSearchResult extends Todo {
+  score: number;
+  highlights: TodoHighlights;
+}
+
+export interface TodoPage {
+  data: Todo[];
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  total: number;
+}
+
+export interface CreateTodoInput {
+  // Request body for POST /todos
+  body: Record<string, unknown>;
+  // The todo as it should appear until the server answers, with a temporary id
+  preview: Todo;
+}
+
+export interface UpdateTodoInput {
+  todo: Todo;
+  // Applied to the cached todo straight away
+  changes: Partial<Todo>;
+  // Request body when it differs from `changes`, e.g. `tagIds` where the cache holds `tags`
+  body?: Record<string, unknown>;
+  // Send every field with PUT instead of a partial PATCH
+  replace?: boolean;
+  // Version to send as If-Match; the todo's own unless overwriting a conflict
+  version?: number;
+}
+
+export interface MoveTodoInput {
+  todo: Todo;
+  // The todos it should end up between in the manual order; null past either end of the list
+  before: Todo | null;
+  after: Todo | null;
 }
 
 interface TodoContextValue {
+  // Project the dashboard is scoped to (`?project=`): a project ID, 'none' for the inbox, or null for everything
+  projectId: string | null;
   todos: Todo[];
+  total: number;
   filter: FilterType;
   setFilter: (filter: FilterType) => void;
+  sort: SortType;
+  setSort: (sort: SortType) => void;
+  tagFilter: string[];
+  setTagFilter: (tagIds: string[]) => void;
+  tagMatch: TagMatch;
+  setTagMatch: (match: TagMatch) => void;
   refetch: () => void;
+  fetchNextPage: () => void;
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  searchQuery: string;
+  setSearchQuery: (query: string) => void;
+  searchResults: TodoSearchResult[] | null;
+  isSearching: boolean;
+  // Mutations update every cached list straight away and roll back with a toast if the API refuses.
+  // Each resolves with the saved todo, or null when the change was queued offline.
+  createTodo: (input: CreateTodoInput) => Promise<Todo | null>;
+  updateTodo: (input: UpdateTodoInput) => Promise<Todo | null>;
+  toggleTodo: (todo: Todo) => Promise<Todo | null>;
+  deleteTodo: (todo: Todo) => Promise<void>;
+  // Needs a connection: a move is relative to other todos, so it isn't queued offline
+  moveTodo: (input: MoveTodoInput) => Promise<Todo>;
+  isCreating: boolean;
 }
 
 const TodoContext = createContext<TodoContextValue | undefined>(undefined);
 
+export interface ListScope {
+  projectId: string | null;
+  tagIds: string[];
+  match: TagMatch;
+}
+
+// `projectId` / `tags` / `tagMatch` query params; each omitted when not filtering on it
+const scopeParams = ({ projectId, tagIds, match }: ListScope): Record<string, string> => ({
+  ...(projectId && { projectId }),
+  ...(tagIds.length > 0 && { tags: tagIds.join(','), tagMatch: match }),
+});
+
+const fetchTodoPage = async (filter: FilterType, sort: SortType, scope: ListScope, cursor: string | null): Promise<TodoPage> => {
+  const params: Record<string, string | number> = { limit: PAGE_SIZE };
+  if (filter === 'COMPLETED' || filter === 'UPCOMING') params.status = filter;
+  if (filter !== 'TRASH') Object.assign(params, { sort: SORT_PARAMS[sort], ...scopeParams(scope) });
+  if (cursor) params.cursor = cursor;
+  const res = await api.get<Omit<TodoPage, 'total'>>(filter === 'TRASH' ? '/todos/trash' : '/todos', { params });
+  return { ...res.data, total: Number(res.headers['x-total-count'] ?? res.data.data.length) };
+};
+
+// Conflicts and form validation errors are shown where the change was made, so they get no toast
+const isHandledByCaller = (err: unknown) =>
+  getConflictingTodo(err) !== null ||
+  (axios.isAxiosError(err) && err.response?.status === 400 && Array.isArray((err.response.data as { errors?: unknown }).errors));
+
+const searchTodos = async (filter: FilterType, scope: ListScope, q: string): Promise<TodoSearchResult[]> => {
+  const params: Record<string, string> = { q, ...scopeParams(scope) };
+  if (filter !== 'ALL') params.status = filter;
+  const res = await api.get<{ data: TodoSearchResult[]; total: number }>('/todos/search', { params });
+  return res.data.data;
+};
+
 export const TodoProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  const projectId = searchParams.get('project');
   const [filter, setFilter] = useState<FilterType>('ALL');
-  const { data, refetch } = useQuery<Todo[], Error>({
-    queryKey: ['todos', filter],
-    queryFn: () =>
-      api.get<Todo[]>(`/todos${filter === 'ALL' ? '' : `?status=${filter}`}`).then(res => res.data),
+  const [sort, setSort] = useState<SortType>('DATE');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [tagMatch, setTagMatch] = useState<TagMatch>('any');
+  const scope = useMemo(() => ({ projectId, tagIds: tagFilter, match: tagMatch }), [projectId, tagFilter, tagMatch]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['todos', filter, sort, scope],
+    queryFn: ({ pageParam }) => fetchTodoPage(filter, sort, scope, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+  });
+  const { entries: outbox } = useOutbox();
+  // Changes still in the offline outbox are shown as if they had already been saved
+  const todos = useMemo(
+    () =>
+      applyOutbox(
+        data?.pages.flatMap(page => page.data) ?? [],
+        filter === 'TRASH' ? [] : outbox,
+        todo => matchesList(todo, filter, scope),
+        compareTodos(sort),
+      ),
+    [data, outbox, filter, sort, scope],
+  );
+  const total = data?.pages[0]?.total ?? 0;
+
+  const { data: searchData, isFetching: isSearching } = useQuery({
+    queryKey: ['todos', 'search', filter, scope, debouncedQuery],
+    queryFn: () => searchTodos(filter, scope, debouncedQuery),
+    enabled: debouncedQuery.length > 0 && filter !== 'TRASH',
+  });
+  // Search only covers live todos, so the trash always shows its plain listing
+  const searchResults = debouncedQuery && filter !== 'TRASH' ? searchData ?? null : null;
+
+  // Todos this tab deleted, so the stream's echo of the deletion can be told apart from one made elsewhere
+  const deletedHere = useRef(new Set<string>());
+
+  // Keep every cached list and search in step with changes made elsewhere (another tab, device or script).
+  // The trash listing isn't patched: deletions and restores change it in ways only the server can order.
+  useEffect(() => {
+    return openEventStream('/todos/events', {
+      onEvent: ({ type, data }) => {
+        if (type === 'reset') {
+          // Too much happened while disconnected to replay, so start over
+          queryClient.invalidateQueries({ queryKey: ['todos'] });
+          queryClient.invalidateQueries({ queryKey: ['projects'] });
+        } else if (type === 'created' || type === 'updated') {
+          const todo = JSON.parse(data) as Todo;
+          const cached = findCachedTodo(queryClient, todo.id);
+          // This tab's own changes come back too; once the saved version is cached there is nothing left to do
+          if (cached && cached.version >= todo.version) return;
+          const restored = type === 'created' && findCachedTodo(queryClient, todo.id, true) !== undefined;
+          patchTodoCaches(queryClient, todo, type === 'created');
+          if (restored) queryClient.invalidateQueries({ queryKey: ['todos', 'TRASH'] });
+          // Project counts only move when a todo comes or goes, changes project or is completed or reopened
+          if (!cached || cached.projectId !== todo.projectId || cached.isDone !== todo.isDone) {
+            queryClient.invalidateQueries({ queryKey: ['projects'] });
+          }
+        } else if (type === 'deleted') {
+          const { id } = JSON.parse(data) as { id: string };
+          if (deletedHere.current.delete(id)) return;
+          // Deleting a todo that is already in the trash purges it, which no project count includes
+          const purged = findCachedTodo(queryClient, id, true) !== undefined;
+          removeFromTodoCaches(queryClient, id);
+          queryClient.invalidateQueries({ queryKey: ['todos', 'TRASH'] });
+          if (!purged) queryClient.invalidateQueries({ queryKey: ['projects'] });
+        }
+      },
+      // Any authenticated request refreshes an expired access token through the API client
+      onUnauthorized: () => api.get('/auth/me'),
+    });
+  }, [queryClient]);
+
+  // Send queued offline changes whenever the connection comes back, and keep retrying while any are left
+  useEffect(() => {
+    const unsubscribe = subscribeOutbox(synced => {
+      queryClient.invalidateQueries({ queryKey: ['outbox'] });
+      if (synced > 0) {
+        queryClient.invalidateQueries({ queryKey: ['todos'] });
+        queryClient.invalidateQueries({ queryKey: ['projects'] });
+      }
+    });
+    replayOutbox();
+    window.addEventListener('online', replayOutbox);
+    const retry = setInterval(() => navigator.onLine && replayOutbox(), OUTBOX_RETRY_MS);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', replayOutbox);
+      clearInterval(retry);
+    };
+  }, [queryClient]);
+
+  // Copies of every cached list and search, to put back when an optimistic change is refused
+  const snapshotTodos = useCallback(async () => {
+    await queryClient.cancelQueries({ queryKey: ['todos'] });
+    return queryClient.getQueriesData({ queryKey: ['todos'] });
+  }, [queryClient]);
+
+  const restoreTodos = useCallback(
+    (snapshot?: [QueryKey, unknown][]) => snapshot?.forEach(([key, cached]) => queryClient.setQueryData(key, cached)),
+    [queryClient],
+  );
+
+  const { mutateAsync: createTodo, isPending: isCreating } = useMutation({
+    mutationFn: async ({ body, preview }: CreateTodoInput) => {
+      const outcome = await sendOrQueue({ kind: 'create', todoId: preview.id, todo: preview, body }, async () => (await api.post<Todo>('/todos', body)).data);
+      return outcome.queued ? null : outcome.result;
+    },
+    onMutate: async ({ preview }) => {
+      const snapshot = await snapshotTodos();
+      patchTodoCaches(queryClient, preview, true);
+      return { snapshot };
+    },
+    onSuccess: (saved, { preview }) => {
+      if (!saved) return;
+      removeFromTodoCaches(queryClient, preview.id);
+      patchTodoCaches(queryClient, saved, true);
+    },
+    onError: (err, _input, context) => {
+      restoreTodos(context?.snapshot);
+      if (!isHandledByCaller(err)) toastError("Couldn't add the task", err);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['projects'] }),
+  });
+
+  const { mutateAsync: updateTodo } = useMutation({
+    mutationFn: async ({ todo, changes, body = changes, replace = false, version = todo.version }: UpdateTodoInput) => {
+      const outcome = await sendOrQueue({ kind: 'update', todoId: todo.id, changes, body, version }, async () => {
+        const config = { headers: ifMatch(version) };
+        const res = replace ? await api.put<Todo>(`/todos/${todo.id}`, body, config) : await api.patch<Todo>(`/todos/${todo.id}`, body, config);
+        return res.data;
+      });
+      return outcome.queued ? null : outcome.result;
+    },
+    onMutate: async ({ todo, changes }) => {
+      const snapshot = await snapshotTodos();
+      patchTodoCaches(queryClient, { ...todo, ...changes }, false);
+      return { snapshot };
+    },
+    onSuccess: (saved, { todo }) => {
+      if (!saved) return;
+      patchTodoCaches(queryClient, saved, false);
+      // Completing a recurring todo schedules its next occurrence on the server
+      if (todo.recurrence && saved.isDone && !todo.isDone) queryClient.invalidateQueries({ queryKey: ['todos'] });
+    },
+    onError: (err, { todo }, context) => {
+      restoreTodos(context?.snapshot);
+      if (!isHandledByCaller(err)) toastError(`Couldn't update "${todo.name}"`, err);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['projects'] }),
+  });
+
+  // Reopening a done todo puts it back in 'todo'
+  const toggleTodo = useCallback(
+    (todo: Todo) => {
+      const changes = statusChanges(todo.isDone ? 'todo' : 'done');
+      return updateTodo({ todo, changes, body: { status: changes.status } });
+    },
+    [updateTodo],
+  );
+
+  const { mutateAsync: deleteTodoMutation } = useMutation({
+    mutationFn: (todo: Todo) => sendOrQueue({ kind: 'delete', todoId: todo.id }, () => api.delete(`/todos/${todo.id}`)),
+    onMutate: async todo => {
+      deletedHere.current.add(todo.id);
+      const snapshot = await snapshotTodos();
+      removeFromTodoCaches(queryClient, todo.id);
+      return { snapshot };
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['todos', 'TRASH'] }),
+    onError: (err, todo, context) => {
+      deletedHere.current.delete(todo.id);
+      restoreTodos(context?.snapshot);
+      toastError(`Couldn't delete "${todo.name}"`, err);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['projects'] }),
+  });
+
+  const deleteTodo = useCallback(async (todo: Todo) => {
+    await deleteTodoMutation(todo);
+  }, [deleteTodoMutation]);
+
+  // Reordering isn't a conflicting edit, so it goes without If-Match
+  const { mutateAsync: moveTodo } = useMutation({
+    mutationFn: async ({ todo, before, after }: MoveTodoInput) =>
+      (await api.post<Todo>(`/todos/${todo.id}/move`, { before: before?.id ?? null, after: after?.id ?? null })).data,
+    onMutate: async ({ todo, before, after }) => {
+      const snapshot = await snapshotTodos();
+      // The new position comes from the server; until then the todo just sits between its neighbours
+      moveInTodoCaches(queryClient, todo, before, after);
+      return { snapshot };
+    },
+    onSuccess: (saved, { before, after }) => {
+      patchTodoCaches(queryClient, saved, false);
+      // Landing outside its neighbours means the server re-ranked every todo, so the cached positions are stale
+      if ((before && saved.position <= before.position) || (after && saved.position >= after.position)) {
+        queryClient.invalidateQueries({ queryKey: ['todos'] });
+      }
+    },
+    onError: (err, { todo }, context) => {
+      restoreTodos(context?.snapshot);
+      toastError(`Couldn't move "${todo.name}"`, err);
+    },
   });
-  const todos = useMemo(() => data || [], [data]);
 
-  const value = useMemo(() => ({ todos, filter, setFilter, refetch }), [todos, filter, refetch]);
+  // Refresh the list, any open search and the sidebar's project counts so all reflect the latest change
+  const refetch = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['todos'] });
+    queryClient.invalidateQueries({ queryKey: ['projects'] });
+  }, [queryClient]);
+
+  const value = useMemo(
+    () => ({
+      projectId,
+      todos,
+      total,
+      filter,
+      setFilter,
+      sort,
+      setSort,
+      tagFilter,
+      setTagFilter,
+      tagMatch,
+      setTagMatch,
+      refetch,
+      fetchNextPage,
+      hasNextPage,
+      isFetchingNextPage,
+      searchQuery,
+      setSearchQuery,
+      searchResults,
+      isSearching,
+      createTodo,
+      updateTodo,
+      toggleTodo,
+      deleteTodo,
+      moveTodo,
+      isCreating,
+    }),
+    [projectId, todos, total, filter, sort, tagFilter, tagMatch, refetch, fetchNextPage, hasNextPage, isFetchingNextPage, searchQuery, searchResults, isSearching, createTodo, updateTodo, toggleTodo, deleteTodo, moveTodo, isCreating],
+  );
 
   return <TodoContext.Provider value={value}>{children}</TodoContext.Provider>;
 };
@@ -42,4 +433,4 @@ export function useTodos() {
     throw new Error('useTodos must be used within a TodoProvider');
   }
   return context;
-} 
\ No newline at end of file
+}
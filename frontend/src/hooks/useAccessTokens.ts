@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import api from '../api/client'
+
+export const ACCESS_TOKEN_SCOPES = ['todos:read', 'todos:write'] as const
+export type AccessTokenScope = (typeof ACCESS_TOKEN_SCOPES)[number]
+
+export interface AccessToken {
+  id: string
+  name: string
+  // Start of the token, e.g. "tdp_3f9a1c0e"
+  prefix: string
+  scopes: AccessTokenScope[]
+  expiresAt: string | null
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+// Creation is the only time the server returns the token itself
+export interface CreatedAccessToken extends AccessToken {
+  token: string
+}
+
+export function useAccessTokens() {
+  const queryClient = useQueryClient()
+  const { data: tokens = [], isLoading } = useQuery({
+    queryKey: ['access-tokens'],
+    queryFn: async () => (await api.get<AccessToken[]>('/tokens')).data,
+  })
+
+  const { mutateAsync: createToken, isPending: isCreating } = useMutation({
+    mutationFn: async (input: { name: string; scopes: AccessTokenScope[]; expiresAt?: string }) =>
+      (await api.post<CreatedAccessToken>('/tokens', input)).data,
+    // Refetch rather than caching the response, so the token itself is not kept around
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['access-tokens'] }),
+  })
+
+  const { mutateAsync: revokeToken } = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/tokens/${id}`)
+      return id
+    },
+    onSuccess: id => queryClient.setQueryData<AccessToken[]>(['access-tokens'], current => current?.filter(token => token.id !== id)),
+  })
+
+  return { tokens, isLoading, createToken, isCreating, revokeToken }
+}
@@ -0,0 +1,33 @@
+import { useMemo } from 'react'
+import { useInfiniteQuery } from '@tanstack/react-query'
+import api from '../api/client'
+import type { TodoPage, TodoStatus } from '../contexts/TodoContext'
+import { applyOutbox } from '../lib/outbox'
+import { compareTodos } from '../lib/todoCache'
+import { useOutbox } from './useOutbox'
+
+const PAGE_SIZE = 20
+
+const fetchColumnPage = async (status: TodoStatus, cursor: string | null): Promise<TodoPage> => {
+  const params: Record<string, string | number> = { status, sort: 'dateTime', limit: PAGE_SIZE }
+  if (cursor) params.cursor = cursor
+  const res = await api.get<Omit<TodoPage, 'total'>>('/todos', { params })
+  return { ...res.data, total: Number(res.headers['x-total-count'] ?? res.data.data.length) }
+}
+
+// One board column: the todos in `status` by due date, a page at a time, with queued offline changes applied
+export function useBoardColumn(status: TodoStatus) {
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useInfiniteQuery({
+    queryKey: ['todos', 'board', status],
+    queryFn: ({ pageParam }) => fetchColumnPage(status, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+  })
+  const { entries } = useOutbox()
+  const todos = useMemo(
+    () => applyOutbox(data?.pages.flatMap(page => page.data) ?? [], entries, todo => todo.status === status, compareTodos('DATE')),
+    [data, entries, status],
+  )
+
+  return { todos, total: data?.pages[0]?.total ?? 0, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading }
+}
@@ -0,0 +1,28 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import api from '../api/client'
+
+export interface CalendarFeed {
+  token: string | null
+  url: string | null
+}
+
+export function useCalendarFeed() {
+  const queryClient = useQueryClient()
+  const { data: feed, isLoading } = useQuery({
+    queryKey: ['calendar-feed'],
+    queryFn: async () => (await api.get<CalendarFeed>('/calendar/feed')).data,
+  })
+
+  // Creates the feed, or replaces its URL when one already exists
+  const { mutateAsync: regenerateFeed, isPending: isRegenerating } = useMutation({
+    mutationFn: async () => (await api.post<CalendarFeed>('/calendar/feed')).data,
+    onSuccess: data => queryClient.setQueryData(['calendar-feed'], data),
+  })
+
+  const { mutateAsync: disableFeed, isPending: isDisabling } = useMutation({
+    mutationFn: () => api.delete('/calendar/feed'),
+    onSuccess: () => queryClient.setQueryData<CalendarFeed>(['calendar-feed'], { token: null, url: null }),
+  })
+
+  return { feed, isLoading, regenerateFeed, isRegenerating, disableFeed, isDisabling }
+}
@@ -0,0 +1,41 @@
+import { useMemo } from 'react'
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+import api from '../api/client'
+import type { Todo } from '../contexts/TodoContext'
+import { applyOutbox } from '../lib/outbox'
+import { compareTodos, isDueIn } from '../lib/todoCache'
+import { useOutbox } from './useOutbox'
+
+// The API's largest page; a calendar needs every todo in its range, so it keeps paging until done
+const CALENDAR_PAGE_SIZE = 100
+
+const fetchCalendarTodos = async (from: string, to: string): Promise<Todo[]> => {
+  const todos: Todo[] = []
+  let cursor: string | null = null
+  do {
+    const params: Record<string, string | number> = { from, to, limit: CALENDAR_PAGE_SIZE }
+    if (cursor) params.cursor = cursor
+    const res: { data: { data: Todo[]; nextCursor: string | null } } = await api.get('/todos', { params })
+    todos.push(...res.data.data)
+    cursor = res.data.nextCursor
+  } while (cursor)
+  return todos
+}
+
+// Every todo due from `from` up to `to`, including changes still waiting in the offline outbox
+export function useCalendarTodos(from: Date, to: Date) {
+  const range = { from: from.toISOString(), to: to.toISOString() }
+  const { data, isLoading } = useQuery({
+    queryKey: ['todos', 'calendar', range.from, range.to],
+    queryFn: () => fetchCalendarTodos(range.from, range.to),
+    // Keep showing the last range while the next month or week loads
+    placeholderData: keepPreviousData,
+  })
+  const { entries } = useOutbox()
+  const todos = useMemo(
+    () => applyOutbox(data ?? [], entries, todo => isDueIn(todo, range.from, range.to), compareTodos('DATE')),
+    [data, entries, range.from, range.to],
+  )
+
+  return { todos, isLoading }
+}
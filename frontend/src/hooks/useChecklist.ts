@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import api from '../api/client'
+
+export interface ChecklistItem {
+  id: string
+  text: string
+  isDone: boolean
+  position: number
+}
+
+// Loads and edits one todo's checklist; pass `enabled: false` to skip fetching while it is collapsed
+export function useChecklist(todoId: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const queryKey = ['checklist', todoId]
+  const { data: items = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => (await api.get<ChecklistItem[]>(`/todos/${todoId}/checklist`)).data,
+    enabled,
+  })
+
+  // The todo lists carry checklist progress, so they need refreshing as well
+  const onSettled = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey }),
+      queryClient.invalidateQueries({ queryKey: ['todos'] }),
+    ])
+
+  const { mutateAsync: addItem } = useMutation({
+    mutationFn: (text: string) => api.post(`/todos/${todoId}/checklist`, { text }),
+    onSettled,
+  })
+
+  const { mutateAsync: updateItem } = useMutation({
+    mutationFn: ({ id, ...changes }: Partial<Omit<ChecklistItem, 'position'>> & { id: string }) =>
+      api.patch(`/todos/${todoId}/checklist/${id}`, changes),
+    // Tick items off immediately; the refetch in onSettled corrects any failure
+    onMutate: ({ id, ...changes }) => {
+      queryClient.setQueryData<ChecklistItem[]>(queryKey, current =>
+        current?.map(item => (item.id === id ? { ...item, ...changes } : item)),
+      )
+    },
+    onSettled,
+  })
+
+  const { mutateAsync: removeItem } = useMutation({
+    mutationFn: (id: string) => api.delete(`/todos/${todoId}/checklist/${id}`),
+    onSettled,
+  })
+
+  const { mutateAsync: reorder } = useMutation({
+    mutationFn: (itemIds: string[]) => api.put(`/todos/${todoId}/checklist/order`, { itemIds }),
+    onMutate: itemIds => {
+      queryClient.setQueryData<ChecklistItem[]>(queryKey, current =>
+        current && itemIds.map((id, position) => ({ ...current.find(item => item.id === id)!, position })),
+      )
+    },
+    onSettled,
+  })
+
+  // Move an item past its neighbour (offset -1 moves it up, +1 down)
+  const moveItem = (id: string, offset: -1 | 1) => {
+    const ids = items.map(item => item.id)
+    const from = ids.indexOf(id)
+    const to = from + offset
+    if (from < 0 || to < 0 || to >= ids.length) return
+    ids.splice(to, 0, ...ids.splice(from, 1))
+    return reorder(ids)
+  }
+
+  return { items, isLoading, addItem, updateItem, removeItem, moveItem }
+}
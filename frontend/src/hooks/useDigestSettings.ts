@@ -0,0 +1,25 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import api from '../api/client'
+
+export interface DigestSettings {
+  dailyDigest: boolean
+  weeklyDigest: boolean
+  // Local hour (0-23) in `timezone`
+  digestHour: number
+  timezone: string
+}
+
+export function useDigestSettings() {
+  const queryClient = useQueryClient()
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['digest-settings'],
+    queryFn: async () => (await api.get<DigestSettings>('/digest/settings')).data,
+  })
+
+  const { mutateAsync: updateSettings, isPending: isSaving } = useMutation({
+    mutationFn: async (changes: Partial<DigestSettings>) => (await api.patch<DigestSettings>('/digest/settings', changes)).data,
+    onSuccess: data => queryClient.setQueryData(['digest-settings'], data),
+  })
+
+  return { settings, isLoading, updateSettings, isSaving }
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query'
+import { listOutbox } from '../lib/outbox'
+
+// Todo changes still waiting to reach the server; TodoProvider keeps this fresh as the outbox changes
+export function useOutbox() {
+  const { data: entries = [] } = useQuery({
+    queryKey: ['outbox'],
+    queryFn: listOutbox,
+    // Reading IndexedDB needs no connection
+    networkMode: 'always',
+    staleTime: Infinity,
+  })
+
+  return { entries }
+}
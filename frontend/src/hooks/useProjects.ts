@@ -0,0 +1,52 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import api from '../api/client'
+
+export interface Project {
+  id: string
+  name: string
+  color: string
+  icon: string
+  isArchived: boolean
+  sortOrder: number
+  todoCount: number
+  openCount: number
+}
+
+export type ProjectInput = Pick<Project, 'name' | 'color' | 'icon'>
+
+const fetchProjects = async (): Promise<Project[]> => {
+  const res = await api.get<Project[]>('/projects', { params: { includeArchived: true } })
+  return res.data
+}
+
+export function useProjects() {
+  const queryClient = useQueryClient()
+  const { data: projects = [], isLoading } = useQuery({ queryKey: ['projects'], queryFn: fetchProjects })
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['projects'] })
+
+  const { mutateAsync: createProject } = useMutation({
+    mutationFn: async (input: ProjectInput) => (await api.post<Project>('/projects', input)).data,
+    onSuccess: invalidate,
+  })
+
+  const { mutateAsync: updateProject } = useMutation({
+    mutationFn: async ({ id, ...changes }: Partial<Omit<Project, 'todoCount' | 'openCount'>> & { id: string }) =>
+      (await api.patch<Project>(`/projects/${id}`, changes)).data,
+    onSuccess: invalidate,
+  })
+
+  const { mutateAsync: deleteProject } = useMutation({
+    mutationFn: (id: string) => api.delete(`/projects/${id}`),
+    // The project's todos move to the inbox, so cached todo lists are stale too
+    onSuccess: () => Promise.all([invalidate(), queryClient.invalidateQueries({ queryKey: ['todos'] })]),
+  })
+
+  return {
+    projects: projects.filter(project => !project.isArchived),
+    archivedProjects: projects.filter(project => project.isArchived),
+    isLoading,
+    createProject,
+    updateProject,
+    deleteProject,
+  }
+}
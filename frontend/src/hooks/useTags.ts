@@ -0,0 +1,24 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import api from '../api/client'
+import type { Tag } from '../contexts/TodoContext'
+import { nextSwatchColor } from '../lib/colors'
+
+const fetchTags = async (): Promise<Tag[]> => {
+  const res = await api.get<Tag[]>('/tags')
+  return res.data
+}
+
+export function useTags() {
+  const queryClient = useQueryClient()
+  const { data: tags = [], isLoading } = useQuery({ queryKey: ['tags'], queryFn: fetchTags })
+
+  const { mutateAsync: createTag, isPending: isCreating } = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await api.post<Tag>('/tags', { name, color: nextSwatchColor(tags.length) })
+      return res.data
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['tags'] }),
+  })
+
+  return { tags, isLoading, createTag, isCreating }
+}
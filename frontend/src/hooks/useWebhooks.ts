@@ -0,0 +1,93 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import api from '../api/client'
+
+export const WEBHOOK_EVENTS = ['todo.created', 'todo.updated', 'todo.completed', 'todo.deleted'] as const
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]
+
+export interface Webhook {
+  id: string
+  url: string
+  events: WebhookEvent[]
+  isActive: boolean
+  createdAt: string
+}
+
+// The server only sends a webhook's secret when the webhook is created or the secret rotated
+export interface WebhookWithSecret extends Webhook {
+  // Key deliveries are signed with (X-Webhook-Signature)
+  secret: string
+}
+
+export interface WebhookDelivery {
+  id: string
+  // A WebhookEvent, or "ping" for test deliveries
+  event: string
+  payload: string
+  status: 'pending' | 'succeeded' | 'failed'
+  attempts: number
+  nextAttemptAt: string | null
+  responseStatus: number | null
+  responseBody: string | null
+  error: string | null
+  durationMs: number | null
+  createdAt: string
+}
+
+const DELIVERY_POLL_MS = 5000
+
+// Swap one webhook in the cached list
+const replaceWebhook = (webhooks: Webhook[] | undefined, updated: Webhook) =>
+  webhooks?.map(webhook => (webhook.id === updated.id ? updated : webhook))
+
+// The cached copy of a webhook leaves its secret out, like the list does
+const withoutSecret = ({ id, url, events, isActive, createdAt }: WebhookWithSecret): Webhook => ({ id, url, events, isActive, createdAt })
+
+export function useWebhooks() {
+  const queryClient = useQueryClient()
+  const { data: webhooks = [], isLoading } = useQuery({
+    queryKey: ['webhooks'],
+    queryFn: async () => (await api.get<Webhook[]>('/webhooks')).data,
+  })
+
+  const { mutateAsync: createWebhook, isPending: isCreating } = useMutation({
+    mutationFn: async (input: { url: string; events: WebhookEvent[] }) => (await api.post<WebhookWithSecret>('/webhooks', input)).data,
+    onSuccess: created => queryClient.setQueryData<Webhook[]>(['webhooks'], current => [...(current ?? []), withoutSecret(created)]),
+  })
+
+  const { mutateAsync: updateWebhook } = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string } & Partial<Pick<Webhook, 'url' | 'events' | 'isActive'>>) =>
+      (await api.patch<Webhook>(`/webhooks/${id}`, changes)).data,
+    onSuccess: updated => queryClient.setQueryData<Webhook[]>(['webhooks'], current => replaceWebhook(current, updated)),
+  })
+
+  const { mutateAsync: rotateSecret } = useMutation({
+    mutationFn: async (id: string) => (await api.post<WebhookWithSecret>(`/webhooks/${id}/secret`)).data,
+    onSuccess: updated => queryClient.setQueryData<Webhook[]>(['webhooks'], current => replaceWebhook(current, withoutSecret(updated))),
+  })
+
+  const { mutateAsync: deleteWebhook } = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/webhooks/${id}`)
+      return id
+    },
+    onSuccess: id => queryClient.setQueryData<Webhook[]>(['webhooks'], current => current?.filter(webhook => webhook.id !== id)),
+  })
+
+  const { mutateAsync: sendTestEvent } = useMutation({
+    mutationFn: async (id: string) => (await api.post<WebhookDelivery>(`/webhooks/${id}/test`)).data,
+    onSuccess: (_, id) => queryClient.invalidateQueries({ queryKey: ['webhooks', id, 'deliveries'] }),
+  })
+
+  return { webhooks, isLoading, createWebhook, isCreating, updateWebhook, rotateSecret, deleteWebhook, sendTestEvent }
+}
+
+// Latest page of a webhook's delivery log, polled while any delivery is still pending
+export function useWebhookDeliveries(webhookId: string, enabled: boolean) {
+  const { data: deliveries = [], isLoading } = useQuery({
+    queryKey: ['webhooks', webhookId, 'deliveries'],
+    queryFn: async () => (await api.get<{ data: WebhookDelivery[] }>(`/webhooks/${webhookId}/deliveries`)).data.data,
+    enabled,
+    refetchInterval: query => (query.state.data?.some(delivery => delivery.status === 'pending') ? DELIVERY_POLL_MS : false),
+  })
+  return { deliveries, isLoading }
+}
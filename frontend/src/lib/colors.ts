@@ -0,0 +1,4 @@
+// Palette offered for tags and projects; new items cycle through it in order
+export const SWATCH_COLORS = ['#3b82f6', '#22c55e', '#f59e0b', '#ef4444', '#a855f7', '#ec4899', '#14b8a6', '#64748b']
+
+export const nextSwatchColor = (taken: number) => SWATCH_COLORS[taken % SWATCH_COLORS.length]
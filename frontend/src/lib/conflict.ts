@@ -0,0 +1,13 @@
+import axios from 'axios'
+import type { Todo } from '../contexts/TodoContext'
+
+// If-Match header value for a todo version, matching the ETag the API returns
+export const ifMatch = (version: number) => ({ 'If-Match': `"${version}"` })
+
+// The server's current copy of a todo when an update was rejected with 412
+export function getConflictingTodo(error: unknown): Todo | null {
+  if (axios.isAxiosError(error) && error.response?.status === 412) {
+    return (error.response.data as { todo?: Todo }).todo ?? null
+  }
+  return null
+}
@@ -0,0 +1,103 @@
+import api from '../api/client'
+
+export interface StreamEvent {
+  id: string
+  type: string
+  data: string
+}
+
+interface EventStreamOptions {
+  onEvent: (event: StreamEvent) => void
+  // Called after a 401, before reconnecting; should leave a fresh access token in localStorage
+  onUnauthorized: () => Promise<unknown>
+}
+
+const DEFAULT_RETRY_MS = 5000
+// Longest wait between attempts while the stream keeps being refused
+const MAX_RETRY_MS = 5 * 60 * 1000
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timeout = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeout)
+      resolve()
+    })
+  })
+
+/**
+ * Opens a Server-Sent Events stream from the API and keeps it open until the
+ * returned function is called. EventSource cannot send an Authorization header,
+ * so this reads the stream with fetch, reconnecting after errors and resuming
+ * from the last event ID like EventSource would. Repeated 401s back off rather
+ * than spend the API's rate limit, and signing out ends the stream for good.
+ */
+export function openEventStream(path: string, { onEvent, onUnauthorized }: EventStreamOptions): () => void {
+  const controller = new AbortController()
+  const { signal } = controller
+  let lastEventId = ''
+  let retryMs = DEFAULT_RETRY_MS
+  // 401s in a row; each doubles the wait before the next attempt
+  let refusals = 0
+
+  // Handle one "field: value" block; a block without data (like the retry hint) dispatches nothing
+  const dispatch = (block: string) => {
+    let type = 'message'
+    const data: string[] = []
+    for (const line of block.split('\n')) {
+      if (!line || line.startsWith(':')) continue
+      const colon = line.indexOf(':')
+      const field = colon === -1 ? line : line.slice(0, colon)
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+      if (field === 'id') lastEventId = value
+      else if (field === 'event') type = value
+      else if (field === 'data') data.push(value)
+      else if (field === 'retry' && /^\d+$/.test(value)) retryMs = Number(value)
+    }
+    if (data.length > 0) onEvent({ id: lastEventId, type, data: data.join('\n') })
+  }
+
+  const connect = async () => {
+    const headers: Record<string, string> = { Accept: 'text/event-stream' }
+    const token = localStorage.getItem('accessToken')
+    if (token) headers.Authorization = `Bearer ${token}`
+    if (lastEventId) headers['Last-Event-ID'] = lastEventId
+
+    const res = await fetch(`${api.defaults.baseURL}${path}`, { headers, signal, cache: 'no-store' })
+    if (res.status === 401) {
+      refusals++
+      await onUnauthorized()
+      return
+    }
+    if (!res.ok || !res.body) throw new Error(`Event stream failed with status ${res.status}`)
+    refusals = 0
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffered = ''
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) return
+      buffered += value.replace(/\r\n?/g, '\n')
+      const blocks = buffered.split('\n\n')
+      buffered = blocks.pop() ?? ''
+      blocks.forEach(dispatch)
+    }
+  }
+
+  const run = async () => {
+    while (!signal.aborted) {
+      try {
+        await connect()
+      } catch (err) {
+        if (signal.aborted) return
+        console.error('Event stream disconnected:', err)
+      }
+      // Signed out, or the session could not be refreshed: there is nothing to reconnect as
+      if (!localStorage.getItem('accessToken')) return
+      await sleep(Math.min(retryMs * 2 ** refusals, MAX_RETRY_MS), signal)
+    }
+  }
+
+  run()
+  return () => controller.abort()
+}
@@ -0,0 +1,32 @@
+// Report returned by the import endpoints (POST /todos/import and /todos/import/ics)
+export type ImportRowStatus = 'created' | 'would_create' | 'duplicate' | 'error'
+
+export interface ImportRow {
+  index: number
+  // Line a CSV row starts on
+  line?: number
+  // iCalendar UID, for .ics imports
+  uid?: string | null
+  status: ImportRowStatus
+  name?: string
+  dateTime?: string
+  isDone?: boolean
+  errors?: string[]
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  total: number
+  created: number
+  wouldCreate: number
+  duplicates: number
+  failed: number
+  rows: ImportRow[]
+}
+
+export const STATUS_LABELS: Record<ImportRowStatus, { label: string; className: string }> = {
+  created: { label: 'Imported', className: 'text-green-600' },
+  would_create: { label: 'New', className: 'text-primary' },
+  duplicate: { label: 'Already imported', className: 'text-muted-foreground' },
+  error: { label: 'Error', className: 'text-destructive' },
+}
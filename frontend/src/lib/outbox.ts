@@ -0,0 +1,211 @@
+import axios from 'axios'
+import api from '../api/client'
+import type { Todo } from '../contexts/TodoContext'
+import { getConflictingTodo, ifMatch } from './conflict'
+
+// A todo change made while offline, waiting in IndexedDB to be sent
+export type OutboxEntry = {
+  // IndexedDB key; increases with every entry, so it is also the replay order
+  id: number
+  // For creates, a temporary id that stands in for the todo until the server assigns one
+  todoId: string
+  createdAt: string
+  // `conflict`: the todo changed on the server first; `failed`: the server rejected the change
+  status: 'pending' | 'conflict' | 'failed'
+  error?: string
+  // The server's copy of the todo, for conflicts
+  server?: Todo
+} & (
+  | { kind: 'create'; todo: Todo; body: Record<string, unknown> }
+  // `body` is sent as a PATCH, so a full replacement made offline also goes out as one
+  | { kind: 'update'; changes: Partial<Todo>; body: Record<string, unknown>; version: number }
+  | { kind: 'delete' }
+)
+
+type NewOutboxEntry = DistributiveOmit<OutboxEntry, 'id' | 'createdAt' | 'status'>
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never
+
+const DB_NAME = 'todo-outbox'
+const STORE = 'entries'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true })
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  return dbPromise
+}
+
+// Run one request against the store and resolve with its result once the transaction commits
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode)
+    const request = run(tx.objectStore(STORE))
+    tx.oncomplete = () => resolve(request.result)
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+const listeners = new Set<(synced: number) => void>()
+
+// Called after every change to the outbox, with how many entries a replay just sent to the server
+export function subscribeOutbox(listener: (synced: number) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+const notify = (synced = 0) => listeners.forEach(listener => listener(synced))
+
+export const listOutbox = () => withStore<OutboxEntry[]>('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>)
+
+const putEntry = (entry: OutboxEntry) => withStore('readwrite', store => store.put(entry))
+
+const deleteEntry = (id: number) => withStore('readwrite', store => store.delete(id))
+
+export async function clearOutbox(): Promise<void> {
+  await withStore('readwrite', store => store.clear())
+  notify()
+}
+
+// Drop a queued change; dropping a create drops the todo's later changes with it
+export async function discardEntry(id: number): Promise<void> {
+  const entries = await listOutbox()
+  const entry = entries.find(item => item.id === id)
+  if (!entry) return
+  const dropped = entry.kind === 'create' ? entries.filter(item => item.todoId === entry.todoId) : [entry]
+  await Promise.all(dropped.map(item => deleteEntry(item.id)))
+  notify()
+}
+
+// Send a conflicting change again, this time over the server's version
+export async function overwriteConflict(entry: OutboxEntry): Promise<void> {
+  if (entry.kind !== 'update' || !entry.server) return
+  await putEntry({ ...entry, version: entry.server.version, status: 'pending', server: undefined })
+  notify()
+  void replayOutbox()
+}
+
+async function enqueue(entry: NewOutboxEntry): Promise<void> {
+  // A todo created and deleted while offline never needs to reach the server
+  if (entry.kind === 'delete') {
+    const queued = (await listOutbox()).filter(item => item.todoId === entry.todoId)
+    if (queued.some(item => item.kind === 'create')) {
+      await Promise.all(queued.map(item => deleteEntry(item.id)))
+      notify()
+      return
+    }
+  }
+  await withStore('readwrite', store => store.add({ ...entry, createdAt: new Date().toISOString(), status: 'pending' }))
+  notify()
+}
+
+// The request never got an answer: no connection, or the server is unreachable
+const isOfflineError = (err: unknown) => axios.isAxiosError(err) && !err.response
+
+/**
+ * Sends a todo change, or queues it when there is no connection. A change also
+ * queues while earlier ones to the same todo are still waiting to be sent, so the
+ * server sees them in the order they were made; entries held back by a conflict
+ * or failure don't block anything. Errors the server answers with are thrown as usual.
+ */
+export async function sendOrQueue<T>(entry: NewOutboxEntry, send: () => Promise<T>): Promise<{ queued: false; result: T } | { queued: true }> {
+  const waiting = (await listOutbox()).some(item => item.todoId === entry.todoId && item.status === 'pending')
+  if (navigator.onLine && !waiting) {
+    try {
+      return { queued: false, result: await send() }
+    } catch (err) {
+      if (!isOfflineError(err)) throw err
+    }
+  }
+  await enqueue(entry)
+  if (navigator.onLine) void replayOutbox()
+  return { queued: true }
+}
+
+// Point the todo's later entries at its server id and latest version
+async function advanceEntries(todoId: string, saved: Todo) {
+  const later = (await listOutbox()).filter(item => item.todoId === todoId)
+  await Promise.all(
+    later.map(item => putEntry(item.kind === 'update' ? { ...item, todoId: saved.id, version: saved.version } : { ...item, todoId: saved.id })),
+  )
+}
+
+const serverError = (err: unknown) =>
+  (axios.isAxiosError(err) && (err.response?.data as { error?: string } | undefined)?.error) || 'The server rejected this change'
+
+let replaying = false
+
+/**
+ * Sends queued changes in the order they were made. A conflict or rejection
+ * stays in the outbox for the user to resolve and holds back that todo's later
+ * changes; losing the connection again stops the replay until the next try.
+ */
+export async function replayOutbox(): Promise<void> {
+  if (replaying) return
+  replaying = true
+  let synced = 0
+  try {
+    for (;;) {
+      const entries = await listOutbox()
+      const held = new Set(entries.filter(item => item.status !== 'pending').map(item => item.todoId))
+      const entry = entries.find(item => item.status === 'pending' && !held.has(item.todoId))
+      if (!entry) break
+      try {
+        if (entry.kind === 'create') {
+          const res = await api.post<Todo>('/todos', entry.body)
+          await deleteEntry(entry.id)
+          await advanceEntries(entry.todoId, res.data)
+        } else if (entry.kind === 'update') {
+          const res = await api.patch<Todo>(`/todos/${entry.todoId}`, entry.body, { headers: ifMatch(entry.version) })
+          await deleteEntry(entry.id)
+          await advanceEntries(entry.todoId, res.data)
+        } else {
+          await api.delete(`/todos/${entry.todoId}`)
+          await deleteEntry(entry.id)
+        }
+        synced += 1
+      } catch (err) {
+        // Try again later when the server is unreachable or failing, or the session ran out
+        const status = axios.isAxiosError(err) ? err.response?.status ?? 0 : 0
+        if (isOfflineError(err) || status >= 500 || status === 401) break
+        const server = getConflictingTodo(err)
+        // Deleting a todo that is already gone has the outcome the user wanted
+        if (entry.kind === 'delete' && axios.isAxiosError(err) && err.response?.status === 404) await deleteEntry(entry.id)
+        else if (server) await putEntry({ ...entry, status: 'conflict', server })
+        else await putEntry({ ...entry, status: 'failed', error: serverError(err) })
+      }
+    }
+  } catch (err) {
+    console.error('Failed to replay queued changes:', err)
+  } finally {
+    replaying = false
+    notify(synced)
+  }
+}
+
+/**
+ * The list as it will look once queued changes reach the server: queued
+ * creates added in sort order, edits applied and deletes removed. `belongs`
+ * says whether a todo still fits the list's filter.
+ */
+export function applyOutbox(todos: Todo[], entries: OutboxEntry[], belongs: (todo: Todo) => boolean, compare: (a: Todo, b: Todo) => number): Todo[] {
+  if (entries.length === 0) return todos
+  let result = todos
+  for (const entry of entries) {
+    if (entry.kind === 'create') {
+      if (belongs(entry.todo) && !result.some(todo => todo.id === entry.todoId)) result = [...result, entry.todo].sort(compare)
+    } else if (entry.kind === 'update') {
+      result = result.map(todo => (todo.id === entry.todoId ? { ...todo, ...entry.changes } : todo)).filter(todo => todo.id !== entry.todoId || belongs(todo))
+    } else {
+      result = result.filter(todo => todo.id !== entry.todoId)
+    }
+  }
+  return result
+}
@@ -0,0 +1,23 @@
+import type { TodoPriority } from '../contexts/TodoContext'
+
+interface PriorityOption {
+  value: TodoPriority
+  label: string
+  // Left border accent used by TodoItem
+  borderClass: string
+  // Swatch / text color used by the picker and badges
+  dotClass: string
+  textClass: string
+}
+
+// Ordered from least to most urgent, matching the API enum
+export const PRIORITY_OPTIONS: PriorityOption[] = [
+  { value: 'none', label: 'None', borderClass: 'border-l-primary/30', dotClass: 'bg-muted-foreground/30', textClass: 'text-muted-foreground' },
+  { value: 'low', label: 'Low', borderClass: 'border-l-sky-400', dotClass: 'bg-sky-400', textClass: 'text-sky-600' },
+  { value: 'medium', label: 'Medium', borderClass: 'border-l-amber-400', dotClass: 'bg-amber-400', textClass: 'text-amber-600' },
+  { value: 'high', label: 'High', borderClass: 'border-l-orange-500', dotClass: 'bg-orange-500', textClass: 'text-orange-600' },
+  { value: 'urgent', label: 'Urgent', borderClass: 'border-l-red-600', dotClass: 'bg-red-600', textClass: 'text-red-600' },
+]
+
+export const getPriorityOption = (priority: TodoPriority) =>
+  PRIORITY_OPTIONS.find(option => option.value === priority) ?? PRIORITY_OPTIONS[0]
@@ -0,0 +1,18 @@
+import { Book, Briefcase, Code, Dumbbell, Folder, Heart, Home, Plane, ShoppingCart, Star } from 'lucide-react'
+import type { LucideIcon } from 'lucide-react'
+
+// Icons a project can use, keyed by the identifier stored in `Project.icon`
+export const PROJECT_ICONS: Record<string, LucideIcon> = {
+  folder: Folder,
+  briefcase: Briefcase,
+  home: Home,
+  'shopping-cart': ShoppingCart,
+  heart: Heart,
+  book: Book,
+  code: Code,
+  dumbbell: Dumbbell,
+  plane: Plane,
+  star: Star,
+}
+
+export const getProjectIcon = (icon: string) => PROJECT_ICONS[icon] ?? Folder
@@ -0,0 +1,45 @@
+export type RecurrenceMode = 'none' | 'daily' | 'weekly' | 'monthly' | 'custom'
+
+// RRULE weekday codes in display order, Monday first
+export const WEEKDAYS = [
+  { code: 'MO', label: 'Mon' },
+  { code: 'TU', label: 'Tue' },
+  { code: 'WE', label: 'Wed' },
+  { code: 'TH', label: 'Thu' },
+  { code: 'FR', label: 'Fri' },
+  { code: 'SA', label: 'Sat' },
+  { code: 'SU', label: 'Sun' },
+]
+
+const FREQUENCY_UNITS: Record<string, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }
+
+const parseRule = (rule: string) =>
+  Object.fromEntries(rule.replace(/^RRULE:/i, '').split(';').map(part => part.split('=') as [string, string]))
+
+// Which editor preset a stored rule corresponds to; anything the presets cannot express is 'custom'
+export const getRecurrenceMode = (rule: string): RecurrenceMode => {
+  if (!rule) return 'none'
+  if (rule === 'FREQ=DAILY') return 'daily'
+  if (rule === 'FREQ=MONTHLY') return 'monthly'
+  if (/^FREQ=WEEKLY(;BYDAY=(MO|TU|WE|TH|FR|SA|SU)(,(MO|TU|WE|TH|FR|SA|SU))*)?$/.test(rule)) return 'weekly'
+  return 'custom'
+}
+
+export const getWeeklyDays = (rule: string): string[] => parseRule(rule).BYDAY?.split(',') ?? []
+
+// Days are kept in week order so the same selection always produces the same rule
+export const weeklyRule = (days: string[]) => {
+  const byDay = WEEKDAYS.map(day => day.code).filter(code => days.includes(code))
+  return byDay.length > 0 ? `FREQ=WEEKLY;BYDAY=${byDay.join(',')}` : 'FREQ=WEEKLY'
+}
+
+// Short label such as "Weekly on Mon, Wed" or "Every 2 months"
+export const describeRecurrence = (rule: string) => {
+  const { FREQ, INTERVAL, BYDAY } = parseRule(rule)
+  const unit = FREQUENCY_UNITS[FREQ]
+  if (!unit) return 'Repeats'
+  const interval = Number(INTERVAL ?? 1)
+  const every = interval > 1 ? `Every ${interval} ${unit}s` : `${FREQ.charAt(0)}${FREQ.slice(1).toLowerCase()}`
+  const days = BYDAY?.split(',').map(code => WEEKDAYS.find(day => day.code === code)?.label)
+  return days && days.every(Boolean) ? `${every} on ${days.join(', ')}` : every
+}
@@ -0,0 +1,17 @@
+// Reminder offsets offered by the task form, in minutes before the due date
+export const REMINDER_OPTIONS = [
+  { value: 0, label: 'At due time' },
+  { value: 15, label: '15 min before' },
+  { value: 60, label: '1 hour before' },
+  { value: 24 * 60, label: '1 day before' },
+  { value: 7 * 24 * 60, label: '1 week before' },
+]
+
+// Short label for an offset, e.g. "15m", "1h", "2d"
+export const formatReminderOffset = (minutes: number) => {
+  if (minutes === 0) return 'at due time'
+  if (minutes % (7 * 24 * 60) === 0) return `${minutes / (7 * 24 * 60)}w`
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}d`
+  if (minutes % 60 === 0) return `${minutes / 60}h`
+  return `${minutes}m`
+}
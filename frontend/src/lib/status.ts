@@ -0,0 +1,23 @@
+import type { TodoStatus } from '../contexts/TodoContext'
+
+interface StatusOption {
+  value: TodoStatus
+  label: string
+  // Dot on board column headers and status badges
+  dotClass: string
+}
+
+// In board column order, matching the API enum
+export const STATUS_OPTIONS: StatusOption[] = [
+  { value: 'backlog', label: 'Backlog', dotClass: 'bg-muted-foreground/40' },
+  { value: 'todo', label: 'To Do', dotClass: 'bg-sky-400' },
+  { value: 'in_progress', label: 'In Progress', dotClass: 'bg-amber-400' },
+  { value: 'blocked', label: 'Blocked', dotClass: 'bg-red-600' },
+  { value: 'done', label: 'Done', dotClass: 'bg-green-600' },
+]
+
+export const getStatusOption = (status: TodoStatus) =>
+  STATUS_OPTIONS.find(option => option.value === status) ?? STATUS_OPTIONS[1]
+
+// Changes that move a todo to `status`, with the isDone the API derives from it
+export const statusChanges = (status: TodoStatus) => ({ status, isDone: status === 'done' })
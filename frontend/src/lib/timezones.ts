@@ -0,0 +1,10 @@
+export const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+// Intl.supportedValuesOf is ES2022; older engines only get UTC and the browser's own zone
+const supportedValuesOf = (Intl as { supportedValuesOf?: (key: 'timeZone') => string[] }).supportedValuesOf
+
+export const TIME_ZONES = Array.from(new Set(['UTC', browserTimeZone, ...(supportedValuesOf?.('timeZone') ?? [])])).sort()
+
+// "7:00 AM" style label for an hour of the day
+export const formatHour = (hour: number) =>
+  new Date(2000, 0, 1, hour).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
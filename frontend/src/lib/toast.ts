@@ -0,0 +1,46 @@
+import axios from 'axios'
+
+export interface Toast {
+  id: number
+  title: string
+  description?: string
+  variant: 'default' | 'destructive'
+}
+
+const TOAST_DURATION_MS = 5000
+
+let toasts: Toast[] = []
+let nextId = 1
+const listeners = new Set<() => void>()
+
+const emit = (next: Toast[]) => {
+  toasts = next
+  listeners.forEach(listener => listener())
+}
+
+export function subscribeToasts(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const getToasts = () => toasts
+
+export function dismissToast(id: number) {
+  emit(toasts.filter(toast => toast.id !== id))
+}
+
+// Show a short notification in the corner; it goes away by itself after a few seconds
+export function toast(title: string, options: { description?: string; variant?: Toast['variant'] } = {}) {
+  const id = nextId++
+  emit([...toasts, { id, title, description: options.description, variant: options.variant ?? 'default' }])
+  setTimeout(() => dismissToast(id), TOAST_DURATION_MS)
+}
+
+// Error toast, with the API's message as the description when it sent one
+export function toastError(title: string, err: unknown) {
+  const data = axios.isAxiosError(err) ? (err.response?.data as { error?: string; errors?: { constraints: Record<string, string> }[] } | undefined) : undefined
+  const description = data?.error ?? (data?.errors?.[0] && Object.values(data.errors[0].constraints)[0]) ?? (axios.isAxiosError(err) && !err.response ? 'The server could not be reached.' : undefined)
+  toast(title, { description, variant: 'destructive' })
+}
@@ -0,0 +1,138 @@
+import type { InfiniteData, QueryClient } from '@tanstack/react-query'
+import type { FilterType, ListScope, SortType, Todo, TodoPage, TodoSearchResult, TodoStatus } from '../contexts/TodoContext'
+import { PRIORITY_OPTIONS } from './priority'
+
+// Whether the server would include the todo in the list with this filter and scope
+export function matchesList(todo: Todo, filter: FilterType, { projectId, tagIds, match }: ListScope) {
+  if (filter === 'TRASH') return false
+  if (filter === 'COMPLETED' && !todo.isDone) return false
+  if (filter === 'UPCOMING' && todo.isDone) return false
+  if (projectId && todo.projectId !== (projectId === 'none' ? null : projectId)) return false
+  if (tagIds.length > 0) {
+    const has = (tagId: string) => todo.tags.some(tag => tag.id === tagId)
+    if (match === 'all' ? !tagIds.every(has) : !tagIds.some(has)) return false
+  }
+  return true
+}
+
+const priorityRank = (todo: Todo) => PRIORITY_OPTIONS.findIndex(option => option.value === todo.priority)
+
+const compareText = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0)
+
+// Same order as GET /todos: by due date, most urgent first then due date, or the manual order, with the id as tiebreaker
+export const compareTodos = (sort: SortType) => (a: Todo, b: Todo) =>
+  (sort === 'MANUAL'
+    ? compareText(a.position, b.position)
+    : (sort === 'PRIORITY' ? priorityRank(b) - priorityRank(a) : 0) || Date.parse(a.dateTime) - Date.parse(b.dateTime)) ||
+  compareText(a.id, b.id)
+
+// Whether the todo falls in a calendar range, which holds every todo due from `from` up to `to`
+export const isDueIn = (todo: Todo, from: string, to: string) => {
+  const due = Date.parse(todo.dateTime)
+  return due >= Date.parse(from) && due < Date.parse(to)
+}
+
+/**
+ * Puts a created or updated todo into a cached list in sort order, or takes it
+ * out if it no longer belongs there. A todo sorting after everything loaded so
+ * far is left for the next page to bring in, so pages never overlap. `isNew`
+ * says the todo cannot have been counted in `total` before.
+ */
+export function upsertTodo(data: InfiniteData<TodoPage>, todo: Todo, belongs: boolean, sort: SortType, isNew: boolean): InfiniteData<TodoPage> {
+  const compare = compareTodos(sort)
+  const wasListed = data.pages.some(page => page.data.some(item => item.id === todo.id))
+  let inserted = false
+  const pages = data.pages.map((page, index) => {
+    let items = page.data.filter(item => item.id !== todo.id)
+    const isLastLoaded = index === data.pages.length - 1 && !page.nextCursor
+    const last = items[items.length - 1]
+    if (belongs && !inserted && (isLastLoaded || (last && compare(todo, last) < 0))) {
+      const at = items.findIndex(item => compare(todo, item) < 0)
+      items = at === -1 ? [...items, todo] : [...items.slice(0, at), todo, ...items.slice(at)]
+      inserted = true
+    }
+    return { ...page, data: items }
+  })
+  // An updated todo that is not loaded may or may not be further down the list, so its count stays as it was
+  const allLoaded = !data.pages[data.pages.length - 1]?.nextCursor
+  const counted = wasListed || (!isNew && !allLoaded && belongs)
+  const total = (data.pages[0]?.total ?? 0) - (counted ? 1 : 0) + (belongs ? 1 : 0)
+  return { ...data, pages: pages.map(page => ({ ...page, total })) }
+}
+
+export function removeTodo(data: InfiniteData<TodoPage>, id: string): InfiniteData<TodoPage> {
+  if (!data.pages.some(page => page.data.some(item => item.id === id))) return data
+  return {
+    ...data,
+    pages: data.pages.map(page => ({ ...page, data: page.data.filter(item => item.id !== id), total: page.total - 1 })),
+  }
+}
+
+// A todo's cached copy from any live list, calendar or search, or from the trash listing with `inTrash`
+export function findCachedTodo(queryClient: QueryClient, id: string, inTrash = false): Todo | undefined {
+  for (const [key, cached] of queryClient.getQueriesData({ queryKey: ['todos'] })) {
+    if (!cached || (key[1] === 'TRASH') !== inTrash) continue
+    const todos = key[1] === 'search' || key[1] === 'calendar'
+      ? (cached as Todo[])
+      : (cached as InfiniteData<TodoPage>).pages.flatMap(page => page.data)
+    const todo = todos.find(item => item.id === id)
+    if (todo) return todo
+  }
+  return undefined
+}
+
+/**
+ * Applies a created or updated todo to every cached list (`['todos', filter, sort, scope]`),
+ * board column (`['todos', 'board', status]`), calendar range (`['todos', 'calendar', from, to]`)
+ * and search (`['todos', 'search', ...]`).
+ * Searches only take edits: whether a new or changed todo matches the query is for the server to say.
+ */
+export function patchTodoCaches(queryClient: QueryClient, todo: Todo, isNew: boolean) {
+  for (const [key, cached] of queryClient.getQueriesData({ queryKey: ['todos'] })) {
+    if (!cached) continue
+    if (key[1] === 'search') {
+      if (!isNew) queryClient.setQueryData(key, (cached as TodoSearchResult[]).map(result => (result.id === todo.id ? { ...result, ...todo } : result)))
+    } else if (key[1] === 'board') {
+      const [, , status] = key as [string, string, TodoStatus]
+      queryClient.setQueryData(key, upsertTodo(cached as InfiniteData<TodoPage>, todo, todo.status === status, 'DATE', isNew))
+    } else if (key[1] === 'calendar') {
+      const [, , from, to] = key as [string, string, string, string]
+      const others = (cached as Todo[]).filter(item => item.id !== todo.id)
+      queryClient.setQueryData(key, isDueIn(todo, from, to) ? [...others, todo].sort(compareTodos('DATE')) : others)
+    } else {
+      const [, filter, sort, scope] = key as [string, FilterType, SortType, ListScope]
+      queryClient.setQueryData(key, upsertTodo(cached as InfiniteData<TodoPage>, todo, matchesList(todo, filter, scope), sort, isNew))
+    }
+  }
+}
+
+/**
+ * Puts a moved todo right after `before` (or right before `after`) in every cached
+ * manual-order list that has that neighbour loaded. Other lists don't order by position.
+ */
+export function moveInTodoCaches(queryClient: QueryClient, todo: Todo, before: Todo | null, after: Todo | null) {
+  const neighbour = before ?? after
+  if (!neighbour) return
+  for (const [key, cached] of queryClient.getQueriesData<InfiniteData<TodoPage>>({ queryKey: ['todos'] })) {
+    // Only list keys (`['todos', filter, sort, scope]`) hold a sort mode in third place
+    if (!cached || key[2] !== 'MANUAL') continue
+    const pages = cached.pages.map(page => ({ ...page, data: page.data.filter(item => item.id !== todo.id) }))
+    const page = pages.find(page => page.data.some(item => item.id === neighbour.id))
+    if (!page) continue
+    const at = page.data.findIndex(item => item.id === neighbour.id)
+    page.data.splice(before ? at + 1 : at, 0, todo)
+    queryClient.setQueryData(key, { ...cached, pages })
+  }
+}
+
+export function removeFromTodoCaches(queryClient: QueryClient, id: string) {
+  for (const [key, cached] of queryClient.getQueriesData({ queryKey: ['todos'] })) {
+    if (!cached) continue
+    queryClient.setQueryData(
+      key,
+      key[1] === 'search' || key[1] === 'calendar'
+        ? (cached as Todo[]).filter(item => item.id !== id)
+        : removeTodo(cached as InfiniteData<TodoPage>, id),
+    )
+  }
+}
@@ -34,6 +34,13 @@ if (!googleClientId) {
   console.log(`   ${window.location.origin}`)
 }
 
+// Cache the app shell so the app opens without a connection; skipped in dev, where it would serve stale modules
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.error('Service worker registration failed:', err))
+  })
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     {googleClientId && googleClientId !== 'your-development-client-id-here' ? (
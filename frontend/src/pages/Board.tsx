@@ -0,0 +1,68 @@
+import { useState } from 'react'
+import BoardColumn from '../components/BoardColumn'
+import ConflictDialog from '../components/ConflictDialog'
+import TodoFormModal from '../components/TodoFormModal'
+import { useTodos, type Todo, type TodoStatus } from '../contexts/TodoContext'
+import { getConflictingTodo } from '../lib/conflict'
+import { STATUS_OPTIONS, statusChanges } from '../lib/status'
+
+export default function Board() {
+  const { updateTodo, refetch } = useTodos()
+  const [dragging, setDragging] = useState<Todo | null>(null)
+  const [editing, setEditing] = useState<Todo | null>(null)
+  const [conflict, setConflict] = useState<{ todo: Todo; status: TodoStatus; server: Todo } | null>(null)
+
+  const move = async (todo: Todo, status: TodoStatus, version?: number) => {
+    setDragging(null)
+    if (todo.status === status) return
+    try {
+      await updateTodo({ todo, changes: statusChanges(status), body: { status }, version })
+    } catch (error) {
+      // Other failures are rolled back and reported by TodoContext
+      const server = getConflictingTodo(error)
+      if (server) setConflict({ todo, status, server })
+    }
+  }
+
+  const overwrite = () => {
+    if (!conflict) return
+    setConflict(null)
+    move(conflict.todo, conflict.status, conflict.server.version)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-bold tracking-tight sm:text-3xl">Board</h1>
+        <p className="text-sm sm:text-base text-muted-foreground">
+          Drag tasks between columns, or pick a status on the card, to track where each one stands.
+        </p>
+      </div>
+
+      <div className="flex gap-3 pb-2 overflow-x-auto">
+        {STATUS_OPTIONS.map(({ value }) => (
+          <BoardColumn
+            key={value}
+            status={value}
+            dragging={dragging}
+            onDragStart={setDragging}
+            onDragEnd={() => setDragging(null)}
+            onMove={move}
+            onSelect={setEditing}
+          />
+        ))}
+      </div>
+
+      {editing && <TodoFormModal todo={editing} open onOpenChange={open => !open && setEditing(null)} />}
+      <ConflictDialog
+        serverTodo={conflict?.server ?? null}
+        onReload={() => {
+          setConflict(null)
+          refetch()
+        }}
+        onOverwrite={overwrite}
+        onCancel={() => setConflict(null)}
+      />
+    </div>
+  )
+}
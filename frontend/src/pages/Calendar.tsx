@@ -0,0 +1,122 @@
+import { useState } from 'react'
+import { addDays, addMonths, addWeeks, eachDayOfInterval, endOfMonth, endOfWeek, format, startOfMonth, startOfWeek } from 'date-fns'
+import CalendarGrid, { type CalendarView } from '../components/CalendarGrid'
+import ConflictDialog from '../components/ConflictDialog'
+import TodoFormModal from '../components/TodoFormModal'
+import { useTodos, type Todo } from '../contexts/TodoContext'
+import { useCalendarTodos } from '../hooks/useCalendarTodos'
+import { getConflictingTodo } from '../lib/conflict'
+import { cn } from '../lib/utils'
+import { Button } from '@/components/ui/Button'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+
+// The days on screen: whole weeks around a month, or the week containing `anchor`
+function visibleDays(view: CalendarView, anchor: Date) {
+  const start = view === 'month' ? startOfWeek(startOfMonth(anchor)) : startOfWeek(anchor)
+  const end = view === 'month' ? endOfWeek(endOfMonth(anchor)) : endOfWeek(anchor)
+  return eachDayOfInterval({ start, end })
+}
+
+export default function Calendar() {
+  const { updateTodo, refetch } = useTodos()
+  const [view, setView] = useState<CalendarView>('month')
+  const [anchor, setAnchor] = useState(() => new Date())
+  // A time picked from an empty slot to create a task at, or a todo opened for editing
+  const [newAt, setNewAt] = useState<Date | null>(null)
+  const [editing, setEditing] = useState<Todo | null>(null)
+  const [conflict, setConflict] = useState<{ todo: Todo; dateTime: string; server: Todo } | null>(null)
+
+  const days = visibleDays(view, anchor)
+  const { todos } = useCalendarTodos(days[0], addDays(days[days.length - 1], 1))
+
+  const step = (direction: 1 | -1) => setAnchor(current => (view === 'month' ? addMonths(current, direction) : addWeeks(current, direction)))
+
+  const reschedule = async (todo: Todo, dateTime: string, version?: number) => {
+    try {
+      await updateTodo({ todo, changes: { dateTime }, version })
+    } catch (error) {
+      // Other failures are rolled back and reported by TodoContext
+      const server = getConflictingTodo(error)
+      if (server) setConflict({ todo, dateTime, server })
+    }
+  }
+
+  const overwrite = () => {
+    if (!conflict) return
+    setConflict(null)
+    reschedule(conflict.todo, conflict.dateTime, conflict.server.version)
+  }
+
+  const title = view === 'month' ? format(anchor, 'MMMM yyyy') : `${format(days[0], 'MMM d')} – ${format(days[6], 'MMM d, yyyy')}`
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-bold tracking-tight sm:text-3xl">Calendar</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Drag a task to reschedule it, or click an empty slot to add one.
+          </p>
+        </div>
+        <div className="inline-flex p-1 rounded-lg bg-muted w-fit" role="group" aria-label="Calendar view">
+          {(['month', 'week'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              aria-pressed={view === option}
+              className={cn(
+                'px-3 py-1 text-sm font-medium capitalize rounded-md transition-colors',
+                view === option ? 'bg-background shadow-sm' : 'text-muted-foreground hover:text-foreground',
+              )}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="icon-sm" onClick={() => step(-1)} aria-label={`Previous ${view}`}>
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" size="icon-sm" onClick={() => step(1)} aria-label={`Next ${view}`}>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+          Today
+        </Button>
+        <h2 className="ml-2 text-lg font-semibold" aria-live="polite">{title}</h2>
+      </div>
+
+      <CalendarGrid
+        view={view}
+        days={days}
+        month={anchor}
+        todos={todos}
+        onSelectSlot={setNewAt}
+        onSelectTodo={setEditing}
+        onMoveTodo={(todo, to) => reschedule(todo, to.toISOString())}
+        onShowDay={day => {
+          setAnchor(day)
+          setView('week')
+        }}
+      />
+
+      {/* The form's date picker works in UTC "YYYY-MM-DDTHH:mm" strings */}
+      {newAt && (
+        <TodoFormModal open defaultDateTime={newAt.toISOString().slice(0, 16)} onOpenChange={open => !open && setNewAt(null)} />
+      )}
+      {editing && <TodoFormModal todo={editing} open onOpenChange={open => !open && setEditing(null)} />}
+      <ConflictDialog
+        serverTodo={conflict?.server ?? null}
+        onReload={() => {
+          setConflict(null)
+          refetch()
+        }}
+        onOverwrite={overwrite}
+        onCancel={() => setConflict(null)}
+      />
+    </div>
+  )
+}
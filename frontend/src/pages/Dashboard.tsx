@@ -1,5 +1,6 @@
 import TodoFormModal from '../components/TodoFormModal'
 import TodoList from '../components/TodoList'
+import ImportIcsDialog from '../components/ImportIcsDialog'
 import { useAuth } from '@/contexts/AuthContext'
 import { Button } from '@/components/ui/Button'
 import { Plus } from 'lucide-react'
@@ -20,8 +21,9 @@ export default function Dashboard() {
           </p>
         </div>
         
-        {/* Add Task Button */}
-        <div className="flex-shrink-0">
+        {/* Import and Add Task Buttons */}
+        <div className="flex flex-col flex-shrink-0 gap-2 sm:flex-row">
+          <ImportIcsDialog />
           <TodoFormModal 
             trigger={
               <Button size="lg" className="w-full sm:w-auto">
@@ -9,6 +9,11 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import * as z from 'zod'
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
 import { useState } from 'react'
+import DigestSettingsCard from '@/components/DigestSettingsCard'
+import CalendarFeedCard from '@/components/CalendarFeedCard'
+import DataTransferCard from '@/components/DataTransferCard'
+import WebhooksCard from '@/components/WebhooksCard'
+import AccessTokensCard from '@/components/AccessTokensCard'
 import { User, Mail, Calendar, Shield } from 'lucide-react'
 
 const passwordSchema = z.object({
@@ -181,6 +186,16 @@ export default function Profile() {
               </Form>
             </CardContent>
           </Card>
+
+          <DigestSettingsCard />
+
+          <CalendarFeedCard />
+
+          <DataTransferCard />
+
+          <AccessTokensCard />
+
+          <WebhooksCard />
         </div>
       </div>
     </div>
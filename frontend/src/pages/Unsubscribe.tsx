@@ -0,0 +1,65 @@
+import { useState } from 'react'
+import { useSearchParams, Link } from 'react-router-dom'
+import api from '../api/client'
+import { Button } from '../components/ui/Button'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '../components/ui/Card'
+
+// Landing page for the unsubscribe link in digest emails; works without logging in
+export default function Unsubscribe() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token')
+  const [status, setStatus] = useState<'idle' | 'submitting' | 'done' | 'error'>('idle')
+
+  // Unsubscribing takes a click rather than happening on load, so link scanners in mail clients cannot trigger it
+  const unsubscribe = async () => {
+    setStatus('submitting')
+    try {
+      await api.post('/digest/unsubscribe', { token })
+      setStatus('done')
+    } catch (err) {
+      console.error('Unsubscribe failed:', err)
+      setStatus('error')
+    }
+  }
+
+  return (
+    <div className="flex min-h-[calc(100vh_-_theme(spacing.24))] items-center justify-center py-12">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Email Digest</CardTitle>
+          <CardDescription>
+            Stop receiving daily and weekly digest emails.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4">
+          {!token && (
+            <div className="text-sm font-medium text-destructive bg-destructive/10 border border-destructive/30 p-3 rounded-md">
+              This unsubscribe link is incomplete.
+            </div>
+          )}
+          {status === 'error' && (
+            <div className="text-sm font-medium text-destructive bg-destructive/10 border border-destructive/30 p-3 rounded-md">
+              This unsubscribe link is invalid.
+            </div>
+          )}
+          {status === 'done' ? (
+            <div className="text-sm font-medium text-green-600 bg-green-50 border border-green-300 p-3 rounded-md">
+              You have been unsubscribed. You can turn digests back on from your profile.
+            </div>
+          ) : (
+            token && (
+              <Button onClick={unsubscribe} className="w-full" disabled={status === 'submitting'}>
+                {status === 'submitting' ? 'Unsubscribing...' : 'Unsubscribe'}
+              </Button>
+            )
+          )}
+        </CardContent>
+        <CardFooter className="justify-center text-sm">
+          <Link to="/profile" className="underline">
+            Manage email settings
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}